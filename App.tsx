@@ -1,8 +1,36 @@
 
-import React, { useState, useCallback, useMemo, useRef } from 'react';
-import { fetchTickerHistory, fetchSingleMovementContext } from './services/geminiService';
-import { MovementEvent, MovementType, AnalysisResult } from './types';
-import PriceChart from './components/PriceChart';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { fetchSingleMovementContext } from './services/geminiService';
+import { createPriceProvider, geminiPriceProvider, PRICE_SOURCE_LABELS } from './services/priceProviders';
+import { daysBetween, describeThreshold, movementKey, thresholdSeries, VOLATILITY_MEASURE_LABELS } from './services/analysisEngine';
+import { formatPeriod, isValidRange, periodSlug, todayIso } from './services/dateRange';
+import { withCache, contextCacheKey, expiryForYear } from './services/cache';
+import { MovementType, MovementEvent, AnalysisResult, ComparisonResult, SavedAnalysis, BacktestOptions, DataQualityOptions, PriceSource, PriceSourceConfig, SwingMode, PriceTrigger, QuoteCurrency, AdaptiveThreshold, VolatilityMeasure, LlmProviderKind, LlmSettings, ChartRange, ChartView, IndicatorOverlay, IndicatorPanel, PriceScale } from './types';
+import PriceChart, { INDICATOR_OVERLAYS, INDICATOR_PANELS, hasOHLC } from './components/PriceChart';
+import ComparisonReport from './components/ComparisonReport';
+import CachePanel from './components/CachePanel';
+import LlmSettingsPanel from './components/LlmSettingsPanel';
+import LibrarySidebar from './components/LibrarySidebar';
+import WatchPanel from './components/WatchPanel';
+import ThresholdSweep from './components/ThresholdSweep';
+import BacktestPanel from './components/BacktestPanel';
+import StatisticsPanel from './components/StatisticsPanel';
+import PatternPanel from './components/PatternPanel';
+import ResearchDetails from './components/ResearchDetails';
+import DataQualityBadge from './components/DataQualityBadge';
+import DataQualitySettings from './components/DataQualitySettings';
+import IndicatorChips from './components/IndicatorChips';
+import { runBacktest, DEFAULT_BACKTEST_OPTIONS } from './services/backtest';
+import { runAnalysis } from './services/analysisRunner';
+import { DEFAULT_DATA_QUALITY_OPTIONS } from './services/dataQuality';
+import { exportAnalysisJson, importAnalysisJson, movementsToCsv, pricesToCsv } from './services/analysisExport';
+import { downloadTextFile } from './services/download';
+import { buildComparisonReportPdf, buildSwingReportPdf, captureChartImage, DEFAULT_PDF_OPTIONS, PDF_PAPER_LABELS, PdfOptions, PdfPaper } from './services/pdfReport';
+import { createResearchQueue, isAbortError, DEFAULT_RESEARCH_QUEUE_OPTIONS } from './services/researchQueue';
+import { fetchQuoteRates, formatPrice, QUOTE_CURRENCIES } from './services/currency';
+import { annotateMovements, computeIndicators, matchesRegime, SwingRegime, SWING_REGIMES } from './services/indicators';
+import { configureLlm, createLlmProvider, researchCacheVariant, withRecording, DEFAULT_LLM_SETTINGS, LlmFixture } from './services/llm';
+import { decodeShareState, encodeShareState, shareAnalysisKey, shareAnalysisOf, ShareState, ShareView } from './services/shareLink';
 import { 
   Calendar, 
   Percent, 
@@ -14,121 +42,556 @@ import {
   Search, 
   Download, 
   Coins, 
-  Zap
+  Zap,
+  Database,
+  Upload,
+  Link,
+  HardDrive,
+  BookMarked,
+  RotateCcw,
+  X,
+  FileBraces,
+  FileSpreadsheet,
+  FileUp,
+  Eye,
+  Share2,
+  ShieldAlert,
+  BrainCircuit
 } from 'lucide-react';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
+
+// Accepts "BTC", "BTC, ETH" or "btc eth sol"; duplicates are dropped
+const parseTickers = (input: string): string[] =>
+  Array.from(new Set(input.split(/[\s,;]+/).map(t => t.trim().toUpperCase()).filter(Boolean)));
+
+// Brush drags change the zoom many times a second; the URL follows once they settle
+const URL_WRITE_DELAY_MS = 250;
+
+// Research progress per swing, keyed by movementKey. Finished swings carry their research instead.
+interface ResearchState {
+  status: 'queued' | 'loading' | 'error';
+  error?: string;
+}
 
 const App: React.FC = () => {
   const [ticker, setTicker] = useState<string>("BTC");
-  const [year, setYear] = useState<number>(new Date().getFullYear());
+  const [startDate, setStartDate] = useState<string>(`${new Date().getFullYear()}-01-01`);
+  const [endDate, setEndDate] = useState<string>(todayIso());
   const [percentage, setPercentage] = useState<number>(5);
+  const [thresholdMeasure, setThresholdMeasure] = useState<VolatilityMeasure | 'FIXED'>('FIXED');
+  const [volatilityWindow, setVolatilityWindow] = useState<number>(14);
+  const [volatilityMultiple, setVolatilityMultiple] = useState<number>(3);
+  const [swingMode, setSwingMode] = useState<SwingMode>(SwingMode.THRESHOLD);
+  const [priceTrigger, setPriceTrigger] = useState<PriceTrigger>(PriceTrigger.CLOSE);
+  const [chartView, setChartView] = useState<ChartView>('AREA');
+  const [priceScale, setPriceScale] = useState<PriceScale>('LINEAR');
+  const [indicatorOverlays, setIndicatorOverlays] = useState<IndicatorOverlay[]>([]);
+  const [indicatorPanels, setIndicatorPanels] = useState<IndicatorPanel[]>([]);
+  const [swingRegime, setSwingRegime] = useState<SwingRegime>('ALL');
+  const [showEnvelope, setShowEnvelope] = useState<boolean>(false);
+  const [quoteCurrency, setQuoteCurrency] = useState<QuoteCurrency>(QuoteCurrency.USD);
+  const [chartRange, setChartRange] = useState<ChartRange | null>(null);
+  const [activeSwing, setActiveSwing] = useState<number | null>(null);
+  const [selectedSwing, setSelectedSwing] = useState<number | null>(null);
+  const [priceSource, setPriceSource] = useState<PriceSource>(PriceSource.GEMINI);
+  const [importedFile, setImportedFile] = useState<{ name: string; contents: string } | null>(null);
+  const [restUrl, setRestUrl] = useState<string>("http://localhost:8080/candles?symbol={ticker}&start={start}&end={end}");
   const [loading, setLoading] = useState<boolean>(false);
-  const [activeResearchCount, setActiveResearchCount] = useState<number>(0);
+  const [researchState, setResearchState] = useState<Record<string, ResearchState>>({});
+  const [researchConcurrency, setResearchConcurrency] = useState<number>(DEFAULT_RESEARCH_QUEUE_OPTIONS.concurrency);
+  const [autoResearchLimit, setAutoResearchLimit] = useState<number>(15);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<AnalysisResult | null>(null);
-  const reportRef = useRef<HTMLDivElement>(null);
+  const [comparison, setComparison] = useState<ComparisonResult | null>(null);
+  const [showCache, setShowCache] = useState<boolean>(false);
+  const [showLlmSettings, setShowLlmSettings] = useState<boolean>(false);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(DEFAULT_LLM_SETTINGS);
+  const [llmFixtures, setLlmFixtures] = useState<LlmFixture[]>([]);
+  const [recordingLlm, setRecordingLlm] = useState<boolean>(false);
+  const [showLibrary, setShowLibrary] = useState<boolean>(false);
+  const [showWatch, setShowWatch] = useState<boolean>(false);
+  const [backtestOptions, setBacktestOptions] = useState<BacktestOptions>(DEFAULT_BACKTEST_OPTIONS);
+  const [showEquity, setShowEquity] = useState<boolean>(false);
+  const [dataQualityOptions, setDataQualityOptions] = useState<DataQualityOptions>(DEFAULT_DATA_QUALITY_OPTIONS);
+  const [pdfOptions, setPdfOptions] = useState<PdfOptions>(DEFAULT_PDF_OPTIONS);
+  const [exportingPdf, setExportingPdf] = useState<boolean>(false);
+  const [autoRun, setAutoRun] = useState<boolean>(false);
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
+  // Shown for copying by hand when the clipboard is unavailable
+  const [manualLink, setManualLink] = useState<string | null>(null);
+  // REST endpoint of an opened link, waiting for the user to allow it
+  const [confirmRestUrl, setConfirmRestUrl] = useState<string | null>(null);
+  const chartRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const analysisInputRef = useRef<HTMLInputElement>(null);
+  const researchAbortRef = useRef<AbortController>(new AbortController());
+  // A link's swing and zoom wait for its analysis to load, and the URL is left alone until then
+  const pendingViewRef = useRef<Pick<ShareView, 'swing' | 'zoom'> | null>(null);
+  const restoringRef = useRef<boolean>(false);
+  // Key of the analysis in the current history entry; a different one gets a new entry
+  const sharedAnalysisRef = useRef<string>('');
+  // REST endpoints the user ran or allowed in this session; links to others ask first
+  const trustedRestUrlsRef = useRef<Set<string>>(new Set());
+
+  // Recorded responses replace any earlier one for the same request, so the mock can replay them straight away
+  useEffect(() => {
+    const provider = createLlmProvider(llmSettings, llmFixtures);
+    configureLlm(
+      recordingLlm
+        ? withRecording(provider, fixture => setLlmFixtures(prev => [...prev.filter(f => f.key !== fixture.key), fixture]))
+        : provider,
+      llmSettings
+    );
+  }, [llmSettings, llmFixtures, recordingLlm]);
+
+  const researchQueue = useMemo(
+    () => createResearchQueue({ concurrency: researchConcurrency }),
+    [researchConcurrency]
+  );
+
+  // Aborts queued and in-flight research so late answers can't land in a newer report
+  const cancelResearch = useCallback(() => {
+    researchAbortRef.current.abort();
+    researchAbortRef.current = new AbortController();
+    setResearchState({});
+  }, []);
+
+  const researchMovements = useCallback((symbol: string, moves: MovementEvent[], currency: QuoteCurrency) => {
+    const signal = researchAbortRef.current.signal;
+    const setState = (key: string, state: ResearchState | null) => setResearchState(prev => {
+      const { [key]: _previous, ...rest } = prev;
+      return state ? { ...rest, [key]: state } : rest;
+    });
+
+    moves.forEach(move => {
+      const key = movementKey(move);
+      setState(key, { status: 'queued' });
+
+      researchQueue.run(taskSignal => {
+        setState(key, { status: 'loading' });
+        const fetchResearch = () => fetchSingleMovementContext(symbol, move, taskSignal, currency);
+        // Mock answers are instant, and caching them would hide real research recorded later
+        if (llmSettings.provider === LlmProviderKind.MOCK) return fetchResearch();
+        return withCache(
+          contextCacheKey(symbol, move, currency, researchCacheVariant(llmSettings)),
+          'context',
+          `${symbol} ${move.type} ${move.startDate} → ${move.endDate}`,
+          expiryForYear(parseInt(move.endDate.slice(0, 4))),
+          fetchResearch
+        );
+      }, signal)
+        .then(research => {
+          if (signal.aborted) return;
+          setResult(prev => prev && prev.ticker === symbol
+            ? { ...prev, movements: prev.movements.map(m => movementKey(m) === key ? { ...m, context: research.summary, research } : m) }
+            : prev);
+          setState(key, null);
+        })
+        .catch(err => {
+          if (signal.aborted || isAbortError(err)) return;
+          setState(key, { status: 'error', error: err?.message || "Research failed for this swing." });
+        });
+    });
+  }, [researchQueue, llmSettings]);
+
+  const handleFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setImportedFile({ name: file.name, contents: await file.text() });
+    e.target.value = '';
+  };
 
   const performAnalysis = useCallback(async () => {
     const validatedPercentage = Math.max(2, percentage);
     setPercentage(validatedPercentage);
 
+    cancelResearch();
+    setConfirmRestUrl(null);
     setLoading(true);
-    setActiveResearchCount(0);
     setError(null);
     setResult(null);
+    setComparison(null);
 
     try {
-      const data = await fetchTickerHistory(ticker.toUpperCase(), year);
-      if (!data || data.length < 2) {
-        throw new Error(`Insufficient data found for ${ticker} in ${year}.`);
+      const tickers = parseTickers(ticker);
+      if (tickers.length === 0) {
+        throw new Error("Enter at least one ticker.");
+      }
+      if (!isValidRange(startDate, endDate)) {
+        throw new Error("Choose a start date that is on or before the end date.");
+      }
+
+      let sourceConfig: PriceSourceConfig;
+      if (priceSource === PriceSource.FILE) {
+        if (!importedFile) throw new Error("Select a CSV or JSON price file to import first.");
+        sourceConfig = { source: PriceSource.FILE, fileName: importedFile.name, contents: importedFile.contents };
+      } else if (priceSource === PriceSource.REST) {
+        sourceConfig = { source: PriceSource.REST, urlTemplate: restUrl.trim() };
+        trustedRestUrlsRef.current.add(restUrl.trim());
+      } else {
+        sourceConfig = { source: PriceSource.GEMINI };
       }
 
-      const target = validatedPercentage / 100;
-      let initialMovements: MovementEvent[] = [];
-      let baseIndex = 0;
+      if (tickers.length > 1 && priceSource === PriceSource.FILE) {
+        throw new Error("A price file holds a single asset. Use Gemini or a REST endpoint to compare tickers.");
+      }
 
-      for (let i = 1; i < data.length; i++) {
-        const basePrice = data[baseIndex].price;
-        const currentPrice = data[i].price;
-        const change = (currentPrice - basePrice) / basePrice;
+      const adaptive: AdaptiveThreshold | undefined = thresholdMeasure === 'FIXED'
+        ? undefined
+        : { measure: thresholdMeasure, window: volatilityWindow, multiple: volatilityMultiple };
 
-        if (Math.abs(change) >= target) {
-          const startDateStr = data[baseIndex].date;
-          const endDateStr = data[i].date;
-          
-          // FIX: Calculate actual calendar days instead of index difference
-          // This ensures the "Days Taken" matches the real date range
-          const start = new Date(startDateStr);
-          const end = new Date(endDateStr);
-          const diffTime = Math.abs(end.getTime() - start.getTime());
-          const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-          initialMovements.push({
-            startDate: startDateStr,
-            endDate: endDateStr,
-            startPrice: basePrice,
-            endPrice: currentPrice,
-            type: change > 0 ? MovementType.UP : MovementType.DOWN,
-            percentageChange: change * 100,
-            daysTaken: diffDays
-          });
-          baseIndex = i;
+      const provider = createPriceProvider(sourceConfig);
+      const rateTicker = QUOTE_CURRENCIES[quoteCurrency].rateTicker;
+      if (rateTicker && tickers.includes(rateTicker)) {
+        throw new Error(`${rateTicker} quoted in ${quoteCurrency} is always 1. Choose another quote currency.`);
+      }
+      // A price file only holds the analysed asset, so its conversion rates come from Gemini
+      const rates = await fetchQuoteRates(
+        priceSource === PriceSource.FILE ? geminiPriceProvider : provider,
+        quoteCurrency,
+        startDate,
+        endDate
+      );
+
+      const analyzeTicker = (symbol: string) => runAnalysis(
+        provider,
+        { ticker: symbol, startDate, endDate, thresholdPercent: validatedPercentage, mode: swingMode, trigger: priceTrigger, adaptive, currency: quoteCurrency },
+        { dataQuality: dataQualityOptions, rates }
+      );
+
+      // Comparisons skip per-swing research to keep API usage proportional to one report
+      if (tickers.length > 1) {
+        const assets: AnalysisResult[] = [];
+        for (const symbol of tickers) {
+          assets.push(await analyzeTicker(symbol));
         }
+        setComparison({
+          startDate,
+          endDate,
+          targetPercentage: validatedPercentage,
+          adaptive,
+          mode: swingMode,
+          trigger: priceTrigger,
+          source: provider.label,
+          sourceKind: provider.source,
+          assets
+        });
+        setLoading(false);
+        return;
       }
 
-      const initialResult: AnalysisResult = {
-        ticker: ticker.toUpperCase(),
-        year,
-        targetPercentage: validatedPercentage,
-        data,
-        movements: initialMovements
-      };
+      const initialResult = await analyzeTicker(tickers[0]);
       
       setResult(initialResult);
       setLoading(false);
 
-      // Fetch Macro Context PER CARD for direction accuracy
-      if (initialMovements.length > 0) {
-        const movesToResearch = initialMovements.slice(0, 15);
-        setActiveResearchCount(movesToResearch.length);
-
-        movesToResearch.forEach((move, index) => {
-          fetchSingleMovementContext(ticker.toUpperCase(), move)
-            .then((context) => {
-              setResult(prev => {
-                if (!prev) return prev;
-                const newMovements = [...prev.movements];
-                newMovements[index] = { ...newMovements[index], context };
-                return { ...prev, movements: newMovements };
-              });
-            })
-            .catch(err => console.error(`Failed research for card ${index}`, err))
-            .finally(() => setActiveResearchCount(prev => Math.max(0, prev - 1)));
-        });
-      }
+      // Fetch Macro Context PER CARD for direction accuracy; the rest can be queued from the cards
+      researchMovements(initialResult.ticker, initialResult.movements.slice(0, autoResearchLimit), initialResult.currency);
     } catch (err: any) {
       setError(err.message || "An unexpected error occurred.");
       setLoading(false);
     }
-  }, [ticker, year, percentage]);
+  }, [ticker, startDate, endDate, percentage, swingMode, priceTrigger, thresholdMeasure, volatilityWindow, volatilityMultiple, priceSource, importedFile, restUrl, quoteCurrency, dataQualityOptions, autoResearchLimit, cancelResearch, researchMovements]);
+
+  // Links set the inputs first, so the run waits for the render that applies them
+  useEffect(() => {
+    if (!autoRun) return;
+    setAutoRun(false);
+    performAnalysis();
+  }, [autoRun, performAnalysis]);
+
+  // Editing the inputs away from the displayed report stops its research
+  useEffect(() => {
+    if (!result) return;
+    const tickers = parseTickers(ticker);
+    const matches = tickers.length === 1 && tickers[0] === result.ticker &&
+      startDate === result.startDate && endDate === result.endDate &&
+      percentage === result.targetPercentage && swingMode === result.mode && priceTrigger === result.trigger &&
+      quoteCurrency === (result.currency ?? QuoteCurrency.USD) &&
+      thresholdMeasure === (result.adaptive?.measure ?? 'FIXED') &&
+      (!result.adaptive || (volatilityWindow === result.adaptive.window && volatilityMultiple === result.adaptive.multiple));
+    if (!matches) cancelResearch();
+  }, [result, ticker, startDate, endDate, percentage, swingMode, priceTrigger, quoteCurrency, thresholdMeasure, volatilityWindow, volatilityMultiple, cancelResearch]);
+
+  // Research lands in `result` without changing its series, so chart state keys on the series itself
+  const loadedData = result?.data;
+  const swingCount = result?.movements.length ?? 0;
+
+  // Zoom and highlight refer to the loaded series, so they reset when it changes (or take a link's)
+  useEffect(() => {
+    const pending = loadedData ? pendingViewRef.current : null;
+    if (pending) pendingViewRef.current = null;
+    const swing = pending && pending.swing !== null && pending.swing < swingCount ? pending.swing : null;
+    setChartRange(pending?.zoom ?? null);
+    setActiveSwing(swing);
+    setSelectedSwing(swing);
+    if (swing !== null) document.getElementById(`swing-card-${swing}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [loadedData, swingCount]);
+
+  // A link's view only applies to the analysis it opened, even when that fails
+  useEffect(() => {
+    if (loading) return;
+    pendingViewRef.current = null;
+    restoringRef.current = false;
+  }, [loading]);
+
+  // The report on screen, read by link handling without re-creating it on every result change
+  const shownRef = useRef<{ result: AnalysisResult | null; comparison: ComparisonResult | null }>({ result: null, comparison: null });
+  shownRef.current = { result, comparison };
+
+  // Puts a link's inputs and view in place, then reruns its analysis unless it is already shown.
+  // Reruns read prices and research from the local cache where they were fetched before.
+  const applyShareState = useCallback(({ analysis, view }: ShareState) => {
+    const { result, comparison } = shownRef.current;
+    setTicker(analysis.tickers.join(', '));
+    setStartDate(analysis.startDate);
+    setEndDate(analysis.endDate);
+    setPercentage(analysis.thresholdPercent);
+    setSwingMode(analysis.mode);
+    setPriceTrigger(analysis.trigger);
+    setQuoteCurrency(analysis.currency);
+    setThresholdMeasure(analysis.adaptive?.measure ?? 'FIXED');
+    if (analysis.adaptive) {
+      setVolatilityWindow(analysis.adaptive.window);
+      setVolatilityMultiple(analysis.adaptive.multiple);
+    }
+    setPriceSource(analysis.source);
+    if (analysis.restUrl) setRestUrl(analysis.restUrl);
+    setChartView(view.chartView);
+    setPriceScale(view.scale);
+    setIndicatorOverlays(view.overlays);
+    setIndicatorPanels(view.panels);
+    setSwingRegime(view.regime);
+    setShowEnvelope(view.envelope);
+
+    const key = shareAnalysisKey(analysis);
+    const shown = result ?? comparison;
+    if (shown && shareAnalysisKey(shareAnalysisOf(shown)) === key) {
+      const swing = result && view.swing !== null && view.swing < result.movements.length ? view.swing : null;
+      setChartRange(view.zoom);
+      setActiveSwing(swing);
+      setSelectedSwing(swing);
+      return;
+    }
+
+    sharedAnalysisRef.current = key;
+    setConfirmRestUrl(null);
+    if (analysis.source === PriceSource.FILE) {
+      cancelResearch();
+      setResult(null);
+      setComparison(null);
+      setError("This link was made from a local price file. Import the file and run the analysis to see it.");
+      return;
+    }
+    pendingViewRef.current = { swing: view.swing, zoom: view.zoom };
+    restoringRef.current = true;
+    // A link can name any endpoint, including hosts on the local network, so the browser
+    // only fetches from one the user has not used yet after they allow it
+    if (analysis.restUrl && !trustedRestUrlsRef.current.has(analysis.restUrl)) {
+      cancelResearch();
+      setResult(null);
+      setComparison(null);
+      setError(null);
+      setConfirmRestUrl(analysis.restUrl);
+      return;
+    }
+    setAutoRun(true);
+  }, [cancelResearch]);
+
+  const allowSharedRestUrl = () => {
+    if (confirmRestUrl) trustedRestUrlsRef.current.add(confirmRestUrl);
+    setConfirmRestUrl(null);
+    setAutoRun(true);
+  };
+
+  const dismissSharedRestUrl = () => {
+    setConfirmRestUrl(null);
+    pendingViewRef.current = null;
+    restoringRef.current = false;
+  };
+
+  // Opening a link runs its analysis; `applyShareState` is stable, so this runs once on mount
+  useEffect(() => {
+    const state = decodeShareState(window.location.search);
+    if (state) applyShareState(state);
+  }, [applyShareState]);
+
+  // Back and forward move between analyses and views
+  useEffect(() => {
+    const onPopState = () => {
+      const state = decodeShareState(window.location.search);
+      if (state) {
+        applyShareState(state);
+        return;
+      }
+      cancelResearch();
+      setResult(null);
+      setComparison(null);
+      setError(null);
+      setConfirmRestUrl(null);
+      sharedAnalysisRef.current = '';
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [applyShareState, cancelResearch]);
+
+  // Zooms the chart to a swing with some context on either side and brings it into view
+  const focusSwing = (index: number) => {
+    if (!result) return;
+    const move = result.movements[index];
+    const dates = result.data.map(d => d.date);
+    const start = Math.max(0, dates.indexOf(move.startDate));
+    const end = Math.max(start, dates.indexOf(move.endDate));
+    const padding = Math.max(5, Math.round((end - start) * 0.5));
+    setChartRange({
+      startDate: dates[Math.max(0, start - padding)],
+      endDate: dates[Math.min(dates.length - 1, end + padding)]
+    });
+    setActiveSwing(index);
+    setSelectedSwing(index);
+    chartRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const revealSwingCard = (index: number) => {
+    setActiveSwing(index);
+    setSelectedSwing(index);
+    document.getElementById(`swing-card-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  // Restores an analysis without refetching, and syncs the inputs so a rerun reproduces it
+  const showAnalysis = (loaded: AnalysisResult) => {
+    setTicker(loaded.ticker);
+    setStartDate(loaded.startDate);
+    setEndDate(loaded.endDate);
+    setPercentage(loaded.targetPercentage);
+    setSwingMode(loaded.mode);
+    setPriceTrigger(loaded.trigger);
+    setQuoteCurrency(loaded.currency ?? QuoteCurrency.USD);
+    setThresholdMeasure(loaded.adaptive?.measure ?? 'FIXED');
+    if (loaded.adaptive) {
+      setVolatilityWindow(loaded.adaptive.window);
+      setVolatilityMultiple(loaded.adaptive.multiple);
+    }
+    setError(null);
+    setComparison(null);
+    cancelResearch();
+    // Analyses saved before indicators existed get their readings filled in
+    setResult({ ...loaded, movements: annotateMovements(loaded.movements, loaded.data) });
+  };
 
+  const loadSavedAnalysis = (saved: SavedAnalysis) => {
+    showAnalysis(saved.result);
+    setShowLibrary(false);
+  };
+
+  const handleAnalysisImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      showAnalysis(importAnalysisJson(await file.text()));
+    } catch (err: any) {
+      setResult(null);
+      setComparison(null);
+      setError(err.message || "Import failed.");
+    }
+  };
+
+  const exportResult = (kind: 'json' | 'swings' | 'prices') => {
+    if (!result) return;
+    const base = `${result.ticker}_${periodSlug(result.startDate, result.endDate)}`;
+    if (kind === 'json') downloadTextFile(`${base}_analysis.json`, exportAnalysisJson(result), 'application/json');
+    else if (kind === 'swings') downloadTextFile(`${base}_swings.csv`, movementsToCsv(result), 'text/csv;charset=utf-8');
+    else downloadTextFile(`${base}_prices.csv`, pricesToCsv(result), 'text/csv;charset=utf-8');
+  };
+
+  // Builds the report off-screen; the on-screen report stays in place while it renders
   const downloadPDF = async () => {
-    if (!reportRef.current || !result) return;
-    setLoading(true);
+    const report = result ?? comparison;
+    if (!report || exportingPdf) return;
+    setExportingPdf(true);
     try {
-      const element = reportRef.current;
-      const canvas = await html2canvas(element, { scale: 1.5, backgroundColor: '#020617', useCORS: true });
-      const imgData = canvas.toDataURL('image/jpeg', 0.75);
-      const imgWidth = 210; 
-      const imgHeight = (canvas.height * imgWidth) / canvas.width;
-      const pdf = new jsPDF({ orientation: 'p', unit: 'mm', format: [imgWidth, imgHeight], compress: true });
-      pdf.addImage(imgData, 'JPEG', 0, 0, imgWidth, imgHeight, undefined, 'FAST');
-      pdf.save(`${result.ticker}_${result.year}_Report.pdf`);
+      const chart = chartRef.current ? await captureChartImage(chartRef.current) : null;
+      const pdf = result
+        ? buildSwingReportPdf(result, chart, pdfOptions, backtest ? { result: backtest, options: backtestOptions } : undefined)
+        : buildComparisonReportPdf(comparison!, chart, pdfOptions);
+      const name = result ? result.ticker : comparison!.assets.map(a => a.ticker).join('-');
+      pdf.save(`${name}_${periodSlug(report.startDate, report.endDate)}_${result ? 'Report' : 'Comparison'}.pdf`);
     } catch (err) {
+      console.error("PDF export failed:", err);
       alert("Failed to generate PDF.");
     } finally {
-      setLoading(false);
+      setExportingPdf(false);
+    }
+  };
+
+  const backtest = useMemo(
+    () => result ? runBacktest(result.data, result.movements, result.mode, backtestOptions) : null,
+    [result, backtestOptions]
+  );
+
+  const researchEvents = useMemo(
+    () => result ? result.movements.flatMap(m => m.research?.events ?? []) : [],
+    [result]
+  );
+
+  const indicatorSeries = useMemo(() => loadedData ? computeIndicators(loadedData) : undefined, [loadedData]);
+  const thresholds = useMemo(
+    () => result ? thresholdSeries(result.data, result.targetPercentage, result.adaptive) : undefined,
+    [result]
+  );
+
+  const toggleIn = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+  const activeResearchCount = (Object.values(researchState) as ResearchState[]).filter(s => s.status !== 'error').length;
+  const unresearchedMoves = result
+    ? result.movements.filter(m => !m.research && !m.context && !researchState[movementKey(m)])
+    : [];
+
+  const shown = result ?? comparison;
+  const shareQuery = useMemo(() => shown ? encodeShareState({
+    analysis: shareAnalysisOf(shown),
+    view: {
+      chartView,
+      scale: priceScale,
+      overlays: indicatorOverlays,
+      panels: indicatorPanels,
+      regime: swingRegime,
+      envelope: showEnvelope,
+      swing: result ? selectedSwing : null,
+      zoom: result ? chartRange : null
+    }
+  }) : null, [shown, result, chartView, priceScale, indicatorOverlays, indicatorPanels, swingRegime, showEnvelope, selectedSwing, chartRange]);
+
+  // Mirrors the displayed analysis into the URL: a new analysis adds a history entry, view changes replace it
+  useEffect(() => {
+    if (!shown || shareQuery === null || loading || restoringRef.current) return;
+    const timer = setTimeout(() => {
+      if (window.location.search === `?${shareQuery}`) return;
+      const key = shareAnalysisKey(shareAnalysisOf(shown));
+      const url = `${window.location.pathname}?${shareQuery}${window.location.hash}`;
+      if (key !== sharedAnalysisRef.current) window.history.pushState(null, '', url);
+      else window.history.replaceState(null, '', url);
+      sharedAnalysisRef.current = key;
+    }, URL_WRITE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [shown, shareQuery, loading]);
+
+  // A link shown for copying by hand goes stale once the view changes
+  useEffect(() => {
+    setManualLink(null);
+  }, [shareQuery]);
+
+  const copyShareLink = async () => {
+    if (shareQuery === null) return;
+    const link = `${window.location.origin}${window.location.pathname}?${shareQuery}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      setManualLink(null);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error("Copying the link failed:", err);
+      setManualLink(link);
     }
   };
 
@@ -140,10 +603,11 @@ const App: React.FC = () => {
     const first = prices[0];
     const last = prices[prices.length - 1];
     const totalChange = ((last - first) / first) * 100;
-    const totalDays = result.movements.reduce((acc, m) => acc + (m.daysTaken || 0), 0);
-    const avgDays = result.movements.length > 0 ? (totalDays / result.movements.length).toFixed(1) : "0";
+    const period = formatPeriod(result.startDate, result.endDate);
+    const spanDays = daysBetween(result.startDate, result.endDate) + 1;
+    const isMultiYear = result.startDate.slice(0, 4) !== result.endDate.slice(0, 4);
 
-    return { high: Math.max(...prices), low: Math.min(...prices), last, totalChange, upCount, downCount, avgDays };
+    return { high: Math.max(...prices), low: Math.min(...prices), last, totalChange, upCount, downCount, period, spanDays, isMultiYear };
   }, [result]);
 
   return (
@@ -161,22 +625,84 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex flex-wrap items-center gap-3">
+            <div className="flex items-center gap-2 bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl">
+              <Database size={16} className="text-slate-400" />
+              <select
+                value={priceSource}
+                onChange={(e) => setPriceSource(e.target.value as PriceSource)}
+                className="bg-transparent border-none focus:outline-none text-white font-medium text-sm"
+              >
+                {Object.values(PriceSource).map(source => (
+                  <option key={source} value={source} className="bg-slate-900">{PRICE_SOURCE_LABELS[source]}</option>
+                ))}
+              </select>
+            </div>
+            {priceSource === PriceSource.FILE && (
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-2 bg-slate-800/50 border border-slate-700/50 hover:border-slate-600 px-3 py-2 rounded-xl text-sm font-medium text-white"
+              >
+                <Upload size={16} className="text-slate-400" />
+                <span className="max-w-[140px] truncate">{importedFile ? importedFile.name : 'Import CSV / JSON'}</span>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.json,.txt,text/csv,application/json"
+                  onChange={handleFileImport}
+                  className="hidden"
+                />
+              </button>
+            )}
+            {priceSource === PriceSource.REST && (
+              <div className="flex items-center gap-2 bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl">
+                <Link size={16} className="text-slate-400" />
+                <input
+                  type="text"
+                  value={restUrl}
+                  onChange={(e) => setRestUrl(e.target.value)}
+                  placeholder="https://host/candles?symbol={ticker}&start={start}&end={end}"
+                  className="bg-transparent border-none focus:outline-none w-64 text-white font-medium text-sm"
+                />
+              </div>
+            )}
             <div className="flex items-center gap-2 bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl">
               <Coins size={16} className="text-slate-400" />
               <input 
                 type="text" 
                 value={ticker} 
                 onChange={(e) => setTicker(e.target.value)}
-                className="bg-transparent border-none focus:outline-none w-20 text-white font-black text-sm uppercase"
+                placeholder="BTC, ETH, SOL"
+                className="bg-transparent border-none focus:outline-none w-36 text-white font-black text-sm uppercase"
               />
             </div>
+            <div className="flex items-center gap-2 bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl" title="Quote currency">
+              <span className="text-slate-400 text-sm font-black w-4 text-center">{QUOTE_CURRENCIES[quoteCurrency].symbol}</span>
+              <select
+                value={quoteCurrency}
+                onChange={(e) => setQuoteCurrency(e.target.value as QuoteCurrency)}
+                className="bg-transparent border-none focus:outline-none text-white font-medium text-sm"
+              >
+                {Object.values(QuoteCurrency).map(currency => (
+                  <option key={currency} value={currency} className="bg-slate-900">{currency}</option>
+                ))}
+              </select>
+            </div>
             <div className="flex items-center gap-2 bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl">
               <Calendar size={16} className="text-slate-400" />
               <input 
-                type="number" 
-                value={year} 
-                onChange={(e) => setYear(parseInt(e.target.value))}
-                className="bg-transparent border-none focus:outline-none w-20 text-white font-medium text-sm"
+                type="date" 
+                value={startDate} 
+                max={endDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="bg-transparent border-none focus:outline-none text-white font-medium text-sm [color-scheme:dark]"
+              />
+              <span className="text-slate-500 text-xs font-bold">→</span>
+              <input 
+                type="date" 
+                value={endDate} 
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="bg-transparent border-none focus:outline-none text-white font-medium text-sm [color-scheme:dark]"
               />
             </div>
             <div className="flex items-center gap-2 bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl">
@@ -188,7 +714,70 @@ const App: React.FC = () => {
                 onChange={(e) => setPercentage(parseFloat(e.target.value))}
                 className="bg-transparent border-none focus:outline-none w-12 text-white font-medium text-sm"
               />
-              <span className="text-slate-500 text-xs font-bold uppercase tracking-tight">Threshold (Min 2%)</span>
+              <span className="text-slate-500 text-xs font-bold uppercase tracking-tight">
+                {thresholdMeasure === 'FIXED' ? 'Threshold (Min 2%)' : 'Warm-up (Min 2%)'}
+              </span>
+            </div>
+            <div className="flex items-center gap-2 bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl" title="Fixed percentage, or a multiple of trailing volatility">
+              <select
+                value={thresholdMeasure}
+                onChange={(e) => setThresholdMeasure(e.target.value as VolatilityMeasure | 'FIXED')}
+                className="bg-transparent border-none focus:outline-none text-white font-medium text-sm"
+              >
+                <option value="FIXED" className="bg-slate-900">Fixed %</option>
+                {Object.values(VolatilityMeasure).map(measure => (
+                  <option key={measure} value={measure} className="bg-slate-900">{VOLATILITY_MEASURE_LABELS[measure]} multiple</option>
+                ))}
+              </select>
+              {thresholdMeasure !== 'FIXED' && (
+                <>
+                  <input
+                    type="number"
+                    value={volatilityMultiple}
+                    min={0.5}
+                    step={0.5}
+                    onChange={(e) => setVolatilityMultiple(parseFloat(e.target.value))}
+                    title="Multiple of volatility"
+                    className="bg-transparent border-none focus:outline-none w-10 text-white font-medium text-sm"
+                  />
+                  <span className="text-slate-500 text-xs font-bold">× over</span>
+                  <input
+                    type="number"
+                    value={volatilityWindow}
+                    min={2}
+                    onChange={(e) => setVolatilityWindow(parseInt(e.target.value) || 2)}
+                    title="Volatility window in trading days"
+                    className="bg-transparent border-none focus:outline-none w-10 text-white font-medium text-sm"
+                  />
+                  <span className="text-slate-500 text-xs font-bold uppercase tracking-tight">days</span>
+                </>
+              )}
+            </div>
+            <div className="flex items-center bg-slate-800/50 border border-slate-700/50 p-1 rounded-xl">
+              {[SwingMode.THRESHOLD, SwingMode.ZIGZAG].map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setSwingMode(mode)}
+                  className={`px-3 py-1 rounded-lg text-xs font-bold uppercase tracking-tight transition-all ${
+                    swingMode === mode ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'
+                  }`}
+                >
+                  {mode === SwingMode.ZIGZAG ? 'ZigZag' : 'Threshold'}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center bg-slate-800/50 border border-slate-700/50 p-1 rounded-xl" title="Price that confirms a swing">
+              {[PriceTrigger.CLOSE, PriceTrigger.HIGH_LOW].map(trigger => (
+                <button
+                  key={trigger}
+                  onClick={() => setPriceTrigger(trigger)}
+                  className={`px-3 py-1 rounded-lg text-xs font-bold uppercase tracking-tight transition-all ${
+                    priceTrigger === trigger ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'
+                  }`}
+                >
+                  {trigger === PriceTrigger.HIGH_LOW ? 'High/Low' : 'Close'}
+                </button>
+              ))}
             </div>
             <button 
               onClick={performAnalysis}
@@ -197,28 +786,105 @@ const App: React.FC = () => {
             >
               {loading ? <Loader2 className="animate-spin" size={18} /> : <><Search size={18} /> Analyze</>}
             </button>
-            {result && (
-              <button 
-                onClick={downloadPDF}
-                disabled={loading}
-                className="bg-slate-800 hover:bg-slate-700 text-white px-5 py-2 rounded-xl font-bold transition-all border border-slate-700 flex items-center gap-2"
-              >
-                <Download size={18} /> PDF
-              </button>
+            {(result || comparison) && (
+              <div className="flex items-center bg-slate-800 border border-slate-700 rounded-xl">
+                <select
+                  value={pdfOptions.paper}
+                  onChange={(e) => setPdfOptions(prev => ({ ...prev, paper: e.target.value as PdfPaper }))}
+                  title="Paper size"
+                  className="bg-transparent border-none focus:outline-none text-slate-300 font-bold text-xs pl-3"
+                >
+                  {(Object.keys(PDF_PAPER_LABELS) as PdfPaper[]).map(paper => (
+                    <option key={paper} value={paper} className="bg-slate-900">{PDF_PAPER_LABELS[paper]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setPdfOptions(prev => ({ ...prev, orientation: prev.orientation === 'portrait' ? 'landscape' : 'portrait' }))}
+                  title="Page orientation"
+                  className="px-2 text-slate-300 hover:text-white text-xs font-bold uppercase"
+                >
+                  {pdfOptions.orientation === 'portrait' ? 'Portrait' : 'Landscape'}
+                </button>
+                <button 
+                  onClick={downloadPDF}
+                  disabled={loading || exportingPdf}
+                  className="hover:bg-slate-700 disabled:opacity-50 text-white px-4 py-2 rounded-r-xl font-bold transition-all border-l border-slate-700 flex items-center gap-2"
+                >
+                  {exportingPdf ? <Loader2 className="animate-spin" size={18} /> : <Download size={18} />} PDF
+                </button>
+              </div>
             )}
+            <DataQualitySettings options={dataQualityOptions} onChange={setDataQualityOptions} />
+            <button
+              onClick={() => analysisInputRef.current?.click()}
+              title="Import analysis JSON"
+              className="bg-slate-800 hover:bg-slate-700 text-slate-300 p-2.5 rounded-xl transition-all border border-slate-700"
+            >
+              <FileUp size={18} />
+              <input ref={analysisInputRef} type="file" accept=".json,application/json" onChange={handleAnalysisImport} className="hidden" />
+            </button>
+            <button
+              onClick={() => setShowWatch(true)}
+              title="Watch mode"
+              className="bg-slate-800 hover:bg-slate-700 text-slate-300 p-2.5 rounded-xl transition-all border border-slate-700"
+            >
+              <Eye size={18} />
+            </button>
+            <button
+              onClick={() => setShowLibrary(true)}
+              title="Saved analyses"
+              className="bg-slate-800 hover:bg-slate-700 text-slate-300 p-2.5 rounded-xl transition-all border border-slate-700"
+            >
+              <BookMarked size={18} />
+            </button>
+            <button
+              onClick={() => setShowLlmSettings(true)}
+              title="Language model settings"
+              className="bg-slate-800 hover:bg-slate-700 text-slate-300 p-2.5 rounded-xl transition-all border border-slate-700"
+            >
+              <BrainCircuit size={18} />
+            </button>
+            <button
+              onClick={() => setShowCache(true)}
+              title="Manage local cache"
+              className="bg-slate-800 hover:bg-slate-700 text-slate-300 p-2.5 rounded-xl transition-all border border-slate-700"
+            >
+              <HardDrive size={18} />
+            </button>
           </div>
         </div>
       </header>
 
-      <main className="max-w-7xl mx-auto px-4 mt-8" ref={reportRef}>
-        {!result && !loading && !error && (
+      {showCache && <CachePanel onClose={() => setShowCache(false)} />}
+      {showLlmSettings && (
+        <LlmSettingsPanel
+          settings={llmSettings}
+          onChange={setLlmSettings}
+          fixtures={llmFixtures}
+          onFixturesChange={setLlmFixtures}
+          recording={recordingLlm}
+          onRecordingChange={setRecordingLlm}
+          onClose={() => setShowLlmSettings(false)}
+        />
+      )}
+      <WatchPanel open={showWatch} onClose={() => setShowWatch(false)} historyUrl={restUrl} />
+      {showLibrary && (
+        <LibrarySidebar
+          currentResult={result}
+          onLoad={loadSavedAnalysis}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+
+      <main className="max-w-7xl mx-auto px-4 mt-8">
+        {!result && !comparison && !loading && !error && !confirmRestUrl && (
           <div className="max-w-2xl mx-auto text-center py-32 no-print">
             <div className="inline-flex p-4 bg-slate-900 border border-slate-800 rounded-3xl mb-6 shadow-2xl">
               <BarChart3 size={48} className="text-indigo-500" />
             </div>
             <h2 className="text-3xl font-bold text-white mb-4">Analyze Asset Price Swings</h2>
             <p className="text-slate-400 text-lg leading-relaxed">
-              Enter any ticker (BTC, ETH, SOL...) and year to see how many times the price swung by your target threshold.
+              Enter any ticker (BTC, ETH, SOL...) and date range to see how many times the price swung by your target threshold. List several tickers to compare them side by side.
             </p>
           </div>
         )}
@@ -230,6 +896,29 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {confirmRestUrl && !loading && (
+          <div className="max-w-xl mx-auto bg-amber-500/5 border border-amber-500/20 p-8 rounded-3xl text-center no-print">
+            <ShieldAlert className="text-amber-400 mx-auto mb-4" size={48} />
+            <h3 className="text-xl font-bold text-white mb-2">Load Prices From This Endpoint?</h3>
+            <p className="text-amber-100/70">This link fetches prices from an endpoint you haven't used here before. Only run it if you trust this address.</p>
+            <p className="mt-4 px-3 py-2 bg-slate-900 border border-slate-800 rounded-xl text-xs font-mono text-slate-300 break-all">{confirmRestUrl}</p>
+            <div className="flex justify-center gap-3 mt-6">
+              <button
+                onClick={dismissSharedRestUrl}
+                className="px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 border border-slate-700 text-sm font-bold text-slate-300"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={allowSharedRestUrl}
+                className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-sm font-bold text-white"
+              >
+                Run Analysis
+              </button>
+            </div>
+          </div>
+        )}
+
         {error && (
           <div className="max-w-xl mx-auto bg-red-500/5 border border-red-500/20 p-8 rounded-3xl text-center no-print">
             <Info className="text-red-500 mx-auto mb-4" size={48} />
@@ -243,17 +932,61 @@ const App: React.FC = () => {
             <div className="flex items-end justify-between border-b border-slate-800 pb-6">
               <div>
                 <h1 className="text-4xl font-black text-white">{result.ticker} Swing Report</h1>
-                <p className="text-slate-500 font-bold uppercase tracking-widest mt-1">Fiscal Analysis: {result.year}</p>
+                <p className="text-slate-500 font-bold uppercase tracking-widest mt-1">{summary.isMultiYear ? 'Cycle Analysis' : 'Fiscal Analysis'}: {summary.period} ({summary.spanDays} days) • {result.mode === SwingMode.ZIGZAG ? 'ZigZag Pivots' : 'Threshold Crossings'}
+                  {result.trigger === PriceTrigger.HIGH_LOW && ' • Intraday High/Low'}
+                </p>
+                <p className="text-slate-600 text-xs font-bold mt-1">Source: {result.source} • Quoted in {result.currency ?? QuoteCurrency.USD}</p>
+                <div className="flex items-center gap-2 mt-3 no-print">
+                  {([
+                    ['json', 'JSON', FileBraces],
+                    ['swings', 'Swings CSV', FileSpreadsheet],
+                    ['prices', 'Prices CSV', FileSpreadsheet]
+                  ] as const).map(([kind, label, Icon]) => (
+                    <button
+                      key={kind}
+                      onClick={() => exportResult(kind)}
+                      className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-slate-800/70 border border-slate-700/50 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white"
+                    >
+                      <Icon size={12} /> {label}
+                    </button>
+                  ))}
+                  <button
+                    onClick={copyShareLink}
+                    title="Copy a link that reopens this analysis, selected swing and zoom"
+                    className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-slate-800/70 border border-slate-700/50 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white"
+                  >
+                    <Share2 size={12} /> {linkCopied ? 'Copied' : 'Copy link'}
+                  </button>
+                </div>
+                {manualLink && (
+                  <div className="flex items-center gap-2 mt-2 max-w-xl no-print">
+                    <p className="text-[10px] font-bold text-amber-400 shrink-0">Clipboard unavailable. Copy the link:</p>
+                    <input
+                      readOnly
+                      autoFocus
+                      value={manualLink}
+                      onFocus={(e) => e.target.select()}
+                      className="flex-1 min-w-0 bg-slate-800/70 border border-slate-700/50 rounded-lg px-2 py-1 text-[10px] text-slate-300 focus:outline-none"
+                    />
+                    <button onClick={() => setManualLink(null)} className="p-1 rounded-lg text-slate-400 hover:text-white" title="Close">
+                      <X size={12} />
+                    </button>
+                  </div>
+                )}
               </div>
               <div className="flex items-center gap-4">
                 <div className="text-right">
                   <p className="text-slate-500 text-[10px] font-black uppercase tracking-tighter">Threshold</p>
-                  <p className="text-2xl font-black text-indigo-400">{result.targetPercentage}%</p>
+                  <p className="text-2xl font-black text-indigo-400">{describeThreshold(result.targetPercentage, result.adaptive)}</p>
                 </div>
+                {result.quality && <DataQualityBadge quality={result.quality} />}
                 {activeResearchCount > 0 && (
                   <div className="flex items-center gap-2 bg-yellow-500/10 border border-yellow-500/20 px-3 py-1 rounded-full">
                     <Zap size={14} className="text-yellow-500 animate-pulse" />
                     <span className="text-[10px] font-black text-yellow-500 uppercase">Researching {activeResearchCount}...</span>
+                    <button onClick={cancelResearch} title="Cancel research" className="text-yellow-500 hover:text-white no-print">
+                      <X size={12} />
+                    </button>
                   </div>
                 )}
               </div>
@@ -262,11 +995,11 @@ const App: React.FC = () => {
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               <div className="bg-slate-900/50 border border-slate-800 p-4 rounded-2xl">
                 <p className="text-slate-500 text-[10px] font-bold uppercase tracking-widest mb-1">Period High</p>
-                <p className="text-xl font-bold text-white">${summary.high.toLocaleString()}</p>
+                <p className="text-xl font-bold text-white">{formatPrice(summary.high, result.currency)}</p>
               </div>
               <div className="bg-slate-900/50 border border-slate-800 p-4 rounded-2xl">
                 <p className="text-slate-500 text-[10px] font-bold uppercase tracking-widest mb-1">Period Low</p>
-                <p className="text-xl font-bold text-white">${summary.low.toLocaleString()}</p>
+                <p className="text-xl font-bold text-white">{formatPrice(summary.low, result.currency)}</p>
               </div>
               <div className="bg-emerald-500/5 border border-emerald-500/20 p-4 rounded-2xl">
                 <p className="text-emerald-500 text-[10px] font-bold uppercase tracking-widest mb-1">Up Swings</p>
@@ -282,88 +1015,330 @@ const App: React.FC = () => {
               <div className="flex flex-col md:flex-row md:items-center justify-between mb-8 gap-4">
                 <div>
                   <h2 className="text-2xl font-bold text-white">{result.ticker} Visual Map</h2>
-                  <p className="text-slate-500 text-sm mt-1">Dots indicate where threshold was confirmed.</p>
+                  <p className="text-slate-500 text-sm mt-1">
+                    {result.mode === SwingMode.ZIGZAG
+                      ? 'Lines connect the peaks and troughs between swings.'
+                      : 'Dots indicate where threshold was confirmed.'}
+                  </p>
                 </div>
-                <div className="flex items-center gap-6 px-4 py-2 bg-slate-800/50 rounded-2xl border border-slate-700/50">
-                  <div className="flex items-center gap-2">
-                    <div className="w-3 h-3 bg-emerald-500 rounded-full"></div>
-                    <span className="text-xs font-bold text-slate-300">UP</span>
+                <div className="flex items-center gap-3">
+                  {chartRange && (
+                    <button
+                      onClick={() => setChartRange(null)}
+                      className="px-3 py-1.5 rounded-xl text-xs font-bold uppercase tracking-tight text-slate-400 hover:text-white bg-slate-800/50 border border-slate-700/50 no-print"
+                    >
+                      Reset zoom
+                    </button>
+                  )}
+                  <div className="flex items-center bg-slate-800/50 border border-slate-700/50 p-1 rounded-xl no-print" title="Price axis scale">
+                    {(['LINEAR', 'LOG'] as PriceScale[]).map(scale => (
+                      <button
+                        key={scale}
+                        onClick={() => setPriceScale(scale)}
+                        className={`px-3 py-1 rounded-lg text-xs font-bold uppercase tracking-tight transition-all ${
+                          priceScale === scale ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'
+                        }`}
+                      >
+                        {scale === 'LOG' ? 'Log' : 'Linear'}
+                      </button>
+                    ))}
                   </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-3 h-3 bg-rose-500 rounded-full"></div>
-                    <span className="text-xs font-bold text-slate-300">DOWN</span>
+                  {hasOHLC(result.data) && (
+                    <div className="flex items-center bg-slate-800/50 border border-slate-700/50 p-1 rounded-xl no-print">
+                      {(['AREA', 'CANDLES'] as ChartView[]).map(view => (
+                        <button
+                          key={view}
+                          onClick={() => setChartView(view)}
+                          className={`px-3 py-1 rounded-lg text-xs font-bold uppercase tracking-tight transition-all ${
+                            chartView === view ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'
+                          }`}
+                        >
+                          {view === 'CANDLES' ? 'Candles' : 'Area'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex items-center gap-6 px-4 py-2 bg-slate-800/50 rounded-2xl border border-slate-700/50">
+                    <div className="flex items-center gap-2">
+                      <div className="w-3 h-3 bg-emerald-500 rounded-full"></div>
+                      <span className="text-xs font-bold text-slate-300">UP</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <div className="w-3 h-3 bg-rose-500 rounded-full"></div>
+                      <span className="text-xs font-bold text-slate-300">DOWN</span>
+                    </div>
                   </div>
                 </div>
               </div>
-              <div className="h-[400px]">
-                <PriceChart data={result.data} movements={result.movements} />
+              <div className="flex flex-wrap items-center gap-2 mb-4 no-print">
+                <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest mr-1">Indicators</span>
+                {(Object.keys(INDICATOR_OVERLAYS) as IndicatorOverlay[]).map(overlay => (
+                  <button
+                    key={overlay}
+                    onClick={() => setIndicatorOverlays(prev => toggleIn(prev, overlay))}
+                    className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all ${
+                      indicatorOverlays.includes(overlay) ? 'bg-slate-800 text-white' : 'border-slate-800 text-slate-500 hover:text-white'
+                    }`}
+                    style={indicatorOverlays.includes(overlay) ? { borderColor: INDICATOR_OVERLAYS[overlay].color } : undefined}
+                  >
+                    {INDICATOR_OVERLAYS[overlay].label}
+                  </button>
+                ))}
+                <span className="w-px h-4 bg-slate-800 mx-1"></span>
+                {(Object.keys(INDICATOR_PANELS) as IndicatorPanel[]).map(panel => (
+                  <button
+                    key={panel}
+                    onClick={() => setIndicatorPanels(prev => toggleIn(prev, panel))}
+                    className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all ${
+                      indicatorPanels.includes(panel) ? 'bg-slate-800 text-white' : 'border-slate-800 text-slate-500 hover:text-white'
+                    }`}
+                    style={indicatorPanels.includes(panel) ? { borderColor: INDICATOR_PANELS[panel].color } : undefined}
+                  >
+                    {INDICATOR_PANELS[panel].label}
+                  </button>
+                ))}
+                <span className="w-px h-4 bg-slate-800 mx-1"></span>
+                <button
+                  onClick={() => setShowEnvelope(prev => !prev)}
+                  title="Price levels that would trigger the next swing"
+                  className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all ${
+                    showEnvelope ? 'bg-slate-800 text-white border-indigo-400' : 'border-slate-800 text-slate-500 hover:text-white'
+                  }`}
+                >
+                  Threshold envelope
+                </button>
+              </div>
+              <div style={{ height: 440 + indicatorPanels.length * 80 }} ref={chartRef}>
+                <PriceChart
+                  data={result.data}
+                  movements={result.movements}
+                  mode={result.mode}
+                  view={chartView}
+                  scale={priceScale}
+                  currency={result.currency}
+                  equity={showEquity && backtest ? backtest.equityCurve : undefined}
+                  events={researchEvents}
+                  indicators={indicatorSeries}
+                  overlays={indicatorOverlays}
+                  panels={indicatorPanels}
+                  thresholdPercent={result.targetPercentage}
+                  thresholds={showEnvelope ? thresholds : undefined}
+                  range={chartRange}
+                  onRangeChange={setChartRange}
+                  activeSwing={activeSwing ?? selectedSwing}
+                  onSwingHover={setActiveSwing}
+                  onSwingSelect={revealSwingCard}
+                />
               </div>
             </div>
 
+            <StatisticsPanel result={result} />
+
+            <PatternPanel result={result} />
+
+            {backtest && (
+              <BacktestPanel
+                backtest={backtest}
+                options={backtestOptions}
+                onOptionsChange={setBacktestOptions}
+                showEquity={showEquity}
+                onShowEquityChange={setShowEquity}
+                currency={result.currency}
+              />
+            )}
+
+            <ThresholdSweep result={result} onApplyThreshold={setPercentage} />
+
             <div className="space-y-6">
-              <h2 className="text-2xl font-bold text-white px-2">Detailed Swing Timeline</h2>
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {result.movements.map((move, idx) => (
-                  <div 
-                    key={idx} 
-                    className={`group relative overflow-hidden p-6 rounded-3xl border transition-all duration-300 hover:scale-[1.02] flex flex-col min-h-[260px] ${
-                      move.type === MovementType.UP 
-                      ? 'bg-emerald-500/5 border-emerald-500/20 hover:border-emerald-500/40' 
-                      : 'bg-rose-500/5 border-rose-500/20 hover:border-rose-500/40'
-                    }`}
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 px-2">
+                <div>
+                  <h2 className="text-2xl font-bold text-white">Detailed Swing Timeline</h2>
+                  {swingRegime !== 'ALL' && (
+                    <p className="text-slate-500 text-sm mt-1">
+                      Showing {result.movements.filter(m => matchesRegime(m, swingRegime)).length} of {result.movements.length} swings • {SWING_REGIMES[swingRegime].label} at start
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 no-print">
+                  <select
+                    value={swingRegime}
+                    onChange={(e) => setSwingRegime(e.target.value as SwingRegime)}
+                    title="Show swings by the regime they started in"
+                    className="bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl focus:outline-none text-white font-medium text-sm"
                   >
-                    <div className="flex justify-between items-center mb-6">
-                      <div className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${
-                        move.type === MovementType.UP ? 'bg-emerald-500 text-white' : 'bg-rose-500 text-white'
-                      }`}>
-                        {move.type} {Math.abs(move.percentageChange).toFixed(1)}%
-                      </div>
-                      <div className="flex items-center gap-1 text-slate-500 font-bold text-xs">
-                        <Calendar size={12} />
-                        {move.daysTaken} {move.daysTaken === 1 ? 'DAY' : 'DAYS'}
+                    {(Object.keys(SWING_REGIMES) as SwingRegime[]).map(regime => (
+                      <option key={regime} value={regime} className="bg-slate-900">{SWING_REGIMES[regime].label}</option>
+                    ))}
+                  </select>
+                  <div className="flex items-center gap-3 bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl">
+                    <label className="flex items-center gap-1 text-[10px] text-slate-500 font-bold uppercase">
+                      Auto-research
+                      <input
+                        type="number"
+                        min={0}
+                        value={autoResearchLimit}
+                        onChange={(e) => setAutoResearchLimit(Math.max(0, parseInt(e.target.value) || 0))}
+                        className="bg-transparent border-none focus:outline-none w-10 text-white font-medium text-sm"
+                      />
+                    </label>
+                    <label className="flex items-center gap-1 text-[10px] text-slate-500 font-bold uppercase">
+                      Parallel
+                      <input
+                        type="number"
+                        min={1}
+                        max={8}
+                        value={researchConcurrency}
+                        onChange={(e) => setResearchConcurrency(Math.min(8, Math.max(1, parseInt(e.target.value) || 1)))}
+                        className="bg-transparent border-none focus:outline-none w-8 text-white font-medium text-sm"
+                      />
+                    </label>
+                  </div>
+                  {unresearchedMoves.length > 0 && (
+                    <button
+                      onClick={() => researchMovements(result.ticker, unresearchedMoves, result.currency)}
+                      className="bg-slate-800 hover:bg-slate-700 text-white px-4 py-2 rounded-xl font-bold text-sm border border-slate-700 flex items-center gap-2"
+                    >
+                      <Zap size={14} className="text-yellow-500" /> Research {unresearchedMoves.length} more
+                    </button>
+                  )}
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {result.movements.map((move, idx) => {
+                  if (!matchesRegime(move, swingRegime)) return null;
+                  const research = researchState[movementKey(move)];
+                  return (
+                    <div 
+                      key={idx} 
+                      id={`swing-card-${idx}`}
+                      onClick={(e) => {
+                        if (!(e.target as HTMLElement).closest('button, a')) focusSwing(idx);
+                      }}
+                      onMouseEnter={() => setActiveSwing(idx)}
+                      onMouseLeave={() => setActiveSwing(prev => prev === idx ? null : prev)}
+                      className={`group relative overflow-hidden p-6 rounded-3xl border transition-all duration-300 hover:scale-[1.02] flex flex-col min-h-[260px] cursor-pointer ${
+                        move.type === MovementType.UP 
+                        ? 'bg-emerald-500/5 border-emerald-500/20 hover:border-emerald-500/40' 
+                        : 'bg-rose-500/5 border-rose-500/20 hover:border-rose-500/40'
+                      } ${activeSwing === idx || selectedSwing === idx ? 'ring-2 ring-indigo-400/70' : ''}`}
+                    >
+                      <div className="flex justify-between items-center mb-6">
+                        <div className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${
+                          move.type === MovementType.UP ? 'bg-emerald-500 text-white' : 'bg-rose-500 text-white'
+                        }`}>
+                          {move.type} {Math.abs(move.percentageChange).toFixed(1)}%
+                        </div>
+                        <div className="flex items-center gap-1 text-slate-500 font-bold text-xs">
+                          {result.adaptive && move.thresholdPercent !== undefined && (
+                            <span className="mr-2" title="Threshold in effect when the swing confirmed">
+                              of {move.thresholdPercent.toFixed(1)}%
+                            </span>
+                          )}
+                          <Calendar size={12} />
+                          {move.daysTaken} {move.daysTaken === 1 ? 'DAY' : 'DAYS'}
+                        </div>
                       </div>
-                    </div>
                     
-                    <div className="flex items-center justify-between relative z-10 mb-6">
-                      <div>
-                        <p className="text-[10px] text-slate-500 font-black uppercase mb-1">Start Point</p>
-                        <p className="text-xs font-bold text-slate-400 mb-0.5">{move.startDate}</p>
-                        <p className="text-lg font-black text-white">${move.startPrice.toLocaleString()}</p>
-                      </div>
-                      <ArrowRight className="text-slate-400" size={16} />
-                      <div className="text-right">
-                        <p className="text-[10px] text-slate-500 font-black uppercase mb-1">End Point</p>
-                        <p className="text-xs font-bold text-slate-400 mb-0.5">{move.endDate}</p>
-                        <p className="text-lg font-black text-white">${move.endPrice.toLocaleString()}</p>
+                      <div className="flex items-center justify-between relative z-10 mb-6">
+                        <div>
+                          <p className="text-[10px] text-slate-500 font-black uppercase mb-1">Start Point</p>
+                          <p className="text-xs font-bold text-slate-400 mb-0.5">{move.startDate}</p>
+                          <p className="text-lg font-black text-white">{formatPrice(move.startPrice, result.currency)}</p>
+                        </div>
+                        <ArrowRight className="text-slate-400" size={16} />
+                        <div className="text-right">
+                          <p className="text-[10px] text-slate-500 font-black uppercase mb-1">End Point</p>
+                          <p className="text-xs font-bold text-slate-400 mb-0.5">{move.endDate}</p>
+                          <p className="text-lg font-black text-white">{formatPrice(move.endPrice, result.currency)}</p>
+                        </div>
                       </div>
-                    </div>
 
-                    <div className="mt-auto pt-4 border-t border-slate-800/50">
-                      {move.context ? (
-                        <div className="flex items-start gap-2 animate-in fade-in slide-in-from-bottom-2 duration-700">
-                          <Zap size={12} className="text-yellow-500 mt-1 shrink-0" />
-                          <p className="text-[11px] leading-relaxed text-slate-400 font-medium italic">
-                            {move.context}
-                          </p>
-                        </div>
-                      ) : (
-                        <div className="flex items-center gap-3 animate-pulse">
-                          <div className="w-4 h-4 bg-slate-800 rounded-full"></div>
-                          <div className="space-y-2 flex-1">
-                            <div className="h-2 bg-slate-800 rounded w-full"></div>
-                            <div className="h-2 bg-slate-800 rounded w-2/3"></div>
-                          </div>
+                      {result.mode === SwingMode.ZIGZAG && (
+                        <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest -mt-3 mb-4">
+                          {move.confirmationDate ? `Pivot confirmed ${move.confirmationDate}` : 'Leg still open'}
+                        </p>
+                      )}
+
+                      {move.indicators && (
+                        <div className="mb-4">
+                          <IndicatorChips start={move.indicators.start} end={move.indicators.end} />
                         </div>
                       )}
+
+                      <div className="mt-auto pt-4 border-t border-slate-800/50">
+                        {move.research ? (
+                          <ResearchDetails research={move.research} />
+                        ) : move.context ? (
+                          <div className="flex items-start gap-2 animate-in fade-in slide-in-from-bottom-2 duration-700">
+                            <Zap size={12} className="text-yellow-500 mt-1 shrink-0" />
+                            <p className="text-[11px] leading-relaxed text-slate-400 font-medium italic">
+                              {move.context}
+                            </p>
+                          </div>
+                        ) : research?.status === 'error' ? (
+                          <div className="flex items-start gap-2">
+                            <Info size={12} className="text-rose-400 mt-1 shrink-0" />
+                            <p className="text-[11px] leading-relaxed text-rose-300/80 font-medium flex-1">{research.error}</p>
+                            <button
+                              onClick={() => researchMovements(result.ticker, [move], result.currency)}
+                              title="Retry research"
+                              className="text-rose-300 hover:text-white no-print"
+                            >
+                              <RotateCcw size={12} />
+                            </button>
+                          </div>
+                        ) : research ? (
+                          <div className="flex items-center gap-3 animate-pulse" title={research.status === 'queued' ? 'Queued' : 'Researching'}>
+                            <div className="w-4 h-4 bg-slate-800 rounded-full"></div>
+                            <div className="space-y-2 flex-1">
+                              <div className="h-2 bg-slate-800 rounded w-full"></div>
+                              <div className="h-2 bg-slate-800 rounded w-2/3"></div>
+                            </div>
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() => researchMovements(result.ticker, [move], result.currency)}
+                            className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-yellow-400 no-print"
+                          >
+                            <Zap size={12} /> Research this swing
+                          </button>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
 
             <div className="pt-8 border-t border-slate-800 text-center pb-8">
               <p className="text-[10px] text-slate-600 uppercase tracking-[0.2em] font-bold">
-                Generated by Crypto Swing Tracker Engine • Summaries limited to 50 words
+                Generated by Crypto Swing Tracker Engine • Summaries limited to {llmSettings.wordLimit} words
+              </p>
+            </div>
+          </div>
+        )}
+
+        {comparison && (
+          <div className="space-y-8 animate-in fade-in zoom-in-95 duration-500 p-4">
+            <div className="flex items-end justify-between border-b border-slate-800 pb-6">
+              <div>
+                <h1 className="text-4xl font-black text-white">{comparison.assets.map(a => a.ticker).join(' vs ')}</h1>
+                <p className="text-slate-500 font-bold uppercase tracking-widest mt-1">
+                  Comparative Analysis: {formatPeriod(comparison.startDate, comparison.endDate)} • {comparison.mode === SwingMode.ZIGZAG ? 'ZigZag Pivots' : 'Threshold Crossings'}
+                </p>
+                <p className="text-slate-600 text-xs font-bold mt-1">Source: {comparison.source}</p>
+              </div>
+              <div className="text-right">
+                <p className="text-slate-500 text-[10px] font-black uppercase tracking-tighter">Threshold</p>
+                <p className="text-2xl font-black text-indigo-400">{describeThreshold(comparison.targetPercentage, comparison.adaptive)}</p>
+              </div>
+            </div>
+
+            <ComparisonReport comparison={comparison} chartRef={chartRef} />
+
+            <div className="pt-8 border-t border-slate-800 text-center pb-8">
+              <p className="text-[10px] text-slate-600 uppercase tracking-[0.2em] font-bold">
+                Generated by Crypto Swing Tracker Engine
               </p>
             </div>
           </div>
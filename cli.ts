@@ -0,0 +1,348 @@
+
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { AdaptiveThreshold, AnalysisResult, CoveragePolicy, LlmProviderKind, LlmSettings, LlmTask, MovementResearch, PricePoint, PriceProvider, PriceSource, PriceSourceConfig, PriceTrigger, QuoteCurrency, SwingMode, VolatilityMeasure } from './types';
+import { createPriceProvider, geminiPriceProvider } from './services/priceProviders';
+import { runAnalysis } from './services/analysisRunner';
+import { movementKey } from './services/analysisEngine';
+import { DEFAULT_DATA_QUALITY_OPTIONS } from './services/dataQuality';
+import { fetchQuoteRates, QUOTE_CURRENCIES } from './services/currency';
+import { isIsoDate, isValidRange, periodSlug, todayIso } from './services/dateRange';
+import { exportAnalysisJson, movementsToCsv } from './services/analysisExport';
+import { analysisToMarkdown } from './services/markdownReport';
+import { fetchSingleMovementContext } from './services/geminiService';
+import { createResearchQueue } from './services/researchQueue';
+import { configureLlm, createLlmProvider, exportLlmFixtures, importLlmFixtures, withRecording, DEFAULT_LLM_MODELS, DEFAULT_LLM_SETTINGS, LlmFixture } from './services/llm';
+
+type OutputFormat = 'json' | 'csv' | 'md';
+
+const FORMAT_EXTENSIONS: Record<OutputFormat, string> = { json: 'analysis.json', csv: 'swings.csv', md: 'report.md' };
+
+// Exit codes: bad arguments are distinguished from runs that failed on their data
+const EXIT_DATA_ERROR = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: swing-tracker analyze [options]
+
+Options:
+  -t, --ticker <symbol>      Ticker to analyse; repeat or comma-separate for a batch
+      --from <date>          Start date, YYYY-MM-DD (default: January 1st of this year)
+      --to <date>            End date, YYYY-MM-DD (default: today)
+      --threshold <pct>      Swing threshold in percent, at least 2; repeat or comma-separate (default: 5)
+      --mode <mode>          threshold | zigzag (default: threshold)
+      --trigger <trigger>    close | high-low (default: close)
+      --adaptive <measure>   atr | stdev; scales the threshold with volatility
+      --window <n>           Volatility window in points (default: 14)
+      --multiple <x>         Volatility multiple (default: 3)
+  -i, --input <file>         CSV or JSON price file for a single ticker
+      --rest-url <template>  REST endpoint with {ticker}, {start} and {end} placeholders
+      --currency <code>      USD | EUR | BTC (default: USD)
+      --min-coverage <pct>   Minimum share of days with a valid price (default: ${DEFAULT_DATA_QUALITY_OPTIONS.minCoveragePct})
+      --strict               Fail runs below the minimum coverage instead of warning
+  -f, --format <format>      json | csv | md (default: json)
+  -o, --out-dir <dir>        Write one file per run instead of printing to stdout
+      --research             Research each swing with the language model
+      --research-limit <n>   Research at most n swings per run
+      --llm <provider>       gemini | openai | mock (default: gemini)
+      --llm-url <url>        Base URL of an OpenAI-compatible server (default: ${DEFAULT_LLM_SETTINGS.baseUrl})
+      --model [task=]<name>  Model for every task, or for history, quote or research; repeatable
+      --temperature <t>      Sampling temperature (default: ${DEFAULT_LLM_SETTINGS.temperature})
+      --word-limit <n>       Research summary word limit (default: ${DEFAULT_LLM_SETTINGS.wordLimit})
+      --fixtures <file>      Recorded responses for --llm mock
+      --record <file>        Save every model response to a fixture file for later replay
+  -h, --help                 Show this help
+
+Prices come from the language model unless --input or --rest-url is given.
+Gemini needs GEMINI_API_KEY in the environment; an OpenAI-compatible server reads
+OPENAI_API_KEY when it needs one. The mock runs offline from --fixtures.`;
+
+class UsageError extends Error {}
+
+const list = (values: string[] | undefined) =>
+  (values ?? []).flatMap(value => value.split(/[\s,;]+/)).map(value => value.trim()).filter(Boolean);
+
+const numberOption = (name: string, value: string | undefined, fallback: number) => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new UsageError(`--${name} must be a number, got "${value}".`);
+  return parsed;
+};
+
+const choice = <T extends string>(name: string, value: string | undefined, options: Record<string, T>, fallback: T): T => {
+  if (value === undefined) return fallback;
+  const match = options[value.toLowerCase()];
+  if (!match) throw new UsageError(`--${name} must be one of ${Object.keys(options).join(', ')}, got "${value}".`);
+  return match;
+};
+
+// Batches reuse one download per ticker across thresholds
+const memoizeProvider = (provider: PriceProvider): PriceProvider => {
+  const fetched = new Map<string, Promise<PricePoint[]>>();
+  return {
+    ...provider,
+    fetchHistory: (ticker, startDate, endDate) => {
+      const key = `${ticker}|${startDate}|${endDate}`;
+      if (!fetched.has(key)) fetched.set(key, provider.fetchHistory(ticker, startDate, endDate));
+      return fetched.get(key)!;
+    }
+  };
+};
+
+const LLM_TASKS: Record<string, LlmTask> = { history: LlmTask.HISTORY, quote: LlmTask.QUOTE, research: LlmTask.RESEARCH };
+
+// "--model llama3.1" sets every task; "--model research=qwen2.5:14b" sets one
+const modelOptions = (provider: LlmProviderKind, values: string[] | undefined): Record<LlmTask, string> => {
+  const models = { ...DEFAULT_LLM_MODELS[provider] };
+  (values ?? []).forEach(value => {
+    const split = value.indexOf('=');
+    if (split < 0) {
+      Object.values(LlmTask).forEach(task => { models[task] = value.trim(); });
+    } else {
+      models[choice('model', value.slice(0, split), LLM_TASKS, LlmTask.RESEARCH)] = value.slice(split + 1).trim();
+    }
+  });
+  return models;
+};
+
+const research = async (result: AnalysisResult, limit: number, concurrency: number): Promise<AnalysisResult> => {
+  const queue = createResearchQueue({ concurrency });
+  const signal = new AbortController().signal;
+  const moves = result.movements.slice(0, limit);
+  const findings = await Promise.all(moves.map(move =>
+    queue.run<MovementResearch>(taskSignal => fetchSingleMovementContext(result.ticker, move, taskSignal, result.currency), signal)
+      .then(found => {
+        console.error(`  researched ${result.ticker} ${move.type} ${move.startDate} → ${move.endDate}`);
+        return [movementKey(move), found] as const;
+      })
+      .catch(err => {
+        console.error(`  research failed for ${result.ticker} ${move.startDate} → ${move.endDate}: ${err?.message ?? err}`);
+        return null;
+      })
+  ));
+  const byKey = new Map<string, MovementResearch>(findings.filter(f => f !== null));
+  return {
+    ...result,
+    movements: result.movements.map(move => {
+      const found = byKey.get(movementKey(move));
+      return found ? { ...move, context: found.summary, research: found } : move;
+    })
+  };
+};
+
+const render = (results: AnalysisResult[], format: OutputFormat): string => {
+  if (format === 'json') {
+    const files = results.map(result => JSON.parse(exportAnalysisJson(result)));
+    return JSON.stringify(files.length === 1 ? files[0] : files, null, 2) + '\n';
+  }
+  if (format === 'csv') {
+    // One header for the whole batch; the byte order mark only helps spreadsheets opening a file
+    return results.map((result, i) => {
+      const csv = movementsToCsv(result).replace(/^\uFEFF/, '');
+      return i === 0 ? csv : csv.slice(csv.indexOf('\r\n') + 2);
+    }).join('');
+  }
+  return results.map(analysisToMarkdown).join('\n');
+};
+
+const analyze = async (args: string[]): Promise<number> => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      ticker: { type: 'string', short: 't', multiple: true },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      threshold: { type: 'string', multiple: true },
+      mode: { type: 'string' },
+      trigger: { type: 'string' },
+      adaptive: { type: 'string' },
+      window: { type: 'string' },
+      multiple: { type: 'string' },
+      input: { type: 'string', short: 'i' },
+      'rest-url': { type: 'string' },
+      currency: { type: 'string' },
+      'min-coverage': { type: 'string' },
+      strict: { type: 'boolean' },
+      format: { type: 'string', short: 'f' },
+      'out-dir': { type: 'string', short: 'o' },
+      research: { type: 'boolean' },
+      'research-limit': { type: 'string' },
+      llm: { type: 'string' },
+      'llm-url': { type: 'string' },
+      model: { type: 'string', multiple: true },
+      temperature: { type: 'string' },
+      'word-limit': { type: 'string' },
+      fixtures: { type: 'string' },
+      record: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const tickers = Array.from(new Set(list(values.ticker).map(t => t.toUpperCase())));
+  if (tickers.length === 0) throw new UsageError("Pass at least one --ticker.");
+  const startDate = values.from ?? `${new Date().getFullYear()}-01-01`;
+  const endDate = values.to ?? todayIso();
+  if (!isIsoDate(startDate) || !isIsoDate(endDate)) throw new UsageError("Dates must be YYYY-MM-DD.");
+  if (!isValidRange(startDate, endDate)) throw new UsageError("--from must be on or before --to.");
+
+  const thresholds = Array.from(new Set(list(values.threshold ?? ['5']).map(t => numberOption('threshold', t, 5))));
+  if (thresholds.some(t => t < 2)) throw new UsageError("Thresholds must be at least 2%.");
+
+  const mode = choice('mode', values.mode, { threshold: SwingMode.THRESHOLD, zigzag: SwingMode.ZIGZAG }, SwingMode.THRESHOLD);
+  const trigger = choice('trigger', values.trigger, { close: PriceTrigger.CLOSE, 'high-low': PriceTrigger.HIGH_LOW }, PriceTrigger.CLOSE);
+  const currency = choice('currency', values.currency, { usd: QuoteCurrency.USD, eur: QuoteCurrency.EUR, btc: QuoteCurrency.BTC }, QuoteCurrency.USD);
+  const format = choice<OutputFormat>('format', values.format, { json: 'json', csv: 'csv', md: 'md', markdown: 'md' }, 'json');
+  const adaptive: AdaptiveThreshold | undefined = values.adaptive === undefined ? undefined : {
+    measure: choice('adaptive', values.adaptive, { atr: VolatilityMeasure.ATR, stdev: VolatilityMeasure.STDEV }, VolatilityMeasure.ATR),
+    window: numberOption('window', values.window, 14),
+    multiple: numberOption('multiple', values.multiple, 3)
+  };
+  if (adaptive && (!Number.isInteger(adaptive.window) || adaptive.window < 2)) {
+    throw new UsageError(`--window must be a whole number of at least 2, got "${values.window}".`);
+  }
+  if (adaptive && !(adaptive.multiple > 0)) throw new UsageError(`--multiple must be positive, got "${values.multiple}".`);
+  const researchLimit = numberOption('research-limit', values['research-limit'], Infinity);
+  if (researchLimit !== Infinity && !(Number.isInteger(researchLimit) && researchLimit >= 0)) {
+    throw new UsageError(`--research-limit must be a whole number of at least 0, got "${values['research-limit']}".`);
+  }
+
+  const llmProvider = choice('llm', values.llm, { gemini: LlmProviderKind.GEMINI, openai: LlmProviderKind.OPENAI, mock: LlmProviderKind.MOCK }, LlmProviderKind.GEMINI);
+  const llmSettings: LlmSettings = {
+    provider: llmProvider,
+    models: modelOptions(llmProvider, values.model),
+    temperature: numberOption('temperature', values.temperature, DEFAULT_LLM_SETTINGS.temperature),
+    wordLimit: Math.max(1, Math.round(numberOption('word-limit', values['word-limit'], DEFAULT_LLM_SETTINGS.wordLimit))),
+    baseUrl: values['llm-url']?.trim() || DEFAULT_LLM_SETTINGS.baseUrl,
+    apiKey: process.env.OPENAI_API_KEY ?? ''
+  };
+  if (values.fixtures && llmProvider !== LlmProviderKind.MOCK) throw new UsageError("--fixtures only applies to --llm mock.");
+  if (values.record && llmProvider === LlmProviderKind.MOCK) throw new UsageError("--record needs a live provider, not --llm mock.");
+  let fixtures: LlmFixture[] = [];
+  if (values.fixtures) {
+    try {
+      fixtures = importLlmFixtures(readFileSync(values.fixtures, 'utf8'));
+    } catch (err: any) {
+      throw new UsageError(`Cannot load ${values.fixtures}: ${err.message}`);
+    }
+  }
+
+  if (values.input && values['rest-url']) throw new UsageError("Pass either --input or --rest-url, not both.");
+  if (values.input && tickers.length > 1) {
+    throw new UsageError("A price file holds a single asset. Use Gemini or --rest-url to analyse several tickers.");
+  }
+  const rateTicker = QUOTE_CURRENCIES[currency].rateTicker;
+  if (rateTicker && tickers.includes(rateTicker)) {
+    throw new UsageError(`${rateTicker} quoted in ${currency} is always 1. Choose another --currency.`);
+  }
+
+  let sourceConfig: PriceSourceConfig;
+  if (values.input) {
+    let contents: string;
+    try {
+      contents = readFileSync(values.input, 'utf8');
+    } catch (err: any) {
+      throw new UsageError(`Cannot read ${values.input}: ${err.message}`);
+    }
+    sourceConfig = { source: PriceSource.FILE, fileName: basename(values.input), contents };
+  } else if (values['rest-url']) {
+    sourceConfig = { source: PriceSource.REST, urlTemplate: values['rest-url'].trim() };
+  } else {
+    sourceConfig = { source: PriceSource.GEMINI };
+  }
+  const needsLlm = sourceConfig.source === PriceSource.GEMINI || values.research || (rateTicker && sourceConfig.source === PriceSource.FILE);
+  if (needsLlm && llmProvider === LlmProviderKind.GEMINI && !process.env.API_KEY) {
+    throw new UsageError("Set GEMINI_API_KEY to fetch prices, rates or research from Gemini.");
+  }
+  const recorded: LlmFixture[] = [];
+  const llm = createLlmProvider(llmSettings, fixtures);
+  configureLlm(values.record ? withRecording(llm, fixture => recorded.push(fixture)) : llm, llmSettings);
+
+  const provider = memoizeProvider(createPriceProvider(sourceConfig));
+  const dataQuality = {
+    ...DEFAULT_DATA_QUALITY_OPTIONS,
+    minCoveragePct: numberOption('min-coverage', values['min-coverage'], DEFAULT_DATA_QUALITY_OPTIONS.minCoveragePct),
+    policy: values.strict ? CoveragePolicy.REFUSE : CoveragePolicy.WARN
+  };
+
+  let rates: PricePoint[] | null;
+  try {
+    // A price file only holds the analysed asset, so its conversion rates come from Gemini
+    rates = await fetchQuoteRates(sourceConfig.source === PriceSource.FILE ? geminiPriceProvider : provider, currency, startDate, endDate);
+  } catch (err: any) {
+    console.error(`error: ${err.message}`);
+    return EXIT_DATA_ERROR;
+  }
+
+  const results: AnalysisResult[] = [];
+  let failed = 0;
+  for (const ticker of tickers) {
+    for (const thresholdPercent of thresholds) {
+      try {
+        console.error(`Analysing ${ticker} at ${thresholdPercent}% (${startDate} → ${endDate})`);
+        let result = await runAnalysis(
+          provider,
+          { ticker, startDate, endDate, thresholdPercent, mode, trigger, adaptive, currency },
+          { dataQuality, rates }
+        );
+        if (result.quality?.belowMinCoverage) {
+          console.error(`  warning: only ${result.quality.coveragePct.toFixed(1)}% of days have a valid price`);
+        }
+        if (values.research) result = await research(result, researchLimit, 2);
+        results.push(result);
+        if (values['out-dir']) {
+          const dir = values['out-dir'];
+          mkdirSync(dir, { recursive: true });
+          const file = join(dir, `${ticker}_${periodSlug(startDate, endDate)}_${thresholdPercent}pct_${FORMAT_EXTENSIONS[format]}`);
+          writeFileSync(file, format === 'csv' ? movementsToCsv(result) : render([result], format));
+          console.error(`  wrote ${file}`);
+        }
+      } catch (err: any) {
+        failed++;
+        console.error(`error: ${ticker} at ${thresholdPercent}%: ${err.message}`);
+      }
+    }
+  }
+
+  if (!values['out-dir'] && results.length > 0) process.stdout.write(render(results, format));
+  if (values.record) {
+    writeFileSync(values.record, exportLlmFixtures(recorded));
+    console.error(`Recorded ${recorded.length} model ${recorded.length === 1 ? 'response' : 'responses'} to ${values.record}`);
+  }
+  return failed > 0 ? EXIT_DATA_ERROR : 0;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  // The web build injects the key at compile time; here it comes from the environment.
+  // Assigning undefined to process.env would store the string "undefined".
+  if (!process.env.API_KEY && process.env.GEMINI_API_KEY) process.env.API_KEY = process.env.GEMINI_API_KEY;
+
+  const [command, ...args] = argv;
+  if (!command || command === '--help' || command === '-h') {
+    console.log(USAGE);
+    return command ? 0 : EXIT_USAGE;
+  }
+  if (command !== 'analyze') {
+    console.error(`Unknown command "${command}".\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  try {
+    return await analyze(args);
+  } catch (err: any) {
+    // parseArgs reports unknown or malformed options with ERR_PARSE_ARGS_* codes
+    if (err instanceof UsageError || String(err?.code).startsWith('ERR_PARSE_ARGS')) {
+      console.error(`${err.message}\n\nRun "swing-tracker analyze --help" for options.`);
+      return EXIT_USAGE;
+    }
+    console.error(`error: ${err?.message ?? err}`);
+    return EXIT_DATA_ERROR;
+  }
+};
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,131 @@
+
+import React from 'react';
+import { FlaskConical } from 'lucide-react';
+import { BacktestOptions, BacktestResult, QuoteCurrency } from '../types';
+import { formatPrice } from '../services/currency';
+
+interface BacktestPanelProps {
+  backtest: BacktestResult;
+  options: BacktestOptions;
+  onOptionsChange: (options: BacktestOptions) => void;
+  showEquity: boolean;
+  onShowEquityChange: (show: boolean) => void;
+  currency?: QuoteCurrency;
+}
+
+const formatPct = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+const BacktestPanel: React.FC<BacktestPanelProps> = ({ backtest, options, onOptionsChange, showEquity, onShowEquityChange, currency = QuoteCurrency.USD }) => {
+  const formatMoney = (value: number) => formatPrice(value, currency);
+  const update = (key: keyof BacktestOptions) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    onOptionsChange({ ...options, [key]: Math.max(0, parseFloat(e.target.value) || 0) });
+
+  const metrics = [
+    { label: 'Strategy Return', value: formatPct(backtest.totalReturnPct), tone: backtest.totalReturnPct >= 0 ? 'text-emerald-400' : 'text-rose-400' },
+    { label: 'Buy & Hold', value: formatPct(backtest.buyHoldReturnPct), tone: backtest.buyHoldReturnPct >= 0 ? 'text-emerald-400' : 'text-rose-400' },
+    { label: 'Max Drawdown', value: `${backtest.maxDrawdownPct.toFixed(2)}%`, tone: 'text-rose-400' },
+    { label: 'Win Rate', value: `${backtest.winRatePct.toFixed(1)}%`, tone: 'text-white' },
+    { label: 'Sharpe (ann.)', value: backtest.sharpeRatio.toFixed(2), tone: 'text-white' },
+    { label: 'Final Equity', value: formatMoney(backtest.finalEquity), tone: 'text-white' }
+  ];
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 p-8 rounded-3xl shadow-2xl">
+      <div className="flex flex-col md:flex-row md:items-center justify-between mb-6 gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Swing Backtest</h2>
+          <p className="text-slate-500 text-sm mt-1">
+            Trades each swing confirmation at the daily close, {options.allowShort ? 'long and short' : 'long-only'}, with {options.feeBps} bps fees and {options.slippageBps} bps slippage.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 no-print">
+          <div className="flex items-center bg-slate-800/50 border border-slate-700/50 p-1 rounded-xl">
+            {[false, true].map(allowShort => (
+              <button
+                key={String(allowShort)}
+                onClick={() => onOptionsChange({ ...options, allowShort })}
+                className={`px-3 py-1 rounded-lg text-xs font-bold uppercase tracking-tight transition-all ${
+                  options.allowShort === allowShort ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {allowShort ? 'Long/Short' : 'Long Only'}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-3 bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl">
+            <FlaskConical size={14} className="text-slate-400" />
+            {([
+              ['startingCapital', 'Capital', 'w-20'],
+              ['feeBps', 'Fee bps', 'w-10'],
+              ['slippageBps', 'Slip bps', 'w-10']
+            ] as [keyof BacktestOptions, string, string][]).map(([key, label, width]) => (
+              <label key={key} className="flex items-center gap-1 text-[10px] text-slate-500 font-bold uppercase">
+                {label}
+                <input
+                  type="number"
+                  min={0}
+                  value={Number(options[key])}
+                  onChange={update(key)}
+                  className={`bg-transparent border-none focus:outline-none ${width} text-white font-medium text-sm`}
+                />
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase tracking-tight">
+            <input
+              type="checkbox"
+              checked={showEquity}
+              onChange={(e) => onShowEquityChange(e.target.checked)}
+              className="accent-indigo-500"
+            />
+            Equity on chart
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
+        {metrics.map(metric => (
+          <div key={metric.label} className="bg-slate-800/30 border border-slate-800 p-4 rounded-2xl">
+            <p className="text-slate-500 text-[10px] font-bold uppercase tracking-widest mb-1">{metric.label}</p>
+            <p className={`text-lg font-bold ${metric.tone}`}>{metric.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="max-h-[320px] overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-slate-900">
+            <tr className="text-slate-500 text-[10px] font-black uppercase tracking-widest text-left">
+              <th className="py-2 pr-4">Side</th>
+              <th className="py-2 pr-4">Entry</th>
+              <th className="py-2 pr-4">Exit</th>
+              <th className="py-2 pr-4 text-right">Return</th>
+              <th className="py-2 pr-4 text-right">P&amp;L</th>
+              <th className="py-2 text-right">Fees</th>
+            </tr>
+          </thead>
+          <tbody>
+            {backtest.trades.length === 0 && (
+              <tr>
+                <td colSpan={6} className="py-6 text-center text-slate-500">No trades. The period produced no entry signals.</td>
+              </tr>
+            )}
+            {backtest.trades.map((trade, idx) => (
+              <tr key={idx} className="border-t border-slate-800">
+                <td className={`py-2 pr-4 font-black ${trade.side === 'LONG' ? 'text-emerald-400' : 'text-rose-400'}`}>
+                  {trade.side}{trade.open && <span className="ml-2 text-[10px] text-yellow-500">OPEN</span>}
+                </td>
+                <td className="py-2 pr-4 text-xs font-bold text-slate-400">{trade.entryDate} @ {formatMoney(trade.entryPrice)}</td>
+                <td className="py-2 pr-4 text-xs font-bold text-slate-400">{trade.exitDate} @ {formatMoney(trade.exitPrice)}</td>
+                <td className={`py-2 pr-4 text-right font-bold ${trade.returnPct >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatPct(trade.returnPct)}</td>
+                <td className={`py-2 pr-4 text-right font-bold ${trade.pnl >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatMoney(trade.pnl)}</td>
+                <td className="py-2 text-right font-bold text-slate-500">{formatMoney(trade.fees)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BacktestPanel;
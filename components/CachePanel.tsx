@@ -0,0 +1,124 @@
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, Trash2, RefreshCw } from 'lucide-react';
+import { CacheEntry, CacheKind, listCacheEntries, deleteCacheEntry, clearCache, clearExpired } from '../services/cache';
+
+interface CachePanelProps {
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<CacheKind, string> = {
+  prices: 'Price History',
+  context: 'Swing Context'
+};
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const formatExpiry = (expiresAt: number | null) => {
+  if (expiresAt === null) return 'Never';
+  const remaining = expiresAt - Date.now();
+  if (remaining <= 0) return 'Expired';
+  const hours = remaining / (60 * 60 * 1000);
+  return hours >= 1 ? `in ${hours.toFixed(1)}h` : `in ${Math.ceil(remaining / 60000)}m`;
+};
+
+const CachePanel: React.FC<CachePanelProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const refresh = useCallback(async () => {
+    setBusy(true);
+    try {
+      setEntries(await listCacheEntries());
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const runAndRefresh = (action: () => Promise<void>) => async () => {
+    await action();
+    await refresh();
+  };
+
+  const totalSize = entries.reduce((acc, e) => acc + e.size, 0);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-black/60 backdrop-blur-sm no-print" onClick={onClose}>
+      <div
+        className="w-full max-w-xl h-full bg-slate-900 border-l border-slate-800 p-6 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-white">Local Cache</h2>
+            <p className="text-slate-500 text-xs font-bold uppercase tracking-widest mt-1">
+              {entries.length} entries • {formatBytes(totalSize)}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={refresh} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title="Refresh">
+              <RefreshCw size={16} className={busy ? 'animate-spin' : ''} />
+            </button>
+            <button onClick={onClose} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title="Close">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          <button
+            onClick={runAndRefresh(clearExpired)}
+            className="px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-tight bg-slate-800 hover:bg-slate-700 text-slate-300"
+          >
+            Clear Expired
+          </button>
+          {(Object.keys(KIND_LABELS) as CacheKind[]).map(kind => (
+            <button
+              key={kind}
+              onClick={runAndRefresh(() => clearCache(entry => entry.kind === kind))}
+              className="px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-tight bg-slate-800 hover:bg-slate-700 text-slate-300"
+            >
+              Clear {KIND_LABELS[kind]}
+            </button>
+          ))}
+          <button
+            onClick={runAndRefresh(() => clearCache())}
+            className="px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-tight bg-rose-500/10 hover:bg-rose-500/20 text-rose-400 border border-rose-500/20"
+          >
+            Clear All
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {entries.length === 0 && (
+            <p className="text-slate-500 text-sm text-center py-16">Nothing cached yet.</p>
+          )}
+          {entries.map(entry => (
+            <div key={entry.key} className="flex items-center justify-between gap-4 bg-slate-800/40 border border-slate-800 rounded-xl px-4 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-bold text-white truncate">{entry.label}</p>
+                <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                  {KIND_LABELS[entry.kind]} • {formatBytes(entry.size)} • Saved {new Date(entry.createdAt).toLocaleString()} • Expires {formatExpiry(entry.expiresAt)}
+                </p>
+              </div>
+              <button
+                onClick={runAndRefresh(() => deleteCacheEntry(entry.key))}
+                className="p-2 rounded-lg text-slate-500 hover:text-rose-400 hover:bg-slate-800 shrink-0"
+                title="Delete entry"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CachePanel;
@@ -0,0 +1,170 @@
+
+import React, { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import { ComparisonResult } from '../types';
+import { normalizeSeries, summarizeAsset, correlateReturns } from '../services/comparison';
+
+interface ComparisonReportProps {
+  comparison: ComparisonResult;
+  chartRef?: React.Ref<HTMLDivElement>; // Performance chart card, captured for the PDF
+}
+
+const SERIES_COLORS = ['#6366f1', '#f59e0b', '#10b981', '#f43f5e', '#06b6d4', '#a855f7', '#84cc16', '#ec4899'];
+
+const correlationTone = (value: number | null) => {
+  if (value === null) return 'text-slate-500';
+  if (value >= 0.7) return 'text-emerald-400';
+  if (value >= 0.3) return 'text-indigo-400';
+  if (value > -0.3) return 'text-slate-300';
+  return 'text-rose-400';
+};
+
+const ComparisonTooltip = ({ active, payload, label }: any) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-slate-900 border border-slate-700 p-3 rounded-xl shadow-2xl ring-1 ring-slate-800">
+        <p className="text-slate-500 text-[10px] mb-1 font-black uppercase tracking-widest">{label}</p>
+        {payload.map((entry: any) => (
+          <p key={entry.dataKey} className="text-sm font-black" style={{ color: entry.color }}>
+            {entry.dataKey} {Number(entry.value).toFixed(1)}
+          </p>
+        ))}
+      </div>
+    );
+  }
+  return null;
+};
+
+const ComparisonReport: React.FC<ComparisonReportProps> = ({ comparison, chartRef }) => {
+  const rows = useMemo(() => normalizeSeries(comparison.assets), [comparison]);
+  const stats = useMemo(() => comparison.assets.map(summarizeAsset), [comparison]);
+  const correlations = useMemo(() => correlateReturns(comparison.assets), [comparison]);
+  const spansYears = rows.length > 0 && rows[0].date.slice(0, 4) !== rows[rows.length - 1].date.slice(0, 4);
+
+  const formatXAxis = (tickItem: string) => new Date(tickItem).toLocaleString('default', {
+    month: 'short',
+    ...(spansYears && { year: '2-digit' as const }),
+    timeZone: 'UTC'
+  });
+
+  return (
+    <div className="space-y-8">
+      <div ref={chartRef} className="bg-slate-900 border border-slate-800 p-8 rounded-3xl shadow-2xl">
+        <div className="flex flex-col md:flex-row md:items-center justify-between mb-8 gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Relative Performance</h2>
+            <p className="text-slate-500 text-sm mt-1">Closes rebased to 100 at the first date all assets share.</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 px-4 py-2 bg-slate-800/50 rounded-2xl border border-slate-700/50">
+            {comparison.assets.map((asset, index) => (
+              <div key={asset.ticker} className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] }}></div>
+                <span className="text-xs font-bold text-slate-300">{asset.ticker}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="h-[400px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={rows} margin={{ top: 20, right: 30, left: 10, bottom: 10 }}>
+              <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#1e293b" />
+              <XAxis
+                dataKey="date"
+                tickFormatter={formatXAxis}
+                stroke="#475569"
+                fontSize={10}
+                fontWeight="bold"
+                minTickGap={60}
+                interval="preserveStart"
+              />
+              <YAxis
+                stroke="#475569"
+                fontSize={10}
+                fontWeight="bold"
+                domain={['auto', 'auto']}
+                tickLine={false}
+                axisLine={false}
+              />
+              <Tooltip content={<ComparisonTooltip />} />
+              <ReferenceLine y={100} stroke="#475569" strokeDasharray="4 4" />
+              {comparison.assets.map((asset, index) => (
+                <Line
+                  key={asset.ticker}
+                  type="monotone"
+                  dataKey={asset.ticker}
+                  stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 bg-slate-900/50 border border-slate-800 rounded-3xl p-6 overflow-x-auto">
+          <h2 className="text-xl font-bold text-white mb-4">Swing Profile by Asset</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-slate-500 text-[10px] font-black uppercase tracking-widest text-left">
+                <th className="py-2 pr-4">Asset</th>
+                <th className="py-2 pr-4">Coverage</th>
+                <th className="py-2 pr-4 text-right">Change</th>
+                <th className="py-2 pr-4 text-right">Up</th>
+                <th className="py-2 pr-4 text-right">Down</th>
+                <th className="py-2 pr-4 text-right">Avg Up Days</th>
+                <th className="py-2 text-right">Avg Down Days</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map(row => (
+                <tr key={row.ticker} className="border-t border-slate-800">
+                  <td className="py-3 pr-4 font-black text-white">{row.ticker}</td>
+                  <td className="py-3 pr-4 text-xs font-bold text-slate-400">{row.firstDate} → {row.lastDate}</td>
+                  <td className={`py-3 pr-4 text-right font-bold ${row.totalChange >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                    {row.totalChange >= 0 ? '+' : ''}{row.totalChange.toFixed(1)}%
+                  </td>
+                  <td className="py-3 pr-4 text-right font-bold text-emerald-400">{row.upCount}</td>
+                  <td className="py-3 pr-4 text-right font-bold text-rose-400">{row.downCount}</td>
+                  <td className="py-3 pr-4 text-right font-bold text-slate-300">{row.avgUpDays.toFixed(1)}</td>
+                  <td className="py-3 text-right font-bold text-slate-300">{row.avgDownDays.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-6">
+          <h2 className="text-xl font-bold text-white mb-1">Return Correlation</h2>
+          <p className="text-slate-500 text-xs mb-4">Pearson correlation of daily returns over shared dates.</p>
+          <div className="space-y-3">
+            {correlations.map(cell => (
+              <div key={`${cell.a}-${cell.b}`} className="flex items-center justify-between border-t border-slate-800 pt-3">
+                <div>
+                  <p className="text-sm font-black text-white">{cell.a} / {cell.b}</p>
+                  <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">{cell.overlap} shared days</p>
+                </div>
+                <p className={`text-xl font-black ${correlationTone(cell.value)}`}>
+                  {cell.value === null ? 'n/a' : cell.value.toFixed(2)}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonReport;
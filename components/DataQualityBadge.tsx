@@ -0,0 +1,91 @@
+
+import React, { useState } from 'react';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import { DataQualityReport } from '../types';
+
+interface DataQualityBadgeProps {
+  quality: DataQualityReport;
+}
+
+const MAX_LISTED = 5;
+
+const DataQualityBadge: React.FC<DataQualityBadgeProps> = ({ quality }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const issues = quality.duplicates.length + quality.gaps.length + quality.outliers.length + quality.invalid;
+  const tone = quality.belowMinCoverage
+    ? 'text-rose-400 bg-rose-500/10 border-rose-500/20'
+    : issues > 0
+      ? 'text-yellow-500 bg-yellow-500/10 border-yellow-500/20'
+      : 'text-emerald-400 bg-emerald-500/10 border-emerald-500/20';
+  const Icon = quality.belowMinCoverage || issues > 0 ? ShieldAlert : ShieldCheck;
+
+  const rows: [string, string][] = [
+    ['Coverage', `${quality.coveragePct.toFixed(1)}% of ${quality.expectedDays} days`],
+    ['Rows received', String(quality.points)],
+    ['Duplicate dates', String(quality.duplicates.length)],
+    ['Gaps', `${quality.gaps.length} (${quality.gaps.reduce((acc, g) => acc + g.missingDays, 0)} days)`],
+    ['Outlier returns', String(quality.outliers.length)],
+    ['Invalid rows', String(quality.invalid)]
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className={`flex items-center gap-2 px-3 py-1 rounded-full border text-[10px] font-black uppercase ${tone}`}
+      >
+        <Icon size={14} />
+        Data {quality.coveragePct.toFixed(0)}%{issues > 0 && ` • ${issues} ${issues === 1 ? 'issue' : 'issues'}`}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-80 z-40 bg-slate-900 border border-slate-700 p-4 rounded-2xl shadow-2xl text-xs space-y-3">
+          {quality.belowMinCoverage && (
+            <p className="text-rose-400 font-bold">Coverage is below the configured minimum. Swings may be missing or merged.</p>
+          )}
+          <table className="w-full">
+            <tbody>
+              {rows.map(([label, value]) => (
+                <tr key={label} className="border-t border-slate-800 first:border-t-0">
+                  <td className="py-1 text-slate-500 font-bold uppercase text-[10px]">{label}</td>
+                  <td className="py-1 text-right font-bold text-slate-300">{value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {quality.gaps.length > 0 && (
+            <div>
+              <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest mb-1">Largest gaps</p>
+              {[...quality.gaps].sort((a, b) => b.missingDays - a.missingDays).slice(0, MAX_LISTED).map(gap => (
+                <p key={gap.from} className="text-slate-400 font-bold">{gap.from} → {gap.to} ({gap.missingDays}d)</p>
+              ))}
+            </div>
+          )}
+
+          {quality.outliers.length > 0 && (
+            <div>
+              <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest mb-1">Outliers</p>
+              {quality.outliers.slice(0, MAX_LISTED).map(outlier => (
+                <p key={outlier.date} className="text-slate-400 font-bold">
+                  {outlier.date} {outlier.returnPct >= 0 ? '+' : ''}{outlier.returnPct.toFixed(1)}% (z {outlier.zScore.toFixed(1)}){outlier.reverts && ' • spike'}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {quality.repairs.length > 0 && (
+            <div>
+              <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest mb-1">Repairs applied</p>
+              {quality.repairs.map(repair => (
+                <p key={repair} className="text-indigo-300 font-bold">{repair}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityBadge;
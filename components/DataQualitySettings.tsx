@@ -0,0 +1,80 @@
+
+import React, { useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { CoveragePolicy, DataQualityOptions } from '../types';
+
+interface DataQualitySettingsProps {
+  options: DataQualityOptions;
+  onChange: (options: DataQualityOptions) => void;
+}
+
+const REPAIRS: [keyof DataQualityOptions, string][] = [
+  ['dedupe', 'Remove duplicate dates'],
+  ['dropOutliers', 'Drop one-day price spikes'],
+  ['forwardFill', 'Forward-fill missing days']
+];
+
+const DataQualitySettings: React.FC<DataQualitySettingsProps> = ({ options, onChange }) => {
+  const [open, setOpen] = useState<boolean>(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        title="Data checks"
+        className="bg-slate-800 hover:bg-slate-700 text-slate-300 p-2.5 rounded-xl transition-all border border-slate-700"
+      >
+        <ShieldCheck size={18} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-72 z-50 bg-slate-900 border border-slate-700 p-4 rounded-2xl shadow-2xl space-y-4">
+          <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Data checks</p>
+          <label className="flex items-center justify-between text-xs font-bold text-slate-300">
+            Minimum coverage
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={options.minCoveragePct}
+                onChange={(e) => onChange({ ...options, minCoveragePct: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 w-16 text-white text-right focus:outline-none"
+              />
+              %
+            </span>
+          </label>
+          <div className="flex items-center bg-slate-800/50 border border-slate-700/50 p-1 rounded-xl">
+            {[CoveragePolicy.WARN, CoveragePolicy.REFUSE].map(policy => (
+              <button
+                key={policy}
+                onClick={() => onChange({ ...options, policy })}
+                className={`flex-1 px-3 py-1 rounded-lg text-xs font-bold uppercase tracking-tight transition-all ${
+                  options.policy === policy ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {policy === CoveragePolicy.REFUSE ? 'Refuse below' : 'Warn below'}
+              </button>
+            ))}
+          </div>
+          <div className="space-y-2">
+            {REPAIRS.map(([key, label]) => (
+              <label key={key} className="flex items-center gap-2 text-xs font-bold text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={Boolean(options[key])}
+                  onChange={(e) => onChange({ ...options, [key]: e.target.checked })}
+                  className="accent-indigo-500"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-500 font-medium">Applies from the next analysis. Invalid rows are always dropped.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataQualitySettings;
@@ -0,0 +1,50 @@
+
+import React from 'react';
+import { IndicatorSnapshot } from '../types';
+import { HIGH_VOLATILITY, RSI_OVERBOUGHT, RSI_OVERSOLD } from '../services/indicators';
+
+interface IndicatorChipsProps {
+  start: IndicatorSnapshot;
+  end: IndicatorSnapshot;
+}
+
+const Chip: React.FC<{ tone: string; title: string; children: React.ReactNode }> = ({ tone, title, children }) => (
+  <span title={title} className={`px-2 py-0.5 rounded-md border text-[10px] font-bold ${tone}`}>{children}</span>
+);
+
+const NEUTRAL = 'bg-slate-800/60 border-slate-700/50 text-slate-400';
+
+const rsiTone = (rsi: number) =>
+  rsi < RSI_OVERSOLD ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300'
+  : rsi > RSI_OVERBOUGHT ? 'bg-rose-500/10 border-rose-500/30 text-rose-300'
+  : NEUTRAL;
+
+// Indicator readings at a swing's start (and RSI at its end), for the swing cards
+const IndicatorChips: React.FC<IndicatorChipsProps> = ({ start, end }) => {
+  if (start.rsi === undefined && start.aboveSma200 === undefined && start.realizedVol === undefined) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {start.rsi !== undefined && (
+        <Chip tone={rsiTone(start.rsi)} title="14-day RSI at start → end">
+          RSI {start.rsi.toFixed(0)}{end.rsi !== undefined && ` → ${end.rsi.toFixed(0)}`}
+        </Chip>
+      )}
+      {start.aboveSma200 !== undefined && (
+        <Chip tone={NEUTRAL} title="Close versus the 200-day SMA at start">
+          {start.aboveSma200 ? 'Above' : 'Below'} SMA 200
+        </Chip>
+      )}
+      {start.realizedVol !== undefined && (
+        <Chip
+          tone={start.realizedVol > HIGH_VOLATILITY ? 'bg-amber-500/10 border-amber-500/30 text-amber-300' : NEUTRAL}
+          title="30-day annualized realized volatility at start"
+        >
+          Vol {start.realizedVol.toFixed(0)}%
+        </Chip>
+      )}
+    </div>
+  );
+};
+
+export default IndicatorChips;
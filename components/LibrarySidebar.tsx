@@ -0,0 +1,270 @@
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { X, Save, Pencil, Trash2, FolderOpen, Download, Upload, GitCompare, Check } from 'lucide-react';
+import { AnalysisResult, MovementEvent, MovementType, SavedAnalysis, SwingMode } from '../types';
+import {
+  listSavedAnalyses,
+  saveAnalysis,
+  renameAnalysis,
+  deleteAnalysis,
+  exportLibrary,
+  importLibrary,
+  diffMovements
+} from '../services/library';
+import { formatPeriod } from '../services/dateRange';
+import { describeThreshold } from '../services/analysisEngine';
+import { downloadTextFile } from '../services/download';
+
+interface LibrarySidebarProps {
+  currentResult: AnalysisResult | null;
+  onLoad: (saved: SavedAnalysis) => void;
+  onClose: () => void;
+}
+
+const describe = (result: AnalysisResult) =>
+  `${result.ticker} • ${formatPeriod(result.startDate, result.endDate)} • ${describeThreshold(result.targetPercentage, result.adaptive)} • ${result.mode === SwingMode.ZIGZAG ? 'ZigZag' : 'Threshold'}`;
+
+const MoveRow: React.FC<{ move: MovementEvent }> = ({ move }) => (
+  <div className="flex items-center justify-between text-xs py-1.5 border-t border-slate-800/60">
+    <span className={`font-black ${move.type === MovementType.UP ? 'text-emerald-400' : 'text-rose-400'}`}>
+      {move.type} {Math.abs(move.percentageChange).toFixed(1)}%
+    </span>
+    <span className="text-slate-400 font-bold">{move.startDate} → {move.endDate}</span>
+  </div>
+);
+
+const DiffView: React.FC<{ first: SavedAnalysis; second: SavedAnalysis }> = ({ first, second }) => {
+  const diff = useMemo(() => diffMovements(first.result, second.result), [first, second]);
+  const params: [string, string, string][] = [
+    ['Ticker', first.result.ticker, second.result.ticker],
+    ['Period', formatPeriod(first.result.startDate, first.result.endDate), formatPeriod(second.result.startDate, second.result.endDate)],
+    ['Threshold', describeThreshold(first.result.targetPercentage, first.result.adaptive), describeThreshold(second.result.targetPercentage, second.result.adaptive)],
+    ['Mode', first.result.mode, second.result.mode],
+    ['Swings', String(first.result.movements.length), String(second.result.movements.length)]
+  ];
+
+  return (
+    <div className="bg-slate-800/40 border border-slate-700/50 rounded-2xl p-4 space-y-4">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-slate-500 text-[10px] font-black uppercase tracking-widest text-left">
+            <th className="pb-2"></th>
+            <th className="pb-2 truncate max-w-[120px]">{first.name}</th>
+            <th className="pb-2 truncate max-w-[120px]">{second.name}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {params.map(([label, a, b]) => (
+            <tr key={label} className="border-t border-slate-800/60">
+              <td className="py-1.5 text-slate-500 font-bold uppercase text-[10px]">{label}</td>
+              <td className="py-1.5 font-bold text-slate-300">{a}</td>
+              <td className={`py-1.5 font-bold ${a === b ? 'text-slate-300' : 'text-yellow-400'}`}>{b}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest">{diff.shared} swings in both</p>
+
+      <div>
+        <p className="text-[10px] text-emerald-500 font-black uppercase tracking-widest mb-1">
+          Appear in "{second.name}" ({diff.added.length})
+        </p>
+        {diff.added.map((move, idx) => <MoveRow key={`a-${idx}`} move={move} />)}
+      </div>
+      <div>
+        <p className="text-[10px] text-rose-500 font-black uppercase tracking-widest mb-1">
+          Vanish from "{first.name}" ({diff.removed.length})
+        </p>
+        {diff.removed.map((move, idx) => <MoveRow key={`r-${idx}`} move={move} />)}
+      </div>
+    </div>
+  );
+};
+
+const LibrarySidebar: React.FC<LibrarySidebarProps> = ({ currentResult, onLoad, onClose }) => {
+  const [items, setItems] = useState<SavedAnalysis[]>([]);
+  const [saveName, setSaveName] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState<string>('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    setItems(await listSavedAnalyses());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (currentResult) setSaveName(`${currentResult.ticker} ${formatPeriod(currentResult.startDate, currentResult.endDate)} @ ${describeThreshold(currentResult.targetPercentage, currentResult.adaptive)}`);
+  }, [currentResult]);
+
+  const handleSave = async () => {
+    if (!currentResult) return;
+    await saveAnalysis(saveName, currentResult);
+    setMessage(`Saved "${saveName}".`);
+    await refresh();
+  };
+
+  const handleRename = async (item: SavedAnalysis) => {
+    await renameAnalysis(item, editName);
+    setEditingId(null);
+    await refresh();
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteAnalysis(id);
+    setSelected(prev => prev.filter(s => s !== id));
+    await refresh();
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id)
+      ? prev.filter(s => s !== id)
+      : [...prev, id].slice(-2));
+  };
+
+  const handleExport = async () => {
+    downloadTextFile(`swing_library_${new Date().toISOString().split('T')[0]}.json`, await exportLibrary(), 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { imported, skipped } = await importLibrary(await file.text());
+      setMessage(`Imported ${imported} ${imported === 1 ? 'analysis' : 'analyses'}.${skipped > 0 ? ` Skipped ${skipped} invalid ${skipped === 1 ? 'entry' : 'entries'}.` : ''}`);
+      await refresh();
+    } catch (err: any) {
+      setMessage(err.message || "Import failed.");
+    }
+  };
+
+  const selectedItems = selected
+    .map(id => items.find(i => i.id === id))
+    .filter((i): i is SavedAnalysis => !!i);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-black/60 backdrop-blur-sm no-print" onClick={onClose}>
+      <div
+        className="w-full max-w-xl h-full bg-slate-900 border-l border-slate-800 p-6 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-white">Saved Analyses</h2>
+            <p className="text-slate-500 text-xs font-bold uppercase tracking-widest mt-1">{items.length} saved</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={handleExport} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title="Export library">
+              <Download size={16} />
+            </button>
+            <button onClick={() => importRef.current?.click()} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title="Import library">
+              <Upload size={16} />
+            </button>
+            <input ref={importRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            <button onClick={onClose} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title="Close">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {currentResult && (
+          <div className="flex items-center gap-2 mb-4">
+            <input
+              type="text"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              className="flex-1 bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl text-sm text-white focus:outline-none"
+            />
+            <button
+              onClick={handleSave}
+              className="bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded-xl font-bold text-sm flex items-center gap-2"
+            >
+              <Save size={16} /> Save
+            </button>
+          </div>
+        )}
+
+        {message && <p className="text-xs text-slate-400 font-bold mb-4">{message}</p>}
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {items.length === 0 && (
+            <p className="text-slate-500 text-sm text-center py-16">No saved analyses yet.</p>
+          )}
+          {items.map(item => (
+            <div
+              key={item.id}
+              className={`bg-slate-800/40 border rounded-xl px-4 py-3 ${selected.includes(item.id) ? 'border-indigo-500/60' : 'border-slate-800'}`}
+            >
+              <div className="flex items-center justify-between gap-3">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(item.id)}
+                  onChange={() => toggleSelected(item.id)}
+                  title="Select for diff"
+                  className="accent-indigo-500 shrink-0"
+                />
+                <div className="min-w-0 flex-1">
+                  {editingId === item.id ? (
+                    <input
+                      autoFocus
+                      type="text"
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleRename(item)}
+                      className="w-full bg-slate-900 border border-slate-700 px-2 py-1 rounded-lg text-sm text-white focus:outline-none"
+                    />
+                  ) : (
+                    <p className="text-sm font-bold text-white truncate">{item.name}</p>
+                  )}
+                  <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest truncate">
+                    {describe(item.result)} • {new Date(item.savedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center shrink-0">
+                  {editingId === item.id ? (
+                    <button onClick={() => handleRename(item)} className="p-2 rounded-lg text-emerald-400 hover:bg-slate-800" title="Confirm rename">
+                      <Check size={14} />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => { setEditingId(item.id); setEditName(item.name); }}
+                      className="p-2 rounded-lg text-slate-500 hover:text-white hover:bg-slate-800"
+                      title="Rename"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                  )}
+                  <button onClick={() => onLoad(item)} className="p-2 rounded-lg text-slate-500 hover:text-indigo-400 hover:bg-slate-800" title="Load">
+                    <FolderOpen size={14} />
+                  </button>
+                  <button onClick={() => handleDelete(item.id)} className="p-2 rounded-lg text-slate-500 hover:text-rose-400 hover:bg-slate-800" title="Delete">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="pt-4 mt-4 border-t border-slate-800 max-h-[45%] overflow-y-auto">
+          <div className="flex items-center gap-2 mb-3 text-slate-400">
+            <GitCompare size={14} />
+            <p className="text-[10px] font-black uppercase tracking-widest">
+              {selectedItems.length === 2 ? 'Diff' : 'Tick two analyses to diff them'}
+            </p>
+          </div>
+          {selectedItems.length === 2 && <DiffView first={selectedItems[0]} second={selectedItems[1]} />}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LibrarySidebar;
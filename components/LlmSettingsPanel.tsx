@@ -0,0 +1,214 @@
+
+import React, { useRef, useState } from 'react';
+import { X, Download, FileUp, Trash2 } from 'lucide-react';
+import { LlmProviderKind, LlmSettings, LlmTask } from '../types';
+import {
+  DEFAULT_LLM_MODELS,
+  LLM_PROVIDER_LABELS,
+  LLM_TASK_LABELS,
+  LlmFixture,
+  exportLlmFixtures,
+  importLlmFixtures
+} from '../services/llm';
+import { downloadTextFile } from '../services/download';
+
+interface LlmSettingsPanelProps {
+  settings: LlmSettings;
+  onChange: (settings: LlmSettings) => void;
+  fixtures: LlmFixture[];
+  onFixturesChange: (fixtures: LlmFixture[]) => void;
+  recording: boolean;
+  onRecordingChange: (recording: boolean) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-2 text-sm text-white font-medium focus:outline-none focus:border-indigo-500';
+const labelClass = 'text-slate-500 text-[10px] font-bold uppercase tracking-widest';
+
+const LlmSettingsPanel: React.FC<LlmSettingsPanelProps> = ({
+  settings,
+  onChange,
+  fixtures,
+  onFixturesChange,
+  recording,
+  onRecordingChange,
+  onClose
+}) => {
+  const [fixtureError, setFixtureError] = useState<string | null>(null);
+  const fixtureInputRef = useRef<HTMLInputElement>(null);
+  const isMock = settings.provider === LlmProviderKind.MOCK;
+
+  const update = (patch: Partial<LlmSettings>) => onChange({ ...settings, ...patch });
+
+  // Model names don't carry over between providers
+  const changeProvider = (provider: LlmProviderKind) => {
+    update({ provider, models: DEFAULT_LLM_MODELS[provider] });
+    if (provider === LlmProviderKind.MOCK) onRecordingChange(false);
+  };
+
+  const handleFixtureImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onFixturesChange(importLlmFixtures(await file.text()));
+      setFixtureError(null);
+    } catch (err: any) {
+      setFixtureError(err?.message || "The fixture file could not be loaded.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-black/60 backdrop-blur-sm no-print" onClick={onClose}>
+      <div
+        className="w-full max-w-xl h-full bg-slate-900 border-l border-slate-800 p-6 flex flex-col overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-white">Language Model</h2>
+            <p className="text-slate-500 text-xs font-bold uppercase tracking-widest mt-1">
+              Used for price history, watch quotes and swing research
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-5">
+          <div className="space-y-1.5">
+            <p className={labelClass}>Provider</p>
+            <select
+              value={settings.provider}
+              onChange={(e) => changeProvider(e.target.value as LlmProviderKind)}
+              className={inputClass}
+            >
+              {Object.values(LlmProviderKind).map(kind => (
+                <option key={kind} value={kind} className="bg-slate-900">{LLM_PROVIDER_LABELS[kind]}</option>
+              ))}
+            </select>
+          </div>
+
+          {settings.provider === LlmProviderKind.OPENAI && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <p className={labelClass}>Base URL</p>
+                <input
+                  value={settings.baseUrl}
+                  onChange={(e) => update({ baseUrl: e.target.value.trim() })}
+                  placeholder="http://localhost:11434/v1"
+                  className={inputClass}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <p className={labelClass}>API key</p>
+                <input
+                  type="password"
+                  value={settings.apiKey}
+                  onChange={(e) => update({ apiKey: e.target.value.trim() })}
+                  placeholder="Not needed for local servers"
+                  className={inputClass}
+                />
+              </div>
+              <p className="md:col-span-2 text-xs text-slate-500">
+                Any server with an OpenAI chat completions endpoint, such as Ollama, LM Studio or llama.cpp. These have no web search, so research cites no sources and prices come from the model's memory.
+              </p>
+            </div>
+          )}
+
+          {!isMock && (
+            <div className="space-y-3">
+              <p className={labelClass}>Models</p>
+              {Object.values(LlmTask).map(task => (
+                <div key={task} className="grid grid-cols-[8rem_1fr] items-center gap-3">
+                  <span className="text-sm font-bold text-slate-300">{LLM_TASK_LABELS[task]}</span>
+                  <input
+                    value={settings.models[task]}
+                    onChange={(e) => update({ models: { ...settings.models, [task]: e.target.value.trim() } })}
+                    className={inputClass}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <p className={labelClass}>Temperature • {settings.temperature.toFixed(1)}</p>
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.1}
+                value={settings.temperature}
+                onChange={(e) => update({ temperature: parseFloat(e.target.value) })}
+                disabled={isMock}
+                className="w-full accent-indigo-500 disabled:opacity-40"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <p className={labelClass}>Research word limit</p>
+              <input
+                type="number"
+                min={10}
+                max={300}
+                value={settings.wordLimit}
+                onChange={(e) => update({ wordLimit: Math.min(300, Math.max(10, parseInt(e.target.value) || 10)) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="bg-slate-800/30 border border-slate-800 p-4 rounded-2xl space-y-3">
+            <div>
+              <p className={labelClass}>Fixtures • {fixtures.length} recorded {fixtures.length === 1 ? 'response' : 'responses'}</p>
+              <p className="text-xs text-slate-500 mt-1">
+                {isMock
+                  ? 'The offline mock replays these responses, matched on task, ticker and dates. Requests without a recording fail.'
+                  : 'Record responses from this provider, then download them to replay offline with the mock.'}
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {!isMock && (
+                <label className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-800 text-xs font-bold uppercase tracking-tight text-slate-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={recording}
+                    onChange={(e) => onRecordingChange(e.target.checked)}
+                    className="accent-rose-500"
+                  />
+                  Record
+                </label>
+              )}
+              <button
+                onClick={() => fixtureInputRef.current?.click()}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-tight bg-slate-800 hover:bg-slate-700 text-slate-300"
+              >
+                <FileUp size={14} /> Load
+              </button>
+              <button
+                onClick={() => downloadTextFile('llm-fixtures.json', exportLlmFixtures(fixtures), 'application/json')}
+                disabled={fixtures.length === 0}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-tight bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-40"
+              >
+                <Download size={14} /> Download
+              </button>
+              <button
+                onClick={() => onFixturesChange([])}
+                disabled={fixtures.length === 0}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-tight bg-rose-500/10 hover:bg-rose-500/20 text-rose-400 border border-rose-500/20 disabled:opacity-40"
+              >
+                <Trash2 size={14} /> Clear
+              </button>
+              <input ref={fixtureInputRef} type="file" accept=".json,application/json" onChange={handleFixtureImport} className="hidden" />
+            </div>
+            {fixtureError && <p className="text-xs text-rose-400 font-bold">{fixtureError}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LlmSettingsPanel;
@@ -0,0 +1,231 @@
+
+import React, { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+  ReferenceLine
+} from 'recharts';
+import { Repeat } from 'lucide-react';
+import { AnalysisResult, MovementType } from '../types';
+import {
+  analyzePatterns,
+  overlayWindows,
+  CalendarWindow,
+  CALENDAR_WINDOW_PRESETS,
+  DURATION_BAND_LABELS,
+  MAGNITUDE_BAND_LABELS
+} from '../services/patterns';
+
+interface PatternPanelProps {
+  result: AnalysisResult;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const SERIES_COLORS = ['#818cf8', '#f59e0b', '#06b6d4', '#a855f7', '#84cc16', '#ec4899', '#14b8a6', '#eab308', '#f97316', '#38bdf8'];
+const MAX_CLUSTER_ROWS = 10;
+
+const DIRECTION_CLASSES: Record<MovementType, string> = {
+  [MovementType.UP]: 'text-emerald-400',
+  [MovementType.DOWN]: 'text-rose-400'
+};
+
+const signedPct = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+const OverlayTooltip = ({ active, payload, label }: any) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-slate-900 border border-slate-700 p-3 rounded-xl shadow-2xl ring-1 ring-slate-800 text-xs font-bold">
+        <p className="text-slate-500 text-[10px] mb-1 font-black uppercase tracking-widest">Day {label}</p>
+        {payload.map((entry: any) => (
+          <p key={entry.dataKey} style={{ color: entry.color }}>{entry.name} {signedPct(entry.value)}</p>
+        ))}
+      </div>
+    );
+  }
+  return null;
+};
+
+const PatternPanel: React.FC<PatternPanelProps> = ({ result }) => {
+  const [calendarWindow, setCalendarWindow] = useState<CalendarWindow>(CALENDAR_WINDOW_PRESETS.Q4.window);
+  const report = useMemo(() => analyzePatterns(result), [result]);
+  const overlay = useMemo(() => overlayWindows(result.data, calendarWindow), [result.data, calendarWindow]);
+  const hasMean = overlay.rows.some(row => row.mean !== undefined);
+
+  const updateWindow = (key: keyof CalendarWindow) => (e: React.ChangeEvent<HTMLSelectElement>) =>
+    setCalendarWindow(prev => ({ ...prev, [key]: parseInt(e.target.value) }));
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 p-8 rounded-3xl shadow-2xl space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white flex items-center gap-2"><Repeat size={20} className="text-indigo-400" /> Recurring Patterns</h2>
+        <p className="text-slate-500 text-sm mt-1">
+          Swings across {report.years.length} {report.years.length === 1 ? 'year' : 'years'} grouped by direction, size, duration and starting quarter. Uses the loaded data only.
+        </p>
+      </div>
+
+      {report.years.length < 2 ? (
+        <p className="text-slate-500 text-sm">Patterns need at least two calendar years of data. Widen the period or import a longer price file.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {report.seasons.map(season => (
+              <div key={season.season} className="bg-slate-800/30 border border-slate-800 p-4 rounded-2xl">
+                <p className="text-slate-500 text-[10px] font-bold uppercase tracking-widest mb-1">{season.season} return</p>
+                {season.returns.length === 0 ? (
+                  <p className="text-xl font-bold text-slate-600">—</p>
+                ) : (
+                  <>
+                    <p className={`text-xl font-bold ${season.meanChange >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{signedPct(season.meanChange)}</p>
+                    <p className="text-[10px] text-slate-500 font-bold mt-1">
+                      Up in {season.upYears} of {season.returns.length} years • {Math.round(season.consistency * 100)}% consistent
+                    </p>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-slate-500 text-[10px] font-bold uppercase tracking-widest">Recurring swings</p>
+            {report.recurring.length === 0 ? (
+              <p className="text-slate-500 text-sm">No swing direction repeats in the same quarter across enough years.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {report.recurring.map(pattern => (
+                  <div key={`${pattern.type}-${pattern.season}`} className="bg-slate-800/30 border border-slate-800 p-4 rounded-2xl">
+                    <p className="text-sm font-black text-white">
+                      <span className={DIRECTION_CLASSES[pattern.type]}>{pattern.type}</span> swings starting in {pattern.season}
+                    </p>
+                    <p className="text-xs text-slate-400 font-bold mt-1">
+                      {pattern.years.length} of {pattern.yearsCovered} years • {pattern.lift.toFixed(1)}× the average quarter • median {signedPct(pattern.medianChange)} over {Math.round(pattern.medianDays)}d
+                    </p>
+                    <p className="text-[10px] text-slate-500 font-bold mt-1">{pattern.years.join(', ')}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-slate-800/30 border border-slate-800 p-4 rounded-2xl overflow-x-auto">
+            <p className="text-slate-500 text-[10px] font-bold uppercase tracking-widest mb-3">
+              Swing clusters • small ≤ {report.magnitudeEdges.lower.toFixed(1)}% &lt; medium ≤ {report.magnitudeEdges.upper.toFixed(1)}% &lt; large • short ≤ {Math.round(report.durationEdges.lower)}d &lt; medium ≤ {Math.round(report.durationEdges.upper)}d &lt; long
+            </p>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-500 text-[10px] font-black uppercase tracking-widest text-left">
+                  <th className="pb-1">Direction</th>
+                  <th className="pb-1">Size</th>
+                  <th className="pb-1">Duration</th>
+                  <th className="pb-1">Quarter</th>
+                  <th className="pb-1 text-right">Swings</th>
+                  <th className="pb-1 text-right">Years</th>
+                  <th className="pb-1 text-right">Median change</th>
+                  <th className="pb-1 text-right">Median days</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.clusters.slice(0, MAX_CLUSTER_ROWS).map(cluster => (
+                  <tr key={cluster.key} className="border-t border-slate-800">
+                    <td className={`py-1.5 font-black ${DIRECTION_CLASSES[cluster.type]}`}>{cluster.type}</td>
+                    <td className="py-1.5 font-bold text-slate-300">{MAGNITUDE_BAND_LABELS[cluster.magnitude]}</td>
+                    <td className="py-1.5 font-bold text-slate-300">{DURATION_BAND_LABELS[cluster.duration]}</td>
+                    <td className="py-1.5 font-bold text-slate-300">{cluster.season}</td>
+                    <td className="py-1.5 text-right font-bold text-slate-300">{cluster.movements.length}</td>
+                    <td className="py-1.5 text-right font-bold text-slate-300" title={cluster.years.join(', ')}>{cluster.years.length}</td>
+                    <td className="py-1.5 text-right font-bold text-slate-300">{signedPct(cluster.medianChange)}</td>
+                    <td className="py-1.5 text-right font-bold text-slate-300">{cluster.medianDays.toFixed(0)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {report.clusters.length > MAX_CLUSTER_ROWS && (
+              <p className="text-[10px] text-slate-500 font-bold mt-2">{report.clusters.length - MAX_CLUSTER_ROWS} smaller clusters not shown.</p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <div>
+                <p className="text-slate-500 text-[10px] font-bold uppercase tracking-widest">Same window, every year</p>
+                <p className="text-slate-500 text-xs mt-1">Each year rebased to its first close in the window. Dashed years are still running.</p>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 no-print">
+                {Object.entries(CALENDAR_WINDOW_PRESETS).map(([key, preset]) => {
+                  const selected = preset.window.startMonth === calendarWindow.startMonth && preset.window.endMonth === calendarWindow.endMonth;
+                  return (
+                    <button
+                      key={key}
+                      onClick={() => setCalendarWindow(preset.window)}
+                      className={`px-2.5 py-1 rounded-lg border text-[10px] font-black uppercase tracking-widest ${
+                        selected ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800/70 border-slate-700/50 text-slate-400 hover:text-white'
+                      }`}
+                    >
+                      {preset.label}
+                    </button>
+                  );
+                })}
+                <div className="flex items-center gap-1 bg-slate-800/50 border border-slate-700/50 px-2 py-1 rounded-lg">
+                  {(['startMonth', 'endMonth'] as (keyof CalendarWindow)[]).map((key, i) => (
+                    <React.Fragment key={key}>
+                      {i > 0 && <span className="text-slate-500 text-xs font-bold">→</span>}
+                      <select
+                        value={calendarWindow[key]}
+                        onChange={updateWindow(key)}
+                        className="bg-transparent border-none focus:outline-none text-white font-medium text-xs"
+                      >
+                        {MONTHS.map((month, index) => (
+                          <option key={month} value={index} className="bg-slate-900">{month}</option>
+                        ))}
+                      </select>
+                    </React.Fragment>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {overlay.series.length === 0 ? (
+              <p className="text-slate-500 text-sm">No year has data from the start of this window.</p>
+            ) : (
+              <div className="h-[340px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={overlay.rows} margin={{ top: 10, right: 30, left: 10, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#1e293b" />
+                    <XAxis dataKey="offset" type="number" domain={['dataMin', 'dataMax']} stroke="#475569" fontSize={10} fontWeight="bold" tickFormatter={(v) => `D${v}`} />
+                    <YAxis stroke="#475569" fontSize={10} fontWeight="bold" tickLine={false} axisLine={false} tickFormatter={(v) => `${v}%`} />
+                    <Tooltip content={<OverlayTooltip />} />
+                    <Legend wrapperStyle={{ fontSize: 11, fontWeight: 700 }} />
+                    <ReferenceLine y={0} stroke="#475569" />
+                    {overlay.series.map((series, i) => (
+                      <Line
+                        key={series.label}
+                        dataKey={series.label}
+                        name={series.label}
+                        stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                        strokeWidth={1.5}
+                        strokeDasharray={series.partial ? '4 4' : undefined}
+                        dot={false}
+                        connectNulls
+                        isAnimationActive={false}
+                      />
+                    ))}
+                    {hasMean && (
+                      <Line dataKey="mean" name="Mean" stroke="#f8fafc" strokeWidth={3} dot={false} connectNulls isAnimationActive={false} />
+                    )}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PatternPanel;
@@ -1,113 +1,570 @@
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import { 
-  AreaChart, 
+  ComposedChart, 
+  BarChart,
+  LineChart,
   Area, 
+  Bar,
+  Line,
+  Cell,
   XAxis, 
   YAxis, 
   CartesianGrid, 
   Tooltip, 
   ResponsiveContainer, 
-  ReferenceDot 
+  ReferenceDot,
+  ReferenceLine,
+  ReferenceArea,
+  Brush
 } from 'recharts';
-import { PricePoint, MovementEvent, MovementType } from '../types';
+import { PricePoint, MovementEvent, MovementType, SwingMode, EquityPoint, ResearchEvent, QuoteCurrency, IndicatorOverlay, IndicatorPanel, ChartView, PriceScale, ChartRange } from '../types';
+import { CATEGORY_COLORS, CATEGORY_LABELS } from './ResearchDetails';
+import { formatPrice } from '../services/currency';
+import { IndicatorSeries, RSI_OVERBOUGHT, RSI_OVERSOLD } from '../services/indicators';
+
+export const INDICATOR_OVERLAYS: Record<IndicatorOverlay, { label: string; color: string }> = {
+  EMA20: { label: 'EMA 20', color: '#facc15' },
+  SMA50: { label: 'SMA 50', color: '#38bdf8' },
+  SMA200: { label: 'SMA 200', color: '#a855f7' },
+  BOLLINGER: { label: 'Bollinger', color: '#94a3b8' }
+};
+
+export const INDICATOR_PANELS: Record<IndicatorPanel, {
+  label: string;
+  color: string;
+  dataKey: string;
+  domain: [number | string, number | string];
+  guides: number[];
+  format: (value: number) => string;
+}> = {
+  RSI: { label: 'RSI 14', color: '#c084fc', dataKey: 'rsi', domain: [0, 100], guides: [RSI_OVERSOLD, RSI_OVERBOUGHT], format: v => v.toFixed(0) },
+  ATR: { label: 'ATR 14 %', color: '#fb923c', dataKey: 'atrPct', domain: [0, 'auto'], guides: [], format: v => `${v.toFixed(1)}%` },
+  VOLATILITY: { label: 'Realized Vol 30d', color: '#2dd4bf', dataKey: 'realizedVol', domain: [0, 'auto'], guides: [], format: v => `${v.toFixed(0)}%` }
+};
 
 interface PriceChartProps {
   data: PricePoint[];
   movements: MovementEvent[];
+  mode?: SwingMode;
+  view?: ChartView;
+  scale?: PriceScale;
+  currency?: QuoteCurrency;
+  equity?: EquityPoint[];
+  events?: ResearchEvent[];
+  indicators?: IndicatorSeries;
+  overlays?: IndicatorOverlay[];
+  panels?: IndicatorPanel[];
+  thresholdPercent?: number;
+  thresholds?: number[]; // Threshold in percent per data point, drawn as an envelope
+  range?: ChartRange | null;
+  onRangeChange?: (range: ChartRange | null) => void;
+  activeSwing?: number | null; // Index into movements
+  onSwingHover?: (index: number | null) => void;
+  onSwingSelect?: (index: number) => void;
 }
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+const SWING_COLORS: Record<MovementType, string> = {
+  [MovementType.UP]: '#10b981',
+  [MovementType.DOWN]: '#f43f5e'
+};
+
+/**
+ * The swing a date falls in: the one it starts or runs through, or the last swing
+ * when the date is its end. Dates between threshold swings belong to none.
+ */
+const swingAt = (movements: MovementEvent[], date: string) =>
+  movements.find(m => date >= m.startDate && date < m.endDate) ??
+  movements.find(m => date === m.endDate);
+
+export const hasOHLC = (data: PricePoint[]) =>
+  data.length > 0 && data.every(d => d.open !== undefined && d.high !== undefined && d.low !== undefined);
+
+const formatVolume = (value: number) => new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+
+const LOG_TICKS = 6;
+
+/**
+ * Evenly spaced ticks on a log axis, rounded to two significant digits. Recharts
+ * picks linear steps by default, which bunch up at the top of a log scale.
+ */
+const logTicks = (min: number, max: number): number[] => {
+  if (!(min > 0) || max <= min) return [min];
+  const step = Math.log(max / min) / (LOG_TICKS - 1);
+  return Array.from(new Set(Array.from({ length: LOG_TICKS }, (_, i) => Number((min * Math.exp(step * i)).toPrecision(2)))));
+};
+
+const CustomTooltip = ({ active, payload, label, movements = [], thresholdPercent, currency }: any) => {
   if (active && payload && payload.length) {
+    const point: PricePoint = payload[0].payload;
+    const swing: MovementEvent | undefined = thresholdPercent ? swingAt(movements, point.date) : undefined;
+    const swingThreshold = swing?.thresholdPercent ?? thresholdPercent;
+    const swingChange = swing ? ((point.price - swing.startPrice) / swing.startPrice) * 100 : 0;
+    const progress = swing ? ((swing.type === MovementType.UP ? swingChange : -swingChange) / swingThreshold) * 100 : 0;
     return (
       <div className="bg-slate-900 border border-slate-700 p-3 rounded-xl shadow-2xl ring-1 ring-slate-800">
         <p className="text-slate-500 text-[10px] mb-1 font-black uppercase tracking-widest">{label}</p>
         <p className="text-white text-lg font-black">
-          ${payload[0].value.toLocaleString()}
+          {formatPrice(point.price, currency)}
         </p>
+        {point.high !== undefined && point.low !== undefined && (
+          <p className="text-slate-400 text-[10px] font-bold mt-1">
+            O {point.open !== undefined ? formatPrice(point.open, currency) : '-'} · H {formatPrice(point.high, currency)} · L {formatPrice(point.low, currency)}
+          </p>
+        )}
+        {point.volume !== undefined && (
+          <p className="text-slate-500 text-[10px] font-bold">Vol {formatVolume(point.volume)}</p>
+        )}
+        {payload[0].payload.equity !== undefined && (
+          <p className="text-amber-400 text-[10px] font-bold">Equity {formatPrice(payload[0].payload.equity, currency)}</p>
+        )}
+        {swing && (
+          <p className="text-[10px] font-bold mt-1" style={{ color: SWING_COLORS[swing.type] }}>
+            {swing.type} swing {swingChange >= 0 ? '+' : ''}{swingChange.toFixed(2)}% • {Math.round(progress)}% of {Number(swingThreshold.toFixed(2))}%
+          </p>
+        )}
+        {(payload[0].payload.events as ResearchEvent[] | undefined)?.map((event, idx) => (
+          <p key={idx} className="text-[10px] font-bold mt-1 max-w-[220px]" style={{ color: CATEGORY_COLORS[event.category] }}>
+            {CATEGORY_LABELS[event.category]}: {event.title}
+          </p>
+        ))}
       </div>
     );
   }
   return null;
 };
 
-const PriceChart: React.FC<PriceChartProps> = ({ data, movements }) => {
-  // Format data for X-Axis labels (monthly)
+// Drawn over a [low, high] range bar: the bar spans the wick, the body is scaled from it
+const Candle = (props: any) => {
+  const { x, y, width, height, payload } = props;
+  const { open, price: close, high, low } = payload as PricePoint;
+  if (open === undefined || high === undefined || low === undefined) return null;
+
+  const top = Math.min(y, y + height);
+  const span = Math.abs(height);
+  const scale = high > low ? span / (high - low) : 0;
+  const bodyTop = top + (high - Math.max(open, close)) * scale;
+  const bodyHeight = Math.max(1, Math.abs(open - close) * scale);
+  const color = close >= open ? '#10b981' : '#f43f5e';
+  const center = x + width / 2;
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={top} y2={top + span} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={bodyTop} width={Math.max(1, width * 0.7)} height={bodyHeight} fill={color} />
+    </g>
+  );
+};
+
+const PriceChart: React.FC<PriceChartProps> = ({
+  data,
+  movements,
+  mode = SwingMode.THRESHOLD,
+  view = 'AREA',
+  scale = 'LINEAR',
+  currency = QuoteCurrency.USD,
+  equity,
+  events = [],
+  indicators,
+  overlays = [],
+  panels = [],
+  thresholdPercent,
+  thresholds,
+  range = null,
+  onRangeChange,
+  activeSwing = null,
+  onSwingHover,
+  onSwingSelect
+}) => {
+  const showCandles = view === 'CANDLES' && hasOHLC(data);
+  const showVolume = data.some(d => d.volume !== undefined);
+
+  // The brush works on indexes; the range is kept as dates so it survives a re-render with new data
+  const startIndex = range ? Math.max(0, data.findIndex(d => d.date >= range.startDate)) : 0;
+  const lastInRange = range ? data.map(d => d.date <= range.endDate).lastIndexOf(true) : -1;
+  const endIndex = range && lastInRange >= startIndex ? lastInRange : data.length - 1;
+  const visibleStart = data[startIndex]?.date ?? '';
+  const visibleEnd = data[endIndex]?.date ?? '';
+
+  const handleBrushChange = ({ startIndex: start, endIndex: end }: { startIndex?: number; endIndex?: number }) => {
+    if (!onRangeChange || start === undefined || end === undefined) return;
+    onRangeChange(start === 0 && end === data.length - 1 ? null : { startDate: data[start].date, endDate: data[end].date });
+  };
+
+  // Bands are clipped to the visible window, since dates outside it have no X position
+  const bands = movements
+    .map((move, index) => ({ move, index }))
+    .filter(({ move }) => move.endDate >= visibleStart && move.startDate <= visibleEnd);
+
+  // The X axis is categorical, so each event snaps to the first trading date on or after it
+  const eventsByDate = useMemo(() => {
+    const dates = data.map(d => d.date);
+    const markers = new Map<string, ResearchEvent[]>();
+    events.forEach(event => {
+      const date = dates.find(d => d >= event.date);
+      if (date) markers.set(date, [...(markers.get(date) ?? []), event]);
+    });
+    return markers;
+  }, [data, events]);
+  const eventMarkers = Array.from(eventsByDate.entries());
+
+  /**
+   * Price levels that would trigger the next swing. In threshold mode they sit
+   * around the base the next swing is measured from (the end of the last swing);
+   * ZigZag reversals run from a moving extreme, so there they sit around the close.
+   */
+  const envelope = useMemo(() => {
+    if (!thresholds) return null;
+    let next = 0;
+    let base = data[0]?.price ?? 0;
+    return data.map((point, i) => {
+      const center = mode === SwingMode.ZIGZAG ? point.price : base;
+      const levels = { upper: center * (1 + thresholds[i] / 100), lower: center * (1 - thresholds[i] / 100) };
+      while (next < movements.length && movements[next].endDate <= point.date) base = movements[next++].endPrice;
+      return levels;
+    });
+  }, [data, movements, mode, thresholds]);
+
+  // Equity and events are joined by date, indicators and envelope by index, so they share the price X axis and tooltip
+  const chartData = useMemo(() => {
+    if (!equity && eventsByDate.size === 0 && !indicators && !envelope) return data;
+    const equityByDate = new Map((equity ?? []).map(point => [point.date, point.equity]));
+    return data.map((point, i) => ({
+      ...point,
+      equity: equityByDate.get(point.date),
+      events: eventsByDate.get(point.date),
+      ...(indicators && {
+        ema20: indicators.ema20[i],
+        sma50: indicators.sma50[i],
+        sma200: indicators.sma200[i],
+        bollingerUpper: indicators.bollingerUpper[i],
+        bollingerLower: indicators.bollingerLower[i],
+        rsi: indicators.rsi[i],
+        atrPct: indicators.atrPct[i],
+        realizedVol: indicators.realizedVol[i]
+      }),
+      ...(envelope && { envelopeUpper: envelope[i].upper, envelopeLower: envelope[i].lower })
+    }));
+  }, [data, equity, eventsByDate, indicators, envelope]);
+  const showOverlay = (overlay: IndicatorOverlay) => Boolean(indicators) && overlays.includes(overlay);
+
+  // A log axis needs a positive domain and its own ticks; the area fills down to the lowest visible price
+  const logScale = scale === 'LOG';
+  const priceTicks = useMemo(() => {
+    if (!logScale) return undefined;
+    const visible = data.slice(startIndex, endIndex + 1);
+    const lows = visible.map(d => d.low ?? d.price).filter(v => v > 0);
+    const highs = visible.map(d => d.high ?? d.price).filter(v => v > 0);
+    return lows.length > 0 ? logTicks(Math.min(...lows), Math.max(...highs)) : undefined;
+  }, [data, logScale, startIndex, endIndex]);
+
+  // Format data for X-Axis labels: monthly within a year, month + year across years
+  const spansYears = data.length > 0 && data[0].date.slice(0, 4) !== data[data.length - 1].date.slice(0, 4);
   const formatXAxis = (tickItem: string) => {
     const date = new Date(tickItem);
-    return date.toLocaleString('default', { month: 'short' });
+    return spansYears
+      ? date.toLocaleString('default', { month: 'short', year: '2-digit', timeZone: 'UTC' })
+      : date.toLocaleString('default', { month: 'short', timeZone: 'UTC' });
   };
 
   return (
-    <ResponsiveContainer width="100%" height="100%">
-      <AreaChart
-        data={data}
-        margin={{ top: 20, right: 30, left: 10, bottom: 10 }}
-      >
-        <defs>
-          <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-            <stop offset="5%" stopColor="#6366f1" stopOpacity={0.4}/>
-            <stop offset="95%" stopColor="#6366f1" stopOpacity={0}/>
-          </linearGradient>
-        </defs>
-        <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#1e293b" />
-        <XAxis 
-          dataKey="date" 
-          tickFormatter={formatXAxis} 
-          stroke="#475569" 
-          fontSize={10}
-          fontWeight="bold"
-          minTickGap={60}
-          interval="preserveStart"
-        />
-        <YAxis 
-          stroke="#475569" 
-          fontSize={10} 
-          fontWeight="bold"
-          tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
-          domain={['auto', 'auto']}
-          tickLine={false}
-          axisLine={false}
-        />
-        <Tooltip content={<CustomTooltip />} />
-        <Area 
-          type="monotone" 
-          dataKey="price" 
-          stroke="#6366f1" 
-          strokeWidth={3}
-          fillOpacity={1} 
-          fill="url(#colorPrice)" 
-          dot={false}
-          activeDot={{ r: 6, fill: '#818cf8', stroke: '#fff', strokeWidth: 2 }}
-          isAnimationActive={true}
-        />
+    <div className="flex flex-col h-full">
+      <div className="flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart
+            data={chartData}
+            syncId="price-chart"
+            margin={{ top: 20, right: 30, left: 10, bottom: 10 }}
+          >
+            <defs>
+              <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#6366f1" stopOpacity={0.4}/>
+                <stop offset="95%" stopColor="#6366f1" stopOpacity={0}/>
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#1e293b" />
+            <XAxis 
+              dataKey="date" 
+              tickFormatter={formatXAxis} 
+              stroke="#475569" 
+              fontSize={10}
+              fontWeight="bold"
+              minTickGap={60}
+              interval="preserveStart"
+            />
+            <YAxis 
+              stroke="#475569" 
+              fontSize={10} 
+              fontWeight="bold"
+              tickFormatter={(value) => formatPrice(value, currency, true)}
+              scale={logScale ? 'log' : 'auto'}
+              domain={logScale ? ['dataMin', 'dataMax'] : ['auto', 'auto']}
+              ticks={priceTicks}
+              allowDataOverflow={logScale}
+              width={70}
+              tickLine={false}
+              axisLine={false}
+            />
+            {equity && (
+              <YAxis
+                yAxisId="equity"
+                orientation="right"
+                stroke="#f59e0b"
+                fontSize={10}
+                fontWeight="bold"
+                tickFormatter={(value) => formatPrice(value, currency, true)}
+                domain={['auto', 'auto']}
+                tickLine={false}
+                axisLine={false}
+              />
+            )}
+            <Tooltip content={<CustomTooltip movements={movements} thresholdPercent={thresholdPercent} currency={currency} />} />
+
+            {/* Swing bands */}
+            {bands.map(({ move, index }) => (
+              <React.Fragment key={`band-${index}`}>
+                <ReferenceArea
+                  x1={move.startDate < visibleStart ? visibleStart : move.startDate}
+                  x2={move.endDate > visibleEnd ? visibleEnd : move.endDate}
+                  shape={(props: any) => (
+                    <rect
+                      x={props.x}
+                      y={props.y}
+                      width={Math.max(1, props.width)}
+                      height={props.height}
+                      fill={SWING_COLORS[move.type]}
+                      fillOpacity={activeSwing === index ? 0.25 : 0.07}
+                      stroke={activeSwing === index ? SWING_COLORS[move.type] : 'none'}
+                      strokeOpacity={0.6}
+                      onMouseEnter={() => onSwingHover?.(index)}
+                      onMouseLeave={() => onSwingHover?.(null)}
+                      onClick={() => onSwingSelect?.(index)}
+                      style={{ cursor: onSwingSelect ? 'pointer' : undefined }}
+                    />
+                  )}
+                />
+              </React.Fragment>
+            ))}
+
+            {showCandles ? (
+              <Bar
+                dataKey={(d: PricePoint) => [d.low, d.high]}
+                shape={<Candle />}
+                isAnimationActive={false}
+              />
+            ) : (
+              <Area 
+                type="monotone" 
+                dataKey="price" 
+                stroke="#6366f1" 
+                strokeWidth={3}
+                fillOpacity={1} 
+                fill="url(#colorPrice)" 
+                baseValue={logScale ? 'dataMin' : undefined}
+                dot={false}
+                activeDot={{ r: 6, fill: '#818cf8', stroke: '#fff', strokeWidth: 2 }}
+                isAnimationActive={true}
+              />
+            )}
+
+            {/* Indicator overlays */}
+            {(['EMA20', 'SMA50', 'SMA200'] as IndicatorOverlay[]).filter(showOverlay).map(overlay => (
+              <Line
+                key={overlay}
+                type="monotone"
+                dataKey={overlay.toLowerCase()}
+                stroke={INDICATOR_OVERLAYS[overlay].color}
+                strokeWidth={1.5}
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            ))}
+            {showOverlay('BOLLINGER') && ['bollingerUpper', 'bollingerLower'].map(key => (
+              <Line
+                key={key}
+                type="monotone"
+                dataKey={key}
+                stroke={INDICATOR_OVERLAYS.BOLLINGER.color}
+                strokeWidth={1}
+                strokeDasharray="4 3"
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            ))}
+
+            {/* Threshold envelope */}
+            {envelope && ['envelopeUpper', 'envelopeLower'].map(key => (
+              <Line
+                key={key}
+                type="stepAfter"
+                dataKey={key}
+                stroke="#818cf8"
+                strokeOpacity={0.6}
+                strokeWidth={1}
+                strokeDasharray="2 3"
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            ))}
+
+            {/* Backtest equity curve */}
+            {equity && (
+              <Line
+                yAxisId="equity"
+                type="monotone"
+                dataKey="equity"
+                stroke="#f59e0b"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            )}
+
+            {/* Researched event markers */}
+            {eventMarkers.map(([date, dayEvents]) => (
+              <ReferenceLine
+                key={`event-${date}`}
+                x={date}
+                stroke={CATEGORY_COLORS[dayEvents[0].category]}
+                strokeDasharray="2 4"
+                strokeOpacity={0.7}
+                label={{
+                  value: '◆',
+                  position: 'insideTop',
+                  fill: CATEGORY_COLORS[dayEvents[0].category],
+                  fontSize: 10
+                }}
+              />
+            ))}
+
+            {/* ZigZag legs between pivots */}
+            {mode === SwingMode.ZIGZAG && movements.map((move, index) => (
+              <ReferenceLine
+                key={`leg-${index}`}
+                segment={[{ x: move.startDate, y: move.startPrice }, { x: move.endDate, y: move.endPrice }]}
+                stroke={SWING_COLORS[move.type]}
+                strokeWidth={2}
+                strokeDasharray={move.confirmationDate ? undefined : "6 4"}
+                ifOverflow="extendDomain"
+              />
+            ))}
         
-        {/* Completion points */}
-        {movements.map((move, index) => (
-          <ReferenceDot
-            key={`move-${index}`}
-            x={move.endDate}
-            y={move.endPrice}
-            r={6}
-            fill={move.type === MovementType.UP ? "#10b981" : "#f43f5e"}
-            stroke="#020617"
-            strokeWidth={2}
-          />
-        ))}
+            {/* Completion points */}
+            {movements.map((move, index) => (
+              <ReferenceDot
+                key={`move-${index}`}
+                x={move.endDate}
+                y={move.endPrice}
+                r={6}
+                fill={SWING_COLORS[move.type]}
+                stroke="#020617"
+                strokeWidth={2}
+              />
+            ))}
 
-        {/* Start point */}
-        {movements.length > 0 && (
-          <ReferenceDot
-            x={movements[0].startDate}
-            y={movements[0].startPrice}
-            r={5}
-            fill="#94a3b8"
-            stroke="#020617"
-            strokeWidth={2}
-          />
-        )}
-      </AreaChart>
-    </ResponsiveContainer>
+            {data.length > 1 && (
+              <Brush
+                dataKey="date"
+                height={24}
+                startIndex={startIndex}
+                endIndex={endIndex}
+                onChange={handleBrushChange}
+                tickFormatter={formatXAxis}
+                stroke="#6366f1"
+                fill="#0f172a"
+                travellerWidth={8}
+              />
+            )}
+
+            {/* Start point */}
+            {movements.length > 0 && (
+              <ReferenceDot
+                x={movements[0].startDate}
+                y={movements[0].startPrice}
+                r={5}
+                fill="#94a3b8"
+                stroke="#020617"
+                strokeWidth={2}
+              />
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Indicator sub-panels */}
+      {indicators && panels.map(panel => {
+        const config = INDICATOR_PANELS[panel];
+        return (
+          <div key={panel} className="h-[80px] shrink-0 relative">
+            <span className="absolute left-[84px] top-0 z-10 text-[9px] font-black uppercase tracking-widest" style={{ color: config.color }}>
+              {config.label}
+            </span>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} syncId="price-chart" margin={{ top: 4, right: 30, left: 10, bottom: 0 }}>
+                <XAxis dataKey="date" hide />
+                <YAxis
+                  stroke="#475569"
+                  fontSize={9}
+                  fontWeight="bold"
+                  domain={config.domain}
+                  tickFormatter={config.format}
+                  tickLine={false}
+                  axisLine={false}
+                  tickCount={3}
+                  width={70}
+                />
+                <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#1e293b" />
+                <Tooltip content={() => null} />
+                {config.guides.map(y => (
+                  <ReferenceLine key={y} y={y} stroke="#475569" strokeDasharray="3 3" />
+                ))}
+                <Line
+                  type="monotone"
+                  dataKey={config.dataKey}
+                  stroke={config.color}
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        );
+      })}
+
+      {/* Volume sub-panel */}
+      {showVolume && (
+        <div className="h-[70px] shrink-0">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data} syncId="price-chart" margin={{ top: 0, right: 30, left: 10, bottom: 0 }}>
+              <XAxis dataKey="date" hide />
+              <YAxis
+                stroke="#475569"
+                fontSize={9}
+                fontWeight="bold"
+                tickFormatter={formatVolume}
+                tickLine={false}
+                axisLine={false}
+                tickCount={2}
+                width={70}
+              />
+              <Tooltip content={() => null} cursor={{ fill: '#1e293b' }} />
+              <Bar dataKey="volume" isAnimationActive={false}>
+                {data.map((d, index) => (
+                  <Cell
+                    key={`vol-${index}`}
+                    fill={d.price >= (d.open ?? data[index - 1]?.price ?? d.price) ? '#10b98166' : '#f43f5e66'}
+                  />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
   );
 };
 
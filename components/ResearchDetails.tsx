@@ -0,0 +1,95 @@
+
+import React from 'react';
+import { Zap, ExternalLink } from 'lucide-react';
+import { ConfidenceLevel, EventCategory, MovementResearch } from '../types';
+
+export const CATEGORY_LABELS: Record<EventCategory, string> = {
+  [EventCategory.MACRO]: 'Macro',
+  [EventCategory.REGULATORY]: 'Regulatory',
+  [EventCategory.HACK]: 'Hack',
+  [EventCategory.ETF_FLOWS]: 'ETF Flows',
+  [EventCategory.ON_CHAIN]: 'On-Chain',
+  [EventCategory.OTHER]: 'Other'
+};
+
+export const CATEGORY_COLORS: Record<EventCategory, string> = {
+  [EventCategory.MACRO]: '#818cf8',
+  [EventCategory.REGULATORY]: '#f59e0b',
+  [EventCategory.HACK]: '#f43f5e',
+  [EventCategory.ETF_FLOWS]: '#10b981',
+  [EventCategory.ON_CHAIN]: '#22d3ee',
+  [EventCategory.OTHER]: '#94a3b8'
+};
+
+const CONFIDENCE_STYLES: Record<ConfidenceLevel, string> = {
+  HIGH: 'text-emerald-400 border-emerald-500/30',
+  MEDIUM: 'text-yellow-400 border-yellow-500/30',
+  LOW: 'text-slate-400 border-slate-600'
+};
+
+const hostname = (url: string, fallback: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return fallback;
+  }
+};
+
+interface ResearchDetailsProps {
+  research: MovementResearch;
+}
+
+const ResearchDetails: React.FC<ResearchDetailsProps> = ({ research }) => (
+  <div className="space-y-3 animate-in fade-in slide-in-from-bottom-2 duration-700">
+    <div className="flex flex-wrap items-center gap-1.5">
+      {research.categories.map(category => (
+        <span
+          key={category}
+          className="px-2 py-0.5 rounded-full text-[9px] font-black uppercase tracking-widest border"
+          style={{ color: CATEGORY_COLORS[category], borderColor: `${CATEGORY_COLORS[category]}55` }}
+        >
+          {CATEGORY_LABELS[category]}
+        </span>
+      ))}
+      <span className={`ml-auto px-2 py-0.5 rounded-full text-[9px] font-black uppercase tracking-widest border ${CONFIDENCE_STYLES[research.confidence]}`}>
+        {research.confidence} confidence
+      </span>
+    </div>
+
+    <div className="flex items-start gap-2">
+      <Zap size={12} className="text-yellow-500 mt-1 shrink-0" />
+      <p className="text-[11px] leading-relaxed text-slate-400 font-medium italic">{research.summary}</p>
+    </div>
+
+    {research.events.length > 0 && (
+      <ul className="space-y-1">
+        {research.events.map((event, idx) => (
+          <li key={idx} className="flex items-start gap-2 text-[10px] leading-snug">
+            <span className="font-black shrink-0" style={{ color: CATEGORY_COLORS[event.category] }}>{event.date}</span>
+            <span className="text-slate-300 font-medium">{event.title}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+
+    {research.sources.length > 0 && (
+      <div className="flex flex-wrap gap-1.5">
+        {research.sources.map(source => (
+          <a
+            key={source.url}
+            href={source.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-slate-800/70 text-[9px] font-bold text-slate-400 hover:text-indigo-300"
+            title={source.title}
+          >
+            <ExternalLink size={9} />
+            {source.title.length < 40 ? source.title : hostname(source.url, source.title.slice(0, 37) + '...')}
+          </a>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default ResearchDetails;
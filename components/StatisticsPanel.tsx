@@ -0,0 +1,221 @@
+
+import React, { useMemo } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { AnalysisResult, MovementType } from '../types';
+import { computeSwingStatistics, DistributionSummary, HistogramBin } from '../services/swingStatistics';
+import { describeThreshold } from '../services/analysisEngine';
+
+interface StatisticsPanelProps {
+  result: AnalysisResult;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const DIRECTION_COLORS: Record<MovementType, string> = {
+  [MovementType.UP]: '#10b981',
+  [MovementType.DOWN]: '#f43f5e'
+};
+
+const HistogramTooltip = ({ active, payload }: any) => {
+  if (active && payload && payload.length) {
+    const bin: HistogramBin = payload[0].payload;
+    return (
+      <div className="bg-slate-900 border border-slate-700 p-3 rounded-xl shadow-2xl ring-1 ring-slate-800 text-xs font-bold">
+        <p className="text-slate-500 text-[10px] mb-1 font-black uppercase tracking-widest">{bin.label}</p>
+        <p className="text-emerald-400">Up {bin.up}</p>
+        <p className="text-rose-400">Down {bin.down}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+const BOX_WIDTH = 300;
+const BOX_ROW = 28;
+const BOX_LABEL = 44;
+
+// Min-max whiskers, interquartile box and median tick per direction, on a shared scale
+const BoxPlot: React.FC<{ summaries: Record<MovementType, DistributionSummary>; format: (value: number) => string }> = ({ summaries, format }) => {
+  const types = [MovementType.UP, MovementType.DOWN].filter(type => summaries[type].count > 0);
+  const max = Math.max(...types.map(type => summaries[type].max), 0);
+  const scale = (value: number) => BOX_LABEL + (max > 0 ? (value / max) * (BOX_WIDTH - BOX_LABEL - 8) : 0);
+
+  if (types.length === 0) return null;
+  return (
+    <svg viewBox={`0 0 ${BOX_WIDTH} ${types.length * BOX_ROW + 14}`} className="w-full">
+      {types.map((type, row) => {
+        const s = summaries[type];
+        const y = row * BOX_ROW + BOX_ROW / 2;
+        const color = DIRECTION_COLORS[type];
+        return (
+          <g key={type}>
+            <text x={0} y={y + 4} fill={color} fontSize={10} fontWeight={900}>{type}</text>
+            <line x1={scale(s.min)} x2={scale(s.max)} y1={y} y2={y} stroke={color} strokeOpacity={0.6} />
+            <line x1={scale(s.min)} x2={scale(s.min)} y1={y - 5} y2={y + 5} stroke={color} />
+            <line x1={scale(s.max)} x2={scale(s.max)} y1={y - 5} y2={y + 5} stroke={color} />
+            <rect
+              x={scale(s.q1)}
+              y={y - 8}
+              width={Math.max(1, scale(s.q3) - scale(s.q1))}
+              height={16}
+              fill={color}
+              fillOpacity={0.2}
+              stroke={color}
+            />
+            <line x1={scale(s.median)} x2={scale(s.median)} y1={y - 8} y2={y + 8} stroke="#fff" strokeWidth={2} />
+          </g>
+        );
+      })}
+      <text x={BOX_LABEL} y={types.length * BOX_ROW + 12} fill="#64748b" fontSize={9} fontWeight={700}>{format(0)}</text>
+      <text x={BOX_WIDTH - 8} y={types.length * BOX_ROW + 12} fill="#64748b" fontSize={9} fontWeight={700} textAnchor="end">{format(max)}</text>
+    </svg>
+  );
+};
+
+const DistributionCard: React.FC<{
+  title: string;
+  bins: HistogramBin[];
+  summaries: Record<MovementType, DistributionSummary>;
+  format: (value: number) => string;
+}> = ({ title, bins, summaries, format }) => (
+  <div className="bg-slate-800/30 border border-slate-800 p-6 rounded-2xl space-y-4">
+    <h3 className="text-sm font-black text-white uppercase tracking-widest">{title}</h3>
+    <div className="h-[200px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={bins} margin={{ top: 5, right: 5, left: -20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#1e293b" />
+          <XAxis dataKey="label" stroke="#475569" fontSize={9} fontWeight="bold" interval="preserveStartEnd" />
+          <YAxis stroke="#475569" fontSize={10} fontWeight="bold" tickLine={false} axisLine={false} allowDecimals={false} />
+          <Tooltip content={<HistogramTooltip />} cursor={{ fill: '#1e293b' }} />
+          <Bar dataKey="up" name="Up" fill={DIRECTION_COLORS[MovementType.UP]} />
+          <Bar dataKey="down" name="Down" fill={DIRECTION_COLORS[MovementType.DOWN]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+    <BoxPlot summaries={summaries} format={format} />
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-slate-500 text-[10px] font-black uppercase tracking-widest text-left">
+          <th className="pb-1"></th>
+          <th className="pb-1 text-right">Median</th>
+          <th className="pb-1 text-right">P90</th>
+          <th className="pb-1 text-right">Mean</th>
+          <th className="pb-1 text-right">Max</th>
+        </tr>
+      </thead>
+      <tbody>
+        {[MovementType.UP, MovementType.DOWN].map(type => (
+          <tr key={type} className="border-t border-slate-800">
+            <td className="py-1.5 font-black" style={{ color: DIRECTION_COLORS[type] }}>{type} ({summaries[type].count})</td>
+            <td className="py-1.5 text-right font-bold text-slate-300">{format(summaries[type].median)}</td>
+            <td className="py-1.5 text-right font-bold text-slate-300">{format(summaries[type].p90)}</td>
+            <td className="py-1.5 text-right font-bold text-slate-300">{format(summaries[type].mean)}</td>
+            <td className="py-1.5 text-right font-bold text-slate-300">{format(summaries[type].max)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const formatDays = (value: number) => `${value.toFixed(1)}d`;
+const formatOvershoot = (value: number) => `${value.toFixed(1)}%`;
+
+const StatisticsPanel: React.FC<StatisticsPanelProps> = ({ result }) => {
+  const stats = useMemo(
+    () => computeSwingStatistics(result.movements, result.targetPercentage, result.startDate, result.endDate),
+    [result]
+  );
+  const years = Array.from(new Set(stats.months.map(cell => cell.year)));
+  // Across several years an extra row sums each calendar month
+  const rows = years.length > 1
+    ? [...years.map(year => ({ label: String(year), cells: stats.months.filter(cell => cell.year === year) })),
+       { label: 'All', cells: MONTHS.map((_, month) => stats.months.filter(cell => cell.month === month).reduce(
+         (acc, cell) => ({ ...acc, up: acc.up + cell.up, down: acc.down + cell.down }),
+         { year: 0, month, up: 0, down: 0 }
+       )) }]
+    : years.map(year => ({ label: String(year), cells: stats.months }));
+  const busiest = Math.max(1, ...rows.flatMap(row => row.cells.map(cell => cell.up + cell.down)));
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 p-8 rounded-3xl shadow-2xl space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">Swing Statistics</h2>
+        <p className="text-slate-500 text-sm mt-1">How long swings take and how far they run past the {describeThreshold(result.targetPercentage, result.adaptive)} threshold.</p>
+      </div>
+
+      {result.movements.length === 0 ? (
+        <p className="text-slate-500 text-sm">No swings to summarize.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <DistributionCard title="Duration" bins={stats.durationHistogram} summaries={stats.duration} format={formatDays} />
+            <DistributionCard title="Overshoot" bins={stats.overshootHistogram} summaries={stats.overshoot} format={formatOvershoot} />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="space-y-4">
+              {[MovementType.UP, MovementType.DOWN].map(type => {
+                const streak = stats.longestStreaks[type];
+                return (
+                  <div key={type} className="bg-slate-800/30 border border-slate-800 p-4 rounded-2xl">
+                    <p className="text-slate-500 text-[10px] font-bold uppercase tracking-widest mb-1">Longest {type} streak</p>
+                    <p className="text-xl font-bold" style={{ color: DIRECTION_COLORS[type] }}>
+                      {streak ? `${streak.length} ${streak.length === 1 ? 'swing' : 'swings'}` : '—'}
+                    </p>
+                    {streak && <p className="text-[10px] text-slate-500 font-bold mt-1">{streak.startDate} → {streak.endDate}</p>}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="lg:col-span-2 bg-slate-800/30 border border-slate-800 p-4 rounded-2xl overflow-x-auto">
+              <p className="text-slate-500 text-[10px] font-bold uppercase tracking-widest mb-3">Swings by month (end date)</p>
+              <table className="w-full text-[10px]">
+                <thead>
+                  <tr className="text-slate-500 font-black uppercase">
+                    <th className="pb-1"></th>
+                    {MONTHS.map(month => <th key={month} className="pb-1 font-black">{month}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.label}>
+                      <td className="pr-2 py-0.5 text-slate-500 font-black">{row.label}</td>
+                      {row.cells.map(cell => {
+                        const total = cell.up + cell.down;
+                        const color = cell.up >= cell.down ? DIRECTION_COLORS[MovementType.UP] : DIRECTION_COLORS[MovementType.DOWN];
+                        const alpha = Math.round((0.15 + 0.85 * (total / busiest)) * 255).toString(16).padStart(2, '0');
+                        return (
+                          <td key={cell.month} className="p-0.5">
+                            <div
+                              className="h-7 rounded-md flex items-center justify-center font-black text-white"
+                              style={{ backgroundColor: total > 0 ? `${color}${alpha}` : '#1e293b' }}
+                              title={`${MONTHS[cell.month]} ${row.label}: ${cell.up} up, ${cell.down} down`}
+                            >
+                              {total > 0 ? total : ''}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StatisticsPanel;
@@ -0,0 +1,160 @@
+
+import React, { useState } from 'react';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend
+} from 'recharts';
+import { SlidersHorizontal, Play } from 'lucide-react';
+import { AnalysisResult } from '../types';
+import { runThresholdSweep, SweepRange, SweepRow } from '../services/thresholdSweep';
+import { describeThreshold } from '../services/analysisEngine';
+
+interface ThresholdSweepProps {
+  result: AnalysisResult;
+  onApplyThreshold?: (thresholdPercent: number) => void;
+}
+
+const SweepTooltip = ({ active, payload, label }: any) => {
+  if (active && payload && payload.length) {
+    const row: SweepRow = payload[0].payload;
+    return (
+      <div className="bg-slate-900 border border-slate-700 p-3 rounded-xl shadow-2xl ring-1 ring-slate-800 text-xs font-bold">
+        <p className="text-slate-500 text-[10px] mb-1 font-black uppercase tracking-widest">{label}% threshold</p>
+        <p className="text-emerald-400">Up {row.upCount}</p>
+        <p className="text-rose-400">Down {row.downCount}</p>
+        <p className="text-slate-300">Avg {row.avgDays.toFixed(1)}d • Median {row.medianDays.toFixed(1)}d</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+const ThresholdSweep: React.FC<ThresholdSweepProps> = ({ result, onApplyThreshold }) => {
+  const [range, setRange] = useState<SweepRange>({ from: 2, to: 30, step: 1 });
+  const [rows, setRows] = useState<SweepRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const runSweep = () => {
+    try {
+      setRows(runThresholdSweep(result.data, range, { mode: result.mode, trigger: result.trigger }));
+      setError(null);
+    } catch (err: any) {
+      setRows(null);
+      setError(err.message || "Sweep failed.");
+    }
+  };
+
+  const updateRange = (key: keyof SweepRange) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setRange(prev => ({ ...prev, [key]: parseFloat(e.target.value) }));
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 p-8 rounded-3xl shadow-2xl">
+      <div className="flex flex-col md:flex-row md:items-center justify-between mb-6 gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Threshold Sensitivity</h2>
+          <p className="text-slate-500 text-sm mt-1">Re-runs detection on the loaded data for every threshold. No extra API calls.</p>
+          {result.adaptive && (
+            <p className="text-slate-500 text-sm">
+              Sweeps fixed percentages, for comparison with the adaptive {describeThreshold(result.targetPercentage, result.adaptive)} threshold ({result.movements.length} swings).
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2 no-print">
+          <div className="flex items-center gap-2 bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl">
+            <SlidersHorizontal size={14} className="text-slate-400" />
+            {(['from', 'to', 'step'] as (keyof SweepRange)[]).map(key => (
+              <label key={key} className="flex items-center gap-1 text-[10px] text-slate-500 font-bold uppercase">
+                {key}
+                <input
+                  type="number"
+                  value={range[key]}
+                  min={key === 'step' ? 0.1 : 0.5}
+                  step={key === 'step' ? 0.5 : 1}
+                  onChange={updateRange(key)}
+                  className="bg-transparent border-none focus:outline-none w-12 text-white font-medium text-sm"
+                />
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={runSweep}
+            className="bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded-xl font-bold text-sm flex items-center gap-2"
+          >
+            <Play size={14} /> Sweep
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-rose-400 text-sm font-bold mb-4">{error}</p>}
+
+      {rows && (
+        <div className="space-y-6">
+          <div className="h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={rows} margin={{ top: 10, right: 30, left: 10, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#1e293b" />
+                <XAxis dataKey="thresholdPercent" stroke="#475569" fontSize={10} fontWeight="bold" tickFormatter={(v) => `${v}%`} />
+                <YAxis yAxisId="count" stroke="#475569" fontSize={10} fontWeight="bold" tickLine={false} axisLine={false} allowDecimals={false} />
+                <YAxis yAxisId="days" orientation="right" stroke="#475569" fontSize={10} fontWeight="bold" tickLine={false} axisLine={false} tickFormatter={(v) => `${v}d`} />
+                <Tooltip content={<SweepTooltip />} />
+                <Legend wrapperStyle={{ fontSize: 11, fontWeight: 700 }} />
+                <Bar yAxisId="count" dataKey="upCount" name="Up" stackId="swings" fill="#10b981" />
+                <Bar yAxisId="count" dataKey="downCount" name="Down" stackId="swings" fill="#f43f5e" />
+                <Line yAxisId="days" dataKey="medianDays" name="Median days" stroke="#f59e0b" strokeWidth={2} dot={false} />
+                <Line yAxisId="days" dataKey="avgDays" name="Avg days" stroke="#818cf8" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="max-h-[320px] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-slate-900">
+                <tr className="text-slate-500 text-[10px] font-black uppercase tracking-widest text-left">
+                  <th className="py-2 pr-4">Threshold</th>
+                  <th className="py-2 pr-4 text-right">Up</th>
+                  <th className="py-2 pr-4 text-right">Down</th>
+                  <th className="py-2 pr-4 text-right">Avg Days</th>
+                  <th className="py-2 pr-4 text-right">Median Days</th>
+                  {onApplyThreshold && <th className="py-2 no-print"></th>}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr
+                    key={row.thresholdPercent}
+                    className={`border-t border-slate-800 ${!result.adaptive && row.thresholdPercent === result.targetPercentage ? 'bg-indigo-500/10' : ''}`}
+                  >
+                    <td className="py-2 pr-4 font-black text-white">{row.thresholdPercent}%</td>
+                    <td className="py-2 pr-4 text-right font-bold text-emerald-400">{row.upCount}</td>
+                    <td className="py-2 pr-4 text-right font-bold text-rose-400">{row.downCount}</td>
+                    <td className="py-2 pr-4 text-right font-bold text-slate-300">{row.avgDays.toFixed(1)}</td>
+                    <td className="py-2 pr-4 text-right font-bold text-slate-300">{row.medianDays.toFixed(1)}</td>
+                    {onApplyThreshold && (
+                      <td className="py-2 text-right no-print">
+                        <button
+                          onClick={() => onApplyThreshold(row.thresholdPercent)}
+                          className="text-[10px] font-black uppercase tracking-widest text-indigo-400 hover:text-indigo-300"
+                        >
+                          Use
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThresholdSweep;
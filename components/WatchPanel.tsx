@@ -0,0 +1,290 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Play, Pause, Plus, Trash2, RefreshCw, Bell, BellRing, Loader2 } from 'lucide-react';
+import { MovementType } from '../types';
+import { createWatcher, DEFAULT_WATCH_INTERVAL_MS, WatchAlert, WatchEntry } from '../services/watch';
+import { createMockQuoteSource, createRestQuoteSource, geminiQuoteSource, QuoteSourceKind, QUOTE_SOURCE_LABELS } from '../services/quoteSources';
+import { notificationsGranted, notificationsSupported, requestNotificationPermission, showNotification } from '../services/notifications';
+import { formatPrice } from '../services/currency';
+
+interface WatchPanelProps {
+  open: boolean;
+  onClose: () => void;
+  historyUrl: string; // Candle endpoint of the REST price source, used to seed REST watches
+}
+
+const MAX_ALERTS = 20;
+
+const ProgressBar: React.FC<{ label: string; value: number; type: MovementType }> = ({ label, value, type }) => (
+  <div className="flex items-center gap-2">
+    <span className={`w-10 text-[10px] font-black uppercase ${type === MovementType.UP ? 'text-emerald-400' : 'text-rose-400'}`}>{label}</span>
+    <div className="flex-1 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+      <div
+        className={`h-full rounded-full ${type === MovementType.UP ? 'bg-emerald-500' : 'bg-rose-500'}`}
+        style={{ width: `${value}%` }}
+      />
+    </div>
+    <span className="w-9 text-right text-[10px] font-bold text-slate-400">{Math.round(value)}%</span>
+  </div>
+);
+
+/**
+ * Watchlist with periodic quote refresh. Stays mounted while closed so the
+ * watch keeps running in the background.
+ */
+const WatchPanel: React.FC<WatchPanelProps> = ({ open, onClose, historyUrl }) => {
+  const [sourceKind, setSourceKind] = useState<QuoteSourceKind>('GEMINI');
+  const [quoteUrl, setQuoteUrl] = useState<string>("http://localhost:8080/quote?symbol={ticker}");
+  const [intervalSec, setIntervalSec] = useState<number>(DEFAULT_WATCH_INTERVAL_MS / 1000);
+  const [entries, setEntries] = useState<WatchEntry[]>([]);
+  const [alerts, setAlerts] = useState<WatchAlert[]>([]);
+  const [running, setRunning] = useState<boolean>(false);
+  const [adding, setAdding] = useState<boolean>(false);
+  const [ticker, setTicker] = useState<string>("");
+  const [thresholdPercent, setThresholdPercent] = useState<number>(5);
+  const [alertPercent, setAlertPercent] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+  const [notifying, setNotifying] = useState<boolean>(notificationsGranted());
+
+  // Read on each seed rather than rebuilding the watcher, which would clear the watchlist
+  const historyUrlRef = useRef<string>(historyUrl);
+  historyUrlRef.current = historyUrl.trim();
+
+  // Entries are seeded from the source, so the inputs lock while anything is watched
+  const watcher = useMemo(() => createWatcher({
+    source: sourceKind === 'MOCK'
+      ? createMockQuoteSource()
+      : sourceKind === 'REST' ? createRestQuoteSource(quoteUrl.trim(), () => historyUrlRef.current) : geminiQuoteSource,
+    intervalMs: DEFAULT_WATCH_INTERVAL_MS,
+    onChange: setEntries,
+    onAlert: alert => {
+      setAlerts(prev => [alert, ...prev].slice(0, MAX_ALERTS));
+      showNotification(`${alert.ticker} ${alert.kind === 'CONFIRMED' ? 'swing confirmed' : 'alert'}`, alert.message, `${alert.ticker}-${alert.kind}`);
+    }
+  }), [sourceKind, quoteUrl]);
+
+  // A replaced watcher starts empty, e.g. after the quote source changed
+  useEffect(() => () => {
+    watcher.stop();
+    setEntries([]);
+    setRunning(false);
+  }, [watcher]);
+
+  useEffect(() => {
+    watcher.setIntervalMs(Math.max(5, intervalSec || 5) * 1000);
+  }, [watcher, intervalSec]);
+
+  const toggleRunning = () => {
+    if (watcher.isRunning()) watcher.stop();
+    else watcher.start();
+    setRunning(watcher.isRunning());
+  };
+
+  const handleAdd = async () => {
+    const symbol = ticker.trim().toUpperCase();
+    if (!symbol) return;
+    setAdding(true);
+    setError(null);
+    try {
+      if (!(thresholdPercent > 0)) throw new Error("Threshold must be a positive percentage.");
+      const alertAt = parseFloat(alertPercent);
+      await watcher.add({ ticker: symbol, thresholdPercent, alertPercent: alertAt > 0 ? alertAt : null });
+      setTicker("");
+    } catch (err: any) {
+      setError(err.message || "Could not add ticker.");
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const enableNotifications = async () => {
+    setNotifying(await requestNotificationPermission());
+  };
+
+  return (
+    <div
+      className={`fixed inset-0 z-[60] justify-end bg-black/60 backdrop-blur-sm no-print ${open ? 'flex' : 'hidden'}`}
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-xl h-full bg-slate-900 border-l border-slate-800 p-6 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-white">Watch Mode</h2>
+            <p className="text-slate-500 text-xs font-bold uppercase tracking-widest mt-1">
+              {entries.length} watched • {running ? `refreshing every ${intervalSec}s` : 'paused'}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {notificationsSupported() && (
+              <button
+                onClick={enableNotifications}
+                disabled={notifying}
+                className={`p-2 rounded-lg hover:bg-slate-800 ${notifying ? 'text-yellow-400' : 'text-slate-400 hover:text-white'}`}
+                title={notifying ? 'Browser notifications on' : 'Enable browser notifications'}
+              >
+                {notifying ? <BellRing size={16} /> : <Bell size={16} />}
+              </button>
+            )}
+            <button
+              onClick={() => watcher.refresh()}
+              disabled={entries.length === 0}
+              className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-40"
+              title="Refresh now"
+            >
+              <RefreshCw size={16} />
+            </button>
+            <button
+              onClick={toggleRunning}
+              disabled={entries.length === 0 && !running}
+              className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-40"
+              title={running ? 'Pause watch' : 'Start watch'}
+            >
+              {running ? <Pause size={16} /> : <Play size={16} />}
+            </button>
+            <button onClick={onClose} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title="Close">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-3 mb-4">
+          <div className="flex items-center gap-2">
+            <select
+              value={sourceKind}
+              onChange={(e) => setSourceKind(e.target.value as QuoteSourceKind)}
+              disabled={entries.length > 0}
+              title={entries.length > 0 ? 'Clear the watchlist to change the source' : 'Quote source'}
+              className="bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl text-sm text-white focus:outline-none disabled:opacity-50"
+            >
+              {(Object.keys(QUOTE_SOURCE_LABELS) as QuoteSourceKind[]).map(kind => (
+                <option key={kind} value={kind} className="bg-slate-900">{QUOTE_SOURCE_LABELS[kind]}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl text-[10px] text-slate-500 font-bold uppercase">
+              Every
+              <input
+                type="number"
+                min={5}
+                value={intervalSec}
+                onChange={(e) => setIntervalSec(parseInt(e.target.value) || 5)}
+                className="bg-transparent border-none focus:outline-none w-12 text-white font-medium text-sm"
+              />
+              s
+            </label>
+          </div>
+          {sourceKind === 'REST' && (
+            <input
+              type="text"
+              value={quoteUrl}
+              onChange={(e) => setQuoteUrl(e.target.value)}
+              disabled={entries.length > 0}
+              placeholder="https://host/quote?symbol={ticker}"
+              className="w-full bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl text-sm text-white focus:outline-none disabled:opacity-50"
+            />
+          )}
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={ticker}
+              onChange={(e) => setTicker(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              placeholder="Ticker"
+              className="flex-1 min-w-0 bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl text-sm text-white font-black uppercase focus:outline-none"
+            />
+            <label className="flex items-center gap-1 bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl text-[10px] text-slate-500 font-bold uppercase" title="Swing threshold">
+              Swing
+              <input
+                type="number"
+                min={0.5}
+                value={thresholdPercent}
+                onChange={(e) => setThresholdPercent(parseFloat(e.target.value))}
+                className="bg-transparent border-none focus:outline-none w-10 text-white font-medium text-sm"
+              />
+              %
+            </label>
+            <label className="flex items-center gap-1 bg-slate-800/50 border border-slate-700/50 px-3 py-2 rounded-xl text-[10px] text-slate-500 font-bold uppercase" title="Notify when the open swing moves this far (optional)">
+              Alert
+              <input
+                type="number"
+                min={0}
+                value={alertPercent}
+                onChange={(e) => setAlertPercent(e.target.value)}
+                placeholder="-"
+                className="bg-transparent border-none focus:outline-none w-10 text-white font-medium text-sm"
+              />
+              %
+            </label>
+            <button
+              onClick={handleAdd}
+              disabled={adding || !ticker.trim()}
+              className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white p-2.5 rounded-xl"
+              title="Add to watchlist"
+            >
+              {adding ? <Loader2 size={16} className="animate-spin" /> : <Plus size={16} />}
+            </button>
+          </div>
+          {error && <p className="text-xs text-rose-300 font-bold">{error}</p>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {entries.length === 0 && (
+            <p className="text-slate-500 text-sm text-center py-16">Add a ticker to watch its open swing.</p>
+          )}
+          {entries.map(entry => (
+            <div key={entry.ticker} className="bg-slate-800/30 border border-slate-800 rounded-2xl p-4 space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-white font-black">{entry.ticker}</p>
+                  <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                    {entry.thresholdPercent}% swings{entry.alertPercent !== null && ` • alert at ${entry.alertPercent}%`} • {entry.movements.length} this year
+                  </p>
+                </div>
+                <div className="flex items-start gap-3">
+                  {entry.open && (
+                    <div className="text-right">
+                      <p className="text-white font-black">{formatPrice(entry.open.price)}</p>
+                      <p className={`text-[10px] font-black ${entry.open.changePct >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                        {entry.open.changePct >= 0 ? '+' : ''}{entry.open.changePct.toFixed(2)}% since {entry.open.baseDate}
+                      </p>
+                    </div>
+                  )}
+                  <button onClick={() => watcher.remove(entry.ticker)} className="text-slate-500 hover:text-rose-400" title="Remove">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+              {entry.open && (
+                <div className="space-y-1.5">
+                  <ProgressBar label="Up" value={entry.open.upProgress} type={MovementType.UP} />
+                  <ProgressBar label="Down" value={entry.open.downProgress} type={MovementType.DOWN} />
+                </div>
+              )}
+              <p className="text-[10px] text-slate-600 font-bold">
+                {entry.error
+                  ? <span className="text-rose-300">{entry.error}</span>
+                  : entry.lastTick ? `Updated ${new Date(entry.lastTick.time).toLocaleTimeString()}` : 'Waiting for first quote'}
+              </p>
+            </div>
+          ))}
+
+          {alerts.length > 0 && (
+            <div className="pt-3">
+              <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest mb-2">Recent alerts</p>
+              {alerts.map((alert, idx) => (
+                <p key={idx} className="text-xs text-slate-400 py-1.5 border-t border-slate-800/60">
+                  <span className="text-slate-600 font-bold mr-2">{new Date(alert.time).toLocaleTimeString()}</span>
+                  {alert.message}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WatchPanel;
@@ -0,0 +1,221 @@
+
+import { describe, expect, it } from 'vitest';
+import { detectSwings, thresholdSeries } from './analysisEngine';
+import { BaseResetPolicy, MovementType, PricePoint, PriceTrigger, SwingMode, VolatilityMeasure } from '../types';
+import { dailySeries as series } from './testFixtures';
+
+describe('detectSwings', () => {
+  it('finds nothing in an empty or single-point series', () => {
+    expect(detectSwings([])).toEqual([]);
+    expect(detectSwings(series(100))).toEqual([]);
+  });
+
+  it('finds nothing in flat data', () => {
+    expect(detectSwings(series(100, 100, 100, 100, 100))).toEqual([]);
+  });
+
+  it('confirms a move of exactly the threshold', () => {
+    const swings = detectSwings(series(100, 105), { thresholdPercent: 5 });
+    expect(swings).toHaveLength(1);
+    expect(swings[0]).toMatchObject({ type: MovementType.UP, startPrice: 100, endPrice: 105, daysTaken: 1 });
+    expect(swings[0].percentageChange).toBeCloseTo(5);
+  });
+
+  it('confirms a decline of exactly the threshold', () => {
+    const swings = detectSwings(series(100, 95), { thresholdPercent: 5 });
+    expect(swings).toHaveLength(1);
+    expect(swings[0].type).toBe(MovementType.DOWN);
+  });
+
+  it('ignores a move just short of the threshold', () => {
+    expect(detectSwings(series(100, 104.99), { thresholdPercent: 5 })).toEqual([]);
+  });
+
+  it('measures each swing from the previous crossing', () => {
+    const swings = detectSwings(series(100, 103, 106, 102, 100.7), { thresholdPercent: 5 });
+    expect(swings.map(s => [s.type, s.startPrice, s.endPrice])).toEqual([
+      [MovementType.UP, 100, 106],
+      [MovementType.DOWN, 106, 100.7]
+    ]);
+  });
+
+  it('counts calendar days across gaps in the series', () => {
+    const data: PricePoint[] = [
+      { date: '2024-01-01', price: 100 },
+      { date: '2024-01-02', price: 101 },
+      { date: '2024-01-15', price: 110 }
+    ];
+    const swings = detectSwings(data, { thresholdPercent: 5 });
+    expect(swings).toHaveLength(1);
+    expect(swings[0]).toMatchObject({ startDate: '2024-01-01', endDate: '2024-01-15', daysTaken: 14 });
+  });
+
+  it('skips non-finite and non-positive prices', () => {
+    const swings = detectSwings(series(100, NaN, 0, -5, 110), { thresholdPercent: 5 });
+    expect(swings).toHaveLength(1);
+    expect(swings[0]).toMatchObject({ startDate: '2024-01-01', endDate: '2024-01-05', endPrice: 110 });
+  });
+
+  it('rejects a non-positive threshold', () => {
+    expect(() => detectSwings(series(100, 110), { thresholdPercent: 0 })).toThrow();
+  });
+
+  describe('minDays', () => {
+    // 100 -> 106 over a two-day gap
+    const data: PricePoint[] = [
+      { date: '2024-01-01', price: 100 },
+      { date: '2024-01-03', price: 106 }
+    ];
+
+    it('records a swing that lasts exactly minDays', () => {
+      expect(detectSwings(data, { thresholdPercent: 5, minDays: 2 })).toHaveLength(1);
+    });
+
+    it('drops a swing one day shorter than minDays', () => {
+      expect(detectSwings(data, { thresholdPercent: 5, minDays: 3 })).toEqual([]);
+    });
+  });
+
+  describe('direction', () => {
+    const data = series(100, 106, 100, 106);
+
+    it('records only up swings with UP', () => {
+      const swings = detectSwings(data, { thresholdPercent: 5, direction: MovementType.UP });
+      expect(swings.map(s => [s.startDate, s.endDate, s.type])).toEqual([
+        ['2024-01-01', '2024-01-02', MovementType.UP],
+        ['2024-01-03', '2024-01-04', MovementType.UP]
+      ]);
+    });
+
+    it('records only down swings with DOWN', () => {
+      const swings = detectSwings(data, { thresholdPercent: 5, direction: MovementType.DOWN });
+      expect(swings.map(s => [s.startDate, s.endDate, s.type])).toEqual([['2024-01-02', '2024-01-03', MovementType.DOWN]]);
+    });
+  });
+
+  describe('baseReset', () => {
+    // The up crossing on day 2 is filtered out by the direction
+    const data = series(100, 106, 94);
+
+    it('moves the base to a filtered crossing with EVERY_CROSSING', () => {
+      const swings = detectSwings(data, { thresholdPercent: 5, direction: MovementType.DOWN, baseReset: BaseResetPolicy.EVERY_CROSSING });
+      expect(swings).toHaveLength(1);
+      expect(swings[0]).toMatchObject({ startDate: '2024-01-02', startPrice: 106, endPrice: 94 });
+    });
+
+    it('keeps the base until a swing is recorded with RECORDED_ONLY', () => {
+      const swings = detectSwings(data, { thresholdPercent: 5, direction: MovementType.DOWN, baseReset: BaseResetPolicy.RECORDED_ONLY });
+      expect(swings).toHaveLength(1);
+      expect(swings[0]).toMatchObject({ startDate: '2024-01-01', startPrice: 100, endPrice: 94 });
+    });
+
+    it('can skip a swing entirely under RECORDED_ONLY', () => {
+      const data = series(100, 106, 100.5);
+      expect(detectSwings(data, { thresholdPercent: 5, direction: MovementType.DOWN, baseReset: BaseResetPolicy.EVERY_CROSSING })).toHaveLength(1);
+      expect(detectSwings(data, { thresholdPercent: 5, direction: MovementType.DOWN, baseReset: BaseResetPolicy.RECORDED_ONLY })).toEqual([]);
+    });
+  });
+
+  describe('in ZIGZAG mode', () => {
+    const data = series(100, 103, 106, 104, 108, 102, 96, 100);
+
+    it('runs each leg from pivot to pivot and leaves the last leg unconfirmed', () => {
+      const swings = detectSwings(data, { thresholdPercent: 5, mode: SwingMode.ZIGZAG });
+      expect(swings.map(s => [s.type, s.startPrice, s.endPrice, s.startDate, s.endDate, s.confirmationDate])).toEqual([
+        [MovementType.UP, 100, 108, '2024-01-01', '2024-01-05', '2024-01-06'],
+        [MovementType.DOWN, 108, 96, '2024-01-05', '2024-01-07', undefined]
+      ]);
+    });
+
+    it('differs from threshold crossings on the same data', () => {
+      const swings = detectSwings(data, { thresholdPercent: 5 });
+      expect(swings.map(s => [s.type, s.startPrice, s.endPrice])).toEqual([
+        [MovementType.UP, 100, 106],
+        [MovementType.DOWN, 106, 96]
+      ]);
+    });
+
+    it('applies the direction and minDays filters to legs', () => {
+      expect(detectSwings(data, { thresholdPercent: 5, mode: SwingMode.ZIGZAG, direction: MovementType.UP }))
+        .toMatchObject([{ type: MovementType.UP, endPrice: 108 }]);
+      expect(detectSwings(data, { thresholdPercent: 5, mode: SwingMode.ZIGZAG, minDays: 3 }))
+        .toMatchObject([{ type: MovementType.UP, daysTaken: 4 }]);
+    });
+
+    it('uses intraday extremes as pivots with the HIGH_LOW trigger', () => {
+      const bars: PricePoint[] = [
+        { date: '2024-01-01', price: 100, high: 101, low: 99 },
+        { date: '2024-01-02', price: 103, high: 106, low: 102 },
+        { date: '2024-01-03', price: 104, high: 105, low: 100 }
+      ];
+      expect(detectSwings(bars, { thresholdPercent: 5, mode: SwingMode.ZIGZAG })).toEqual([]);
+      const swings = detectSwings(bars, { thresholdPercent: 5, mode: SwingMode.ZIGZAG, trigger: PriceTrigger.HIGH_LOW });
+      expect(swings.map(s => [s.type, s.startPrice, s.endPrice, s.confirmationDate])).toEqual([
+        [MovementType.UP, 99, 106, '2024-01-03'],
+        [MovementType.DOWN, 106, 100, undefined]
+      ]);
+    });
+  });
+
+  describe('with the HIGH_LOW trigger', () => {
+    const data: PricePoint[] = [
+      { date: '2024-01-01', price: 100, high: 101, low: 99 },
+      { date: '2024-01-02', price: 102, high: 106, low: 101 },
+      { date: '2024-01-03', price: 103, high: 104, low: 102 }
+    ];
+
+    it('confirms on an intraday high the close never reached', () => {
+      expect(detectSwings(data, { thresholdPercent: 5 })).toEqual([]);
+      const swings = detectSwings(data, { thresholdPercent: 5, trigger: PriceTrigger.HIGH_LOW });
+      expect(swings).toHaveLength(1);
+      expect(swings[0]).toMatchObject({ type: MovementType.UP, endDate: '2024-01-02', endPrice: 106 });
+    });
+
+    it('takes the larger excursion when a bar breaches both sides', () => {
+      const wide: PricePoint[] = [
+        { date: '2024-01-01', price: 100 },
+        { date: '2024-01-02', price: 100, high: 106, low: 92 }
+      ];
+      const swings = detectSwings(wide, { thresholdPercent: 5, trigger: PriceTrigger.HIGH_LOW });
+      expect(swings).toHaveLength(1);
+      expect(swings[0]).toMatchObject({ type: MovementType.DOWN, endPrice: 92 });
+    });
+
+    it('falls back to the close when a point has no range', () => {
+      const swings = detectSwings(series(100, 105), { thresholdPercent: 5, trigger: PriceTrigger.HIGH_LOW });
+      expect(swings).toHaveLength(1);
+      expect(swings[0].endPrice).toBe(105);
+    });
+  });
+
+  describe('with an adaptive threshold', () => {
+    // Three flat bars with a true range of 2, so ATR(2) reads 2% of the close from day 3
+    const flat: PricePoint[] = [0, 1, 2].map(i => ({ date: `2024-01-0${i + 1}`, price: 100, high: 101, low: 99 }));
+    const atr2 = { measure: VolatilityMeasure.ATR, window: 2, multiple: 2 };
+
+    it('uses the fixed threshold until the window fills, then the volatility of the previous bar', () => {
+      const bars = [...flat, { date: '2024-01-04', price: 100, high: 101, low: 99 }];
+      expect(thresholdSeries(bars, 10)).toEqual([10, 10, 10, 10]);
+      expect(thresholdSeries(bars, 10, atr2)).toEqual([10, 10, 10, 4]);
+    });
+
+    it('scales the standard deviation of log returns by the multiple', () => {
+      const targets = thresholdSeries(series(100, 102, 100, 102), 10, { measure: VolatilityMeasure.STDEV, window: 2, multiple: 1 });
+      expect(targets.slice(0, 3)).toEqual([10, 10, 10]);
+      expect(targets[3]).toBeCloseTo(Math.log(1.02) * Math.SQRT2 * 100);
+    });
+
+    it('confirms against the threshold of the bar and records it on the swing', () => {
+      const bars = [...flat, { date: '2024-01-04', price: 104.5, high: 105, low: 104 }];
+      const swings = detectSwings(bars, { thresholdPercent: 10, adaptive: atr2 });
+      expect(swings).toHaveLength(1);
+      expect(swings[0]).toMatchObject({ endDate: '2024-01-04', endPrice: 104.5, thresholdPercent: 4 });
+      expect(detectSwings(bars, { thresholdPercent: 10, adaptive: { ...atr2, multiple: 3 } })).toEqual([]);
+    });
+
+    it('rejects a window below 2 or a non-positive multiple', () => {
+      expect(() => detectSwings(flat, { adaptive: { ...atr2, window: 1 } })).toThrow();
+      expect(() => detectSwings(flat, { adaptive: { ...atr2, multiple: 0 } })).toThrow();
+    });
+  });
+});
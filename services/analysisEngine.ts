@@ -0,0 +1,218 @@
+
+import { PricePoint, MovementEvent, MovementType, SwingDetectionOptions, BaseResetPolicy, SwingMode, DirectionFilter, PriceTrigger, AdaptiveThreshold, VolatilityMeasure } from "../types";
+import { atr, returnVolatility } from "./indicators";
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Tolerance so a move of exactly the threshold (e.g. 100 -> 105 at 5%) still confirms
+const THRESHOLD_EPSILON = 1e-9;
+
+export const DEFAULT_SWING_OPTIONS: SwingDetectionOptions = {
+  mode: SwingMode.THRESHOLD,
+  trigger: PriceTrigger.CLOSE,
+  thresholdPercent: 5,
+  minDays: 0,
+  direction: 'BOTH',
+  baseReset: BaseResetPolicy.EVERY_CROSSING
+};
+
+/**
+ * Calendar days between two ISO dates. Uses real dates rather than index
+ * difference so gaps in the series are reflected in "Days Taken".
+ */
+export const daysBetween = (startDate: string, endDate: string): number => {
+  const diffTime = Math.abs(new Date(endDate).getTime() - new Date(startDate).getTime());
+  return Math.ceil(diffTime / MS_PER_DAY);
+};
+
+// Identifies a swing across re-detections, where array positions can shift
+export const movementKey = (move: MovementEvent) => `${move.startDate}|${move.endDate}|${move.type}`;
+
+// Price levels a bar can confirm a swing at. With the CLOSE trigger (or when a
+// point carries no intraday range) both collapse to the close.
+interface PriceLevels {
+  up: (point: PricePoint) => number;
+  down: (point: PricePoint) => number;
+}
+
+const priceLevels = (trigger: PriceTrigger): PriceLevels => trigger === PriceTrigger.HIGH_LOW
+  ? { up: p => p.high ?? p.price, down: p => p.low ?? p.price }
+  : { up: p => p.price, down: p => p.price };
+
+export const VOLATILITY_MEASURE_LABELS: Record<VolatilityMeasure, string> = {
+  [VolatilityMeasure.ATR]: 'ATR',
+  [VolatilityMeasure.STDEV]: 'σ'
+};
+
+// "5%" for a fixed threshold, "3× ATR(14)" for an adaptive one
+export const describeThreshold = (thresholdPercent: number, adaptive?: AdaptiveThreshold) =>
+  adaptive
+    ? `${adaptive.multiple}× ${VOLATILITY_MEASURE_LABELS[adaptive.measure]}(${adaptive.window})`
+    : `${thresholdPercent}%`;
+
+export const describeMode = (mode: SwingMode, trigger: PriceTrigger) =>
+  `${mode === SwingMode.ZIGZAG ? 'ZigZag pivots' : 'Threshold crossings'}, ${trigger === PriceTrigger.HIGH_LOW ? 'intraday high/low' : 'daily close'}`;
+
+/**
+ * Threshold in percent for each point. An adaptive threshold is the multiple of
+ * the volatility measured up to the previous point, so a bar never widens the
+ * threshold it is tested against. Until the window has filled, the fixed
+ * `thresholdPercent` applies.
+ */
+export const thresholdSeries = (points: PricePoint[], thresholdPercent: number, adaptive?: AdaptiveThreshold): number[] => {
+  if (!adaptive) return points.map(() => thresholdPercent);
+
+  const closes = points.map(p => p.price);
+  const volatility = adaptive.measure === VolatilityMeasure.ATR
+    ? atr(points, adaptive.window).map((value, i) => value === undefined ? undefined : value / closes[i])
+    : returnVolatility(closes, adaptive.window);
+  return points.map((_, i) => {
+    const previous = i > 0 ? volatility[i - 1] : undefined;
+    return previous === undefined ? thresholdPercent : previous * adaptive.multiple * 100;
+  });
+};
+
+const buildMovement = (startDate: string, startPrice: number, endDate: string, endPrice: number, thresholdPercent: number): MovementEvent => {
+  const change = (endPrice - startPrice) / startPrice;
+  return {
+    startDate,
+    endDate,
+    startPrice,
+    endPrice,
+    type: change > 0 ? MovementType.UP : MovementType.DOWN,
+    percentageChange: change * 100,
+    daysTaken: daysBetween(startDate, endDate),
+    thresholdPercent: Number(thresholdPercent.toFixed(4))
+  };
+};
+
+const passesFilters = (move: MovementEvent, minDays: number, direction: DirectionFilter) =>
+  move.daysTaken >= minDays && (direction === 'BOTH' || direction === move.type);
+
+const reachedTarget = (from: number, to: number, target: number) =>
+  Math.abs((to - from) / from) >= target - THRESHOLD_EPSILON;
+
+const detectThresholdSwings = (points: PricePoint[], targets: number[], options: SwingDetectionOptions): MovementEvent[] => {
+  const levels = priceLevels(options.trigger);
+  const movements: MovementEvent[] = [];
+  let baseIndex = 0;
+  let basePrice = points.length > 0 ? points[0].price : 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const high = levels.up(points[i]);
+    const low = levels.down(points[i]);
+    const target = targets[i] / 100;
+    const upHit = high > basePrice && reachedTarget(basePrice, high, target);
+    const downHit = low < basePrice && reachedTarget(basePrice, low, target);
+    if (!upHit && !downHit) continue;
+
+    // A wide bar can breach both sides; the larger excursion wins
+    const endPrice = upHit && (!downHit || high - basePrice >= basePrice - low) ? high : low;
+    const move = buildMovement(points[baseIndex].date, basePrice, points[i].date, endPrice, targets[i]);
+    const recorded = passesFilters(move, options.minDays, options.direction);
+    if (recorded) movements.push(move);
+
+    if (recorded || options.baseReset === BaseResetPolicy.EVERY_CROSSING) {
+      baseIndex = i;
+      basePrice = endPrice;
+    }
+  }
+
+  return movements;
+};
+
+/**
+ * Tracks the running extreme of the current leg and only ends the leg once price
+ * reverses by the threshold from that extreme, so each swing runs from a true
+ * trough to a true peak (or vice versa). The final leg is reported without a
+ * `confirmationDate` since its end pivot may still extend.
+ *
+ * Filters only decide which legs are recorded; pivots always alternate, so
+ * `baseReset` does not apply.
+ */
+const detectZigZagSwings = (points: PricePoint[], targets: number[], options: SwingDetectionOptions): MovementEvent[] => {
+  const levels = priceLevels(options.trigger);
+  const legs: MovementEvent[] = [];
+  let trend: MovementType | null = null;
+  let pivot = { index: 0, price: 0 };
+  let extreme = { index: 0, price: 0 };
+  // Before the first leg is established, both directions are tracked from the start
+  let lowest = { index: 0, price: points.length > 0 ? levels.down(points[0]) : 0 };
+  let highest = { index: 0, price: points.length > 0 ? levels.up(points[0]) : 0 };
+
+  for (let i = 1; i < points.length; i++) {
+    const high = levels.up(points[i]);
+    const low = levels.down(points[i]);
+    const target = targets[i] / 100;
+
+    if (trend === null) {
+      if (low < lowest.price) lowest = { index: i, price: low };
+      if (high > highest.price) highest = { index: i, price: high };
+
+      if (high > lowest.price && lowest.index !== i && reachedTarget(lowest.price, high, target)) {
+        trend = MovementType.UP;
+        pivot = lowest;
+        extreme = { index: i, price: high };
+      } else if (low < highest.price && highest.index !== i && reachedTarget(highest.price, low, target)) {
+        trend = MovementType.DOWN;
+        pivot = highest;
+        extreme = { index: i, price: low };
+      }
+      continue;
+    }
+
+    const isUp = trend === MovementType.UP;
+    const extension = isUp ? high : low;
+    const reversal = isUp ? low : high;
+
+    if (isUp ? extension > extreme.price : extension < extreme.price) {
+      extreme = { index: i, price: extension };
+    } else if (reachedTarget(extreme.price, reversal, target)) {
+      legs.push({
+        ...buildMovement(points[pivot.index].date, pivot.price, points[extreme.index].date, extreme.price, targets[i]),
+        confirmationDate: points[i].date
+      });
+      pivot = extreme;
+      extreme = { index: i, price: reversal };
+      trend = isUp ? MovementType.DOWN : MovementType.UP;
+    }
+  }
+
+  if (trend !== null) {
+    legs.push(buildMovement(points[pivot.index].date, pivot.price, points[extreme.index].date, extreme.price, targets[points.length - 1]));
+  }
+
+  return legs.filter(move => passesFilters(move, options.minDays, options.direction));
+};
+
+/**
+ * Detects swings of at least `thresholdPercent` using the selected `mode`.
+ *
+ * THRESHOLD walks the series from a base close and confirms a swing on the first
+ * close that moves the threshold away from it. Swings shorter than `minDays` or
+ * against the `direction` filter are not recorded; `baseReset` decides whether the
+ * base still moves to such a filtered crossing. ZIGZAG reports pivot-to-pivot legs.
+ * With the HIGH_LOW `trigger`, intraday highs and lows confirm swings and become
+ * their end prices, so a move that only reaches the threshold intraday still counts.
+ * With `adaptive`, the threshold follows trailing volatility (see `thresholdSeries`)
+ * and each swing records the threshold it confirmed against.
+ *
+ * Expects `data` sorted by date. Points with non-positive or non-finite prices are skipped.
+ */
+export const detectSwings = (data: PricePoint[], options: Partial<SwingDetectionOptions> = {}): MovementEvent[] => {
+  const resolved: SwingDetectionOptions = { ...DEFAULT_SWING_OPTIONS, ...options };
+  if (!(resolved.thresholdPercent > 0)) {
+    throw new Error("Swing threshold must be a positive percentage.");
+  }
+  const { adaptive } = resolved;
+  if (adaptive && (!Number.isInteger(adaptive.window) || adaptive.window < 2 || !(adaptive.multiple > 0))) {
+    throw new Error("Adaptive thresholds need a window of at least 2 days and a positive multiple.");
+  }
+
+  const points = data.filter(p => isFinite(p.price) && p.price > 0);
+  const targets = thresholdSeries(points, resolved.thresholdPercent, adaptive);
+
+  return resolved.mode === SwingMode.ZIGZAG
+    ? detectZigZagSwings(points, targets, resolved)
+    : detectThresholdSwings(points, targets, resolved);
+};
@@ -0,0 +1,84 @@
+
+import { describe, expect, it } from 'vitest';
+import { exportAnalysisJson, importAnalysisJson, movementsToCsv } from './analysisExport';
+import { DataQualityReport, EventCategory } from '../types';
+import { buildAnalysis } from './testFixtures';
+
+const result = buildAnalysis();
+
+const withMovements = (movements: unknown[]) => {
+  const file = JSON.parse(exportAnalysisJson(result));
+  file.analysis.movements = movements;
+  return JSON.stringify(file);
+};
+
+describe('importAnalysisJson', () => {
+  it('round-trips an export', () => {
+    expect(importAnalysisJson('\uFEFF' + exportAnalysisJson(result))).toEqual(result);
+  });
+
+  it('drops swings with missing or mistyped fields', () => {
+    const valid = result.movements[0];
+    const imported = importAnalysisJson(withMovements([
+      valid,
+      { ...valid, percentageChange: '6' },
+      { ...valid, daysTaken: undefined },
+      { ...valid, startDate: 'yesterday' },
+      { ...valid, endPrice: null },
+      { ...valid, research: { summary: 'No lists' } },
+      null,
+      'swing'
+    ]));
+    expect(imported.movements).toEqual([valid]);
+    expect(() => movementsToCsv(imported)).not.toThrow();
+  });
+
+  it('drops swings with malformed research or indicator values', () => {
+    const valid = result.movements[0];
+    const research = { summary: 'ETF inflows', categories: [EventCategory.ETF_FLOWS], events: [], confidence: 'LOW', sources: [] };
+    const snapshot = { rsi: 55, aboveSma200: true };
+    const imported = importAnalysisJson(withMovements([
+      { ...valid, research, indicators: { start: snapshot, end: snapshot } },
+      { ...valid, research: { ...research, events: [{ date: '2024-01-02', title: 42, category: EventCategory.MACRO }] } },
+      { ...valid, research: { ...research, events: [{ date: '2024-01-02', title: 'Fed', category: 'GOSSIP' }] } },
+      { ...valid, research: { ...research, sources: [{ title: 'Source' }] } },
+      { ...valid, research: { ...research, categories: ['GOSSIP'] } },
+      { ...valid, research: { ...research, confidence: 'CERTAIN' } },
+      { ...valid, indicators: { start: { rsi: '55' }, end: snapshot } },
+      { ...valid, indicators: { start: snapshot, end: { aboveSma200: 'yes' } } },
+      { ...valid, indicators: { start: snapshot } }
+    ]));
+    expect(imported.movements).toHaveLength(1);
+    expect(imported.movements[0].research).toEqual(research);
+  });
+
+  it('drops prices with a malformed range', () => {
+    const file = JSON.parse(exportAnalysisJson(result));
+    file.analysis.data[1].high = '110';
+    expect(importAnalysisJson(JSON.stringify(file)).data).toHaveLength(2);
+  });
+
+  it('drops a malformed quality report and keeps a valid one', () => {
+    const quality: DataQualityReport = {
+      points: 3, expectedDays: 3, coveragePct: 100, duplicates: [], gaps: [], outliers: [],
+      invalid: 0, belowMinCoverage: false, repairs: []
+    };
+    const withQuality = (value: unknown) => {
+      const file = JSON.parse(exportAnalysisJson(result));
+      file.analysis.quality = value;
+      return importAnalysisJson(JSON.stringify(file)).quality;
+    };
+    expect(withQuality(quality)).toEqual(quality);
+    expect(withQuality({})).toBeUndefined();
+    expect(withQuality({ ...quality, coveragePct: '100' })).toBeUndefined();
+    expect(withQuality({ ...quality, duplicates: [1] })).toBeUndefined();
+    expect(withQuality({ ...quality, gaps: [{ from: '2024-01-01', to: '2024-01-05' }] })).toBeUndefined();
+    expect(withQuality({ ...quality, outliers: [{ date: '2024-01-02', price: 106, returnPct: 6, zScore: 'high', reverts: false }] })).toBeUndefined();
+    expect(withQuality({ ...quality, repairs: null })).toBeUndefined();
+  });
+
+  it('rejects files that are not analysis exports', () => {
+    expect(() => importAnalysisJson('{')).toThrow('could not be parsed');
+    expect(() => importAnalysisJson('{"format":"other"}')).toThrow('not a Crypto Swing Tracker analysis');
+  });
+});
@@ -0,0 +1,197 @@
+
+import { AdaptiveThreshold, AnalysisResult, DataQualityReport, EventCategory, IndicatorSnapshot, MovementEvent, MovementResearch, MovementType, PriceGap, PriceOutlier, PricePoint, PriceSource, PriceTrigger, QuoteCurrency, ResearchEvent, ResearchSource, SwingMode, VolatilityMeasure } from "../types";
+import { isIsoDate } from "./dateRange";
+
+const ANALYSIS_FORMAT = 'crypto-swing-tracker/analysis';
+const ANALYSIS_VERSION = 1;
+
+interface AnalysisFile {
+  format: typeof ANALYSIS_FORMAT;
+  version: number;
+  exportedAt: string;
+  analysis: AnalysisResult;
+}
+
+// Excel expects a byte order mark to read CSV as UTF-8 rather than the system codepage
+const UTF8_BOM = '\uFEFF';
+
+export const exportAnalysisJson = (result: AnalysisResult): string => {
+  const file: AnalysisFile = {
+    format: ANALYSIS_FORMAT,
+    version: ANALYSIS_VERSION,
+    exportedAt: new Date().toISOString(),
+    analysis: result
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isDate = (value: unknown): value is string => typeof value === 'string' && isIsoDate(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isOptional = <T>(value: unknown, check: (value: unknown) => value is T) => value === undefined || check(value);
+
+const isArrayOf = <T>(value: unknown, check: (value: unknown) => value is T): value is T[] =>
+  Array.isArray(value) && value.every(check);
+
+const isOneOf = <T extends string>(values: Record<string, T>) => (value: unknown): value is T =>
+  Object.values(values).includes(value as T);
+
+const isCategory = isOneOf(EventCategory);
+
+const isPricePoint = (point: unknown): point is PricePoint =>
+  isRecord(point) && isDate(point.date) && isNumber(point.price) &&
+  isOptional(point.high, isNumber) && isOptional(point.low, isNumber) && isOptional(point.volume, isNumber);
+
+const isResearchEvent = (event: unknown): event is ResearchEvent =>
+  isRecord(event) && isDate(event.date) && isString(event.title) && isCategory(event.category);
+
+const isResearchSource = (source: unknown): source is ResearchSource =>
+  isRecord(source) && isString(source.title) && isString(source.url);
+
+const isResearch = (research: unknown): research is MovementResearch =>
+  isRecord(research) && isString(research.summary) && ['LOW', 'MEDIUM', 'HIGH'].includes(research.confidence) &&
+  isArrayOf(research.categories, isCategory) && isArrayOf(research.events, isResearchEvent) &&
+  isArrayOf(research.sources, isResearchSource);
+
+const isIndicatorSnapshot = (snapshot: unknown): snapshot is IndicatorSnapshot =>
+  isRecord(snapshot) && isOptional(snapshot.aboveSma200, isBoolean) &&
+  (['rsi', 'sma50', 'sma200', 'bollingerPctB', 'atrPct', 'realizedVol'] as const).every(field => isOptional(snapshot[field], isNumber));
+
+const isGap = (gap: unknown): gap is PriceGap =>
+  isRecord(gap) && isDate(gap.from) && isDate(gap.to) && isNumber(gap.missingDays);
+
+const isOutlier = (outlier: unknown): outlier is PriceOutlier =>
+  isRecord(outlier) && isDate(outlier.date) && isNumber(outlier.price) && isNumber(outlier.returnPct) &&
+  isNumber(outlier.zScore) && isBoolean(outlier.reverts);
+
+const isQuality = (quality: unknown): quality is DataQualityReport =>
+  isRecord(quality) && isNumber(quality.points) && isNumber(quality.expectedDays) && isNumber(quality.coveragePct) &&
+  isNumber(quality.invalid) && isBoolean(quality.belowMinCoverage) && isArrayOf(quality.duplicates, isDate) &&
+  isArrayOf(quality.gaps, isGap) && isArrayOf(quality.outliers, isOutlier) && isArrayOf(quality.repairs, isString);
+
+const isMovement = (move: unknown): move is MovementEvent =>
+  isRecord(move) && isDate(move.startDate) && isDate(move.endDate) &&
+  isNumber(move.startPrice) && isNumber(move.endPrice) &&
+  isNumber(move.percentageChange) && isNumber(move.daysTaken) &&
+  Object.values(MovementType).includes(move.type) &&
+  isOptional(move.confirmationDate, isDate) && isOptional(move.thresholdPercent, isNumber) &&
+  isOptional(move.context, isString) && isOptional(move.research, isResearch) &&
+  (move.indicators === undefined ||
+    (isRecord(move.indicators) && isIndicatorSnapshot(move.indicators.start) && isIndicatorSnapshot(move.indicators.end)));
+
+const isAdaptiveThreshold = (adaptive: unknown): adaptive is AdaptiveThreshold =>
+  isRecord(adaptive) && Object.values(VolatilityMeasure).includes(adaptive.measure) &&
+  Number.isInteger(adaptive.window) && adaptive.window >= 2 && adaptive.multiple > 0;
+
+/**
+ * Validates an analysis read from a file. Unknown fields are ignored, fields
+ * added after version 1 fall back to defaults, and malformed swings and a
+ * malformed quality report are dropped. Throws when the ticker or enough valid
+ * prices are missing.
+ */
+export const parseAnalysis = (value: unknown): AnalysisResult => {
+  const analysis = (isRecord(value) ? value : {}) as Partial<AnalysisResult>;
+  if (typeof analysis.ticker !== 'string' || !Array.isArray(analysis.data) || !Array.isArray(analysis.movements)) {
+    throw new Error("The analysis file is missing its ticker, price data or swings.");
+  }
+  const data = analysis.data.filter(isPricePoint);
+  if (data.length < 2) {
+    throw new Error("The analysis file holds fewer than two valid prices.");
+  }
+
+  return {
+    ticker: analysis.ticker,
+    startDate: isDate(analysis.startDate) ? analysis.startDate : data[0].date,
+    endDate: isDate(analysis.endDate) ? analysis.endDate : data[data.length - 1].date,
+    targetPercentage: isNumber(analysis.targetPercentage) ? analysis.targetPercentage : 5,
+    mode: Object.values(SwingMode).includes(analysis.mode as SwingMode) ? analysis.mode as SwingMode : SwingMode.THRESHOLD,
+    trigger: Object.values(PriceTrigger).includes(analysis.trigger as PriceTrigger) ? analysis.trigger as PriceTrigger : PriceTrigger.CLOSE,
+    source: typeof analysis.source === 'string' ? analysis.source : 'Imported file',
+    ...(Object.values(PriceSource).includes(analysis.sourceKind as PriceSource) && { sourceKind: analysis.sourceKind }),
+    data,
+    movements: analysis.movements.filter(isMovement),
+    ...(isQuality(analysis.quality) && { quality: analysis.quality }),
+    ...(Object.values(QuoteCurrency).includes(analysis.currency as QuoteCurrency) && { currency: analysis.currency }),
+    ...(isAdaptiveThreshold(analysis.adaptive) && { adaptive: analysis.adaptive })
+  };
+};
+
+/**
+ * Restores an analysis exported with `exportAnalysisJson`. Any file at or below
+ * the current version loads.
+ */
+export const importAnalysisJson = (text: string): AnalysisResult => {
+  let file: Partial<AnalysisFile>;
+  try {
+    file = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error("The analysis file could not be parsed.");
+  }
+
+  if (file.format !== ANALYSIS_FORMAT || !file.analysis) {
+    throw new Error("This is not a Crypto Swing Tracker analysis export.");
+  }
+  if ((file.version ?? 0) > ANALYSIS_VERSION) {
+    throw new Error(`Analysis format version ${file.version} is newer than this app supports.`);
+  }
+
+  return parseAnalysis(file.analysis);
+};
+
+type CsvValue = string | number | undefined | null;
+
+/**
+ * Quotes a CSV field when it holds a delimiter, quote or line break. Text that
+ * a spreadsheet would evaluate as a formula is prefixed with an apostrophe.
+ */
+export const csvEscape = (value: CsvValue): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: CsvValue[][]) =>
+  UTF8_BOM + [header, ...rows].map(row => row.map(csvEscape).join(',')).join('\r\n') + '\r\n';
+
+export const movementsToCsv = (result: AnalysisResult): string => toCsv(
+  [
+    'ticker', 'currency', 'type', 'start_date', 'end_date', 'start_price', 'end_price', 'percentage_change',
+    'days_taken', 'threshold_percent', 'confirmation_date', 'rsi_start', 'rsi_end', 'above_sma200_start', 'realized_vol_start', 'context', 'categories', 'confidence', 'events', 'sources'
+  ],
+  result.movements.map(move => [
+    result.ticker,
+    result.currency ?? QuoteCurrency.USD,
+    move.type,
+    move.startDate,
+    move.endDate,
+    move.startPrice,
+    move.endPrice,
+    Number(move.percentageChange.toFixed(4)),
+    move.daysTaken,
+    move.thresholdPercent,
+    move.confirmationDate,
+    move.indicators?.start.rsi,
+    move.indicators?.end.rsi,
+    move.indicators?.start.aboveSma200 === undefined ? undefined : String(move.indicators.start.aboveSma200),
+    move.indicators?.start.realizedVol,
+    move.research?.summary ?? move.context,
+    move.research?.categories.join('; '),
+    move.research?.confidence,
+    move.research?.events.map(e => `${e.date} ${e.title}`).join('; '),
+    move.research?.sources.map(s => s.url).join(' ')
+  ])
+);
+
+export const pricesToCsv = (result: AnalysisResult): string => toCsv(
+  ['date', 'open', 'high', 'low', 'close', 'volume'],
+  result.data.map(point => [point.date, point.open, point.high, point.low, point.price, point.volume])
+);
@@ -0,0 +1,61 @@
+
+import { AdaptiveThreshold, AnalysisResult, DataQualityOptions, PricePoint, PriceProvider, PriceTrigger, QuoteCurrency, SwingMode } from "../types";
+import { detectSwings } from "./analysisEngine";
+import { checkDataQuality, DEFAULT_DATA_QUALITY_OPTIONS } from "./dataQuality";
+import { convertSeries } from "./currency";
+import { annotateMovements } from "./indicators";
+
+export interface AnalysisRequest {
+  ticker: string;
+  startDate: string;
+  endDate: string;
+  thresholdPercent: number;
+  mode: SwingMode;
+  trigger: PriceTrigger;
+  adaptive?: AdaptiveThreshold;
+  currency?: QuoteCurrency;
+}
+
+export interface AnalysisRunOptions {
+  dataQuality?: DataQualityOptions;
+  rates?: PricePoint[] | null; // Quote currency rates from `fetchQuoteRates`, when not USD
+}
+
+/**
+ * Fetches, checks, converts and analyses one ticker. Shared by the app and the
+ * command line, so both produce the same swings for the same inputs. Throws when
+ * too little usable data remains.
+ */
+export const runAnalysis = async (
+  provider: PriceProvider,
+  request: AnalysisRequest,
+  options: AnalysisRunOptions = {}
+): Promise<AnalysisResult> => {
+  const { ticker, startDate, endDate, thresholdPercent, mode, trigger, adaptive } = request;
+  const rawData = await provider.fetchHistory(ticker, startDate, endDate);
+  if (!rawData || rawData.length < 2) {
+    throw new Error(`Insufficient data found for ${ticker} between ${startDate} and ${endDate}.`);
+  }
+  const checked = checkDataQuality(ticker, rawData, startDate, endDate, options.dataQuality ?? DEFAULT_DATA_QUALITY_OPTIONS);
+  const { quality } = checked;
+  const data = options.rates ? convertSeries(checked.data, options.rates) : checked.data;
+  if (data.length < 2) {
+    throw new Error(`Fewer than two valid prices remain for ${ticker} after data checks.`);
+  }
+
+  return {
+    ticker,
+    startDate,
+    endDate,
+    targetPercentage: thresholdPercent,
+    mode,
+    trigger,
+    source: provider.label,
+    sourceKind: provider.source,
+    data,
+    movements: annotateMovements(detectSwings(data, { mode, trigger, thresholdPercent, adaptive }), data),
+    quality,
+    currency: request.currency ?? QuoteCurrency.USD,
+    ...(adaptive && { adaptive })
+  };
+};
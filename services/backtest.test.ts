@@ -0,0 +1,92 @@
+
+import { describe, expect, it } from 'vitest';
+import { runBacktest } from './backtest';
+import { detectSwings } from './analysisEngine';
+import { MovementEvent, MovementType, SwingMode } from '../types';
+import { dailySeries } from './testFixtures';
+
+// Only the end (or confirmation) date and direction of a swing drive the signals
+const swing = (type: MovementType, startDate: string, endDate: string): MovementEvent =>
+  ({ type, startDate, endDate, startPrice: 1, endPrice: 1, percentageChange: 0, daysTaken: 1 });
+
+const frictionless = { feeBps: 0, slippageBps: 0, startingCapital: 1000 };
+
+describe('runBacktest', () => {
+  it('goes long on an up swing and flat on a down swing', () => {
+    const data = dailySeries(100, 110, 120, 90, 100);
+    const moves = [swing(MovementType.UP, '2024-01-01', '2024-01-02'), swing(MovementType.DOWN, '2024-01-03', '2024-01-04')];
+    const result = runBacktest(data, moves, SwingMode.THRESHOLD, frictionless);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({ side: 'LONG', entryDate: '2024-01-02', exitDate: '2024-01-04', entryPrice: 110, exitPrice: 90, open: false });
+    expect(result.trades[0].pnl).toBeCloseTo(1000 * 90 / 110 - 1000);
+    expect(result.equityCurve.map(p => p.equity)).toEqual([1000, 1000, 1000 * 120 / 110, 1000 * 90 / 110, 1000 * 90 / 110].map(v => expect.closeTo(v)));
+    expect(result.totalReturnPct).toBeCloseTo((90 / 110 - 1) * 100);
+    expect(result.buyHoldReturnPct).toBe(0);
+    // Peak at 120, trough at 90
+    expect(result.maxDrawdownPct).toBeCloseTo(-25);
+    expect(result.winRatePct).toBe(0);
+
+    const returns = [0, 120 / 110 - 1, 90 / 120 - 1, 0];
+    const avg = returns.reduce((a, r) => a + r, 0) / returns.length;
+    const std = Math.sqrt(returns.reduce((a, r) => a + (r - avg) ** 2, 0) / returns.length);
+    expect(result.sharpeRatio).toBeCloseTo(avg / std * Math.sqrt(365));
+  });
+
+  it('charges fees on both fills', () => {
+    const data = dailySeries(90, 100, 120, 108);
+    const moves = [swing(MovementType.UP, '2024-01-01', '2024-01-02'), swing(MovementType.DOWN, '2024-01-03', '2024-01-04')];
+    // 1% fee: 1010 buys 1000 of notional (10 units) for a 10 fee; selling 10 at 108 costs 10.80
+    const result = runBacktest(data, moves, SwingMode.THRESHOLD, { ...frictionless, feeBps: 100, startingCapital: 1010 });
+
+    expect(result.trades[0].fees).toBeCloseTo(20.8);
+    expect(result.trades[0].pnl).toBeCloseTo(1069.2 - 1010);
+    expect(result.finalEquity).toBeCloseTo(1069.2);
+    expect(result.equityCurve[1].equity).toBeCloseTo(1000);
+  });
+
+  it('fills against the trader by the slippage', () => {
+    const data = dailySeries(90, 100, 120, 108);
+    const moves = [swing(MovementType.UP, '2024-01-01', '2024-01-02'), swing(MovementType.DOWN, '2024-01-03', '2024-01-04')];
+    const result = runBacktest(data, moves, SwingMode.THRESHOLD, { ...frictionless, slippageBps: 100 });
+
+    expect(result.trades[0].entryPrice).toBeCloseTo(101);
+    expect(result.trades[0].exitPrice).toBeCloseTo(106.92);
+    expect(result.finalEquity).toBeCloseTo(1000 / 101 * 106.92);
+  });
+
+  it('reverses into shorts and marks the last position open', () => {
+    const data = dailySeries(100, 110, 99, 108.9);
+    const moves = [
+      swing(MovementType.UP, '2024-01-01', '2024-01-02'),
+      swing(MovementType.DOWN, '2024-01-02', '2024-01-03'),
+      swing(MovementType.UP, '2024-01-03', '2024-01-04')
+    ];
+    const result = runBacktest(data, moves, SwingMode.THRESHOLD, { ...frictionless, allowShort: true });
+
+    expect(result.trades.map(t => [t.side, t.entryDate, t.exitDate, t.open])).toEqual([
+      ['LONG', '2024-01-02', '2024-01-03', false],
+      ['SHORT', '2024-01-03', '2024-01-04', false],
+      ['LONG', '2024-01-04', '2024-01-04', true]
+    ]);
+    // The long loses 10% of 1000; the short of 900 loses another 10% as price rises 99 -> 108.9
+    expect(result.trades[0].pnl).toBeCloseTo(-100);
+    expect(result.trades[1].pnl).toBeCloseTo(-90);
+    expect(result.trades[1].returnPct).toBeCloseTo(-10);
+    expect(result.finalEquity).toBeCloseTo(810);
+  });
+
+  it('enters ZigZag trades only once the pivot is confirmed', () => {
+    const data = dailySeries(100, 103, 106, 104, 108, 102, 96, 100);
+    const moves = detectSwings(data, { thresholdPercent: 5, mode: SwingMode.ZIGZAG });
+    // The peak on 2024-01-05 is only known once price has fallen 5% on 2024-01-06
+    expect(moves[0]).toMatchObject({ endDate: '2024-01-05', confirmationDate: '2024-01-06' });
+
+    const result = runBacktest(data, moves, SwingMode.ZIGZAG, { ...frictionless, allowShort: true });
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({ side: 'SHORT', entryDate: '2024-01-06', entryPrice: 102, open: true });
+    expect(result.equityCurve.slice(0, 5).every(p => p.equity === 1000)).toBe(true);
+
+    expect(runBacktest(data, moves, SwingMode.ZIGZAG, frictionless).trades).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+
+import {
+  BacktestOptions,
+  BacktestResult,
+  BacktestTrade,
+  EquityPoint,
+  MovementEvent,
+  MovementType,
+  PricePoint,
+  SwingMode
+} from "../types";
+import { mean } from "./statistics";
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  allowShort: false,
+  feeBps: 10,
+  slippageBps: 5,
+  startingCapital: 10000
+};
+
+// Crypto trades every calendar day
+const PERIODS_PER_YEAR = 365;
+
+interface Signal {
+  date: string;
+  direction: MovementType;
+}
+
+interface OpenPosition {
+  side: 'LONG' | 'SHORT';
+  units: number; // Negative for shorts
+  entryDate: string;
+  entryPrice: number;
+  entryEquity: number;
+  entryFee: number;
+}
+
+/**
+ * Turns swings into trade signals without look-ahead. A threshold swing is known on
+ * its end date and signals its own direction. A ZigZag leg is only known on its
+ * confirmation date, when price has already reversed, so it signals the opposite
+ * direction; the still-open final leg produces no signal.
+ */
+export const swingSignals = (movements: MovementEvent[], mode: SwingMode): Signal[] =>
+  mode === SwingMode.ZIGZAG
+    ? movements
+        .filter(m => m.confirmationDate)
+        .map(m => ({
+          date: m.confirmationDate!,
+          direction: m.type === MovementType.UP ? MovementType.DOWN : MovementType.UP
+        }))
+    : movements.map(m => ({ date: m.endDate, direction: m.type }));
+
+const maxDrawdown = (curve: EquityPoint[]) => {
+  let peak = -Infinity;
+  let worst = 0;
+  curve.forEach(point => {
+    peak = Math.max(peak, point.equity);
+    worst = Math.min(worst, (point.equity - peak) / peak);
+  });
+  return worst * 100;
+};
+
+const sharpeRatio = (curve: EquityPoint[]) => {
+  const returns: number[] = [];
+  for (let i = 1; i < curve.length; i++) {
+    returns.push((curve[i].equity - curve[i - 1].equity) / curve[i - 1].equity);
+  }
+  const avg = mean(returns);
+  const std = Math.sqrt(mean(returns.map(r => (r - avg) ** 2)));
+  return std > 0 ? (avg / std) * Math.sqrt(PERIODS_PER_YEAR) : 0;
+};
+
+/**
+ * Simulates trading swing confirmations at the daily close: go long on up signals,
+ * and on down signals either go flat (long-only) or short. Each position uses the
+ * full account equity. Fees and slippage apply to every fill.
+ */
+export const runBacktest = (
+  data: PricePoint[],
+  movements: MovementEvent[],
+  mode: SwingMode,
+  options: Partial<BacktestOptions> = {}
+): BacktestResult => {
+  const { allowShort, feeBps, slippageBps, startingCapital } = { ...DEFAULT_BACKTEST_OPTIONS, ...options };
+  const feeRate = feeBps / 10000;
+  const slip = slippageBps / 10000;
+
+  const signalByDate = new Map<string, MovementType>();
+  swingSignals(movements, mode).forEach(signal => signalByDate.set(signal.date, signal.direction));
+
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+  let cash = startingCapital;
+  let position: OpenPosition | null = null;
+
+  const closePosition = (date: string, close: number) => {
+    if (!position) return;
+    const fillPrice = position.side === 'LONG' ? close * (1 - slip) : close * (1 + slip);
+    const fee = Math.abs(position.units) * fillPrice * feeRate;
+    cash += position.units * fillPrice - fee;
+
+    const pnl = cash - position.entryEquity;
+    trades.push({
+      side: position.side,
+      entryDate: position.entryDate,
+      exitDate: date,
+      entryPrice: position.entryPrice,
+      exitPrice: fillPrice,
+      returnPct: (pnl / position.entryEquity) * 100,
+      pnl,
+      fees: position.entryFee + fee,
+      open: false
+    });
+    position = null;
+  };
+
+  const openPosition = (side: 'LONG' | 'SHORT', date: string, close: number) => {
+    const equity = cash;
+    const fillPrice = side === 'LONG' ? close * (1 + slip) : close * (1 - slip);
+    const notional = equity / (1 + feeRate);
+    const fee = notional * feeRate;
+    const units = (side === 'LONG' ? 1 : -1) * notional / fillPrice;
+
+    // Longs spend the notional; shorts receive it as sale proceeds
+    cash = side === 'LONG' ? cash - notional - fee : cash + notional - fee;
+    position = { side, units, entryDate: date, entryPrice: fillPrice, entryEquity: equity, entryFee: fee };
+  };
+
+  data.forEach(point => {
+    const signal = signalByDate.get(point.date);
+    if (signal) {
+      const target = signal === MovementType.UP ? 'LONG' : allowShort ? 'SHORT' : null;
+      if (position?.side !== target) {
+        closePosition(point.date, point.price);
+        if (target) openPosition(target, point.date, point.price);
+      }
+    }
+
+    const current = position as OpenPosition | null;
+    equityCurve.push({
+      date: point.date,
+      equity: cash + (current ? current.units * point.price : 0),
+      buyHold: data.length > 0 ? startingCapital * (point.price / data[0].price) : startingCapital
+    });
+  });
+
+  const last = data[data.length - 1];
+  const held = position as OpenPosition | null;
+  const finalEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : startingCapital;
+
+  if (held && last) {
+    const pnl = finalEquity - held.entryEquity;
+    trades.push({
+      side: held.side,
+      entryDate: held.entryDate,
+      exitDate: last.date,
+      entryPrice: held.entryPrice,
+      exitPrice: last.price,
+      returnPct: (pnl / held.entryEquity) * 100,
+      pnl,
+      fees: held.entryFee,
+      open: true
+    });
+  }
+
+  const closed = trades.filter(t => !t.open);
+  return {
+    trades,
+    equityCurve,
+    finalEquity,
+    totalReturnPct: ((finalEquity - startingCapital) / startingCapital) * 100,
+    buyHoldReturnPct: data.length > 1 ? ((last.price - data[0].price) / data[0].price) * 100 : 0,
+    maxDrawdownPct: maxDrawdown(equityCurve),
+    winRatePct: closed.length > 0 ? (closed.filter(t => t.pnl > 0).length / closed.length) * 100 : 0,
+    sharpeRatio: sharpeRatio(equityCurve)
+  };
+};
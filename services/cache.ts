@@ -0,0 +1,107 @@
+
+import { MovementEvent, QuoteCurrency } from "../types";
+import { runRequest, STORES } from "./db";
+
+export type CacheKind = 'prices' | 'context';
+
+export interface CacheEntry<T = unknown> {
+  key: string;
+  kind: CacheKind;
+  label: string;
+  createdAt: number;
+  expiresAt: number | null; // null = never expires (closed periods)
+  size: number; // Approximate bytes of the serialized value
+  value: T;
+}
+
+// Data for the running year keeps changing, so it is only trusted for a while
+export const CURRENT_YEAR_TTL_MS = 6 * 60 * 60 * 1000;
+
+const run = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) =>
+  runRequest(STORES.cache, mode, action);
+
+const isExpired = (entry: CacheEntry) => entry.expiresAt !== null && entry.expiresAt <= Date.now();
+
+/**
+ * Closed years never expire; the current (or a future) year gets a TTL.
+ */
+export const expiryForYear = (year: number): number | null =>
+  year < new Date().getFullYear() ? null : Date.now() + CURRENT_YEAR_TTL_MS;
+
+export const getCached = async <T>(key: string): Promise<T | undefined> => {
+  try {
+    const entry = await run<CacheEntry<T>>('readonly', store => store.get(key));
+    if (!entry) return undefined;
+    if (isExpired(entry)) {
+      await deleteCacheEntry(key);
+      return undefined;
+    }
+    return entry.value;
+  } catch (error) {
+    console.error("Cache read failed:", error);
+    return undefined;
+  }
+};
+
+export const setCached = async <T>(key: string, kind: CacheKind, label: string, value: T, expiresAt: number | null) => {
+  const entry: CacheEntry<T> = {
+    key,
+    kind,
+    label,
+    createdAt: Date.now(),
+    expiresAt,
+    size: JSON.stringify(value).length,
+    value
+  };
+  try {
+    await run('readwrite', store => store.put(entry));
+  } catch (error) {
+    console.error("Cache write failed:", error);
+  }
+};
+
+/**
+ * Returns the cached value for `key`, or runs `load` and stores its result.
+ */
+export const withCache = async <T>(
+  key: string,
+  kind: CacheKind,
+  label: string,
+  expiresAt: number | null,
+  load: () => Promise<T>
+): Promise<T> => {
+  const cached = await getCached<T>(key);
+  if (cached !== undefined) return cached;
+  const value = await load();
+  await setCached(key, kind, label, value, expiresAt);
+  return value;
+};
+
+export const listCacheEntries = async (): Promise<CacheEntry[]> => {
+  const entries = await run<CacheEntry[]>('readonly', store => store.getAll());
+  return (entries ?? []).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteCacheEntry = async (key: string) => {
+  await run('readwrite', store => store.delete(key));
+};
+
+export const clearCache = async (filter?: (entry: CacheEntry) => boolean) => {
+  if (!filter) {
+    await run('readwrite', store => store.clear());
+    return;
+  }
+  const entries = await listCacheEntries();
+  for (const entry of entries.filter(filter)) {
+    await deleteCacheEntry(entry.key);
+  }
+};
+
+export const clearExpired = () => clearCache(isExpired);
+
+export const priceCacheKey = (scope: string, ticker: string, period: string) =>
+  `prices:${scope}:${ticker}:${period}`;
+
+// USD research from the default model keeps the original key so existing entries stay valid
+export const contextCacheKey = (ticker: string, move: MovementEvent, currency: QuoteCurrency = QuoteCurrency.USD, variant = '') =>
+  `research:${ticker}:${move.startDate}:${move.endDate}:${move.type}${currency === QuoteCurrency.USD ? '' : `:${currency}`}${variant ? `:${variant}` : ''}`;
@@ -0,0 +1,134 @@
+
+import { AnalysisResult, MovementType, PricePoint } from "../types";
+
+export interface AssetSwingStats {
+  ticker: string;
+  firstDate: string;
+  lastDate: string;
+  totalChange: number;
+  upCount: number;
+  downCount: number;
+  avgUpDays: number;
+  avgDownDays: number;
+}
+
+export interface CorrelationCell {
+  a: string;
+  b: string;
+  value: number | null; // null when the assets share too few return days
+  overlap: number;
+}
+
+// Chart rows keyed by ticker, e.g. { date: '2024-01-01', BTC: 100, ETH: 97.4 }
+export type NormalizedRow = { date: string } & Record<string, number | string | undefined>;
+
+const MIN_CORRELATION_OVERLAP = 3;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : 0;
+
+/**
+ * First date on which every asset has a price, or null when the histories don't overlap.
+ */
+export const commonStartDate = (assets: AnalysisResult[]): string | null => {
+  if (assets.length === 0 || assets.some(a => a.data.length === 0)) return null;
+  const start = assets.map(a => a.data[0].date).sort().pop()!;
+  const end = assets.map(a => a.data[a.data.length - 1].date).sort()[0];
+  return start <= end ? start : null;
+};
+
+/**
+ * Rebases every asset to 100 so differently priced assets share one axis. Assets are
+ * rebased at the first date they all have data; without any overlap each asset is
+ * rebased at its own first close. Rows cover the union of dates, with gaps left undefined.
+ */
+export const normalizeSeries = (assets: AnalysisResult[]): NormalizedRow[] => {
+  const anchorDate = commonStartDate(assets);
+  const rows = new Map<string, NormalizedRow>();
+
+  assets.forEach(asset => {
+    if (asset.data.length === 0) return;
+    const anchor = (anchorDate && asset.data.find(p => p.date >= anchorDate)) || asset.data[0];
+
+    asset.data.forEach(point => {
+      const row = rows.get(point.date) ?? { date: point.date };
+      row[asset.ticker] = (point.price / anchor.price) * 100;
+      rows.set(point.date, row);
+    });
+  });
+
+  return Array.from(rows.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const summarizeAsset = (asset: AnalysisResult): AssetSwingStats => {
+  const ups = asset.movements.filter(m => m.type === MovementType.UP);
+  const downs = asset.movements.filter(m => m.type === MovementType.DOWN);
+  const first = asset.data[0];
+  const last = asset.data[asset.data.length - 1];
+
+  return {
+    ticker: asset.ticker,
+    firstDate: first?.date ?? '',
+    lastDate: last?.date ?? '',
+    totalChange: first && last ? ((last.price - first.price) / first.price) * 100 : 0,
+    upCount: ups.length,
+    downCount: downs.length,
+    avgUpDays: average(ups.map(m => m.daysTaken)),
+    avgDownDays: average(downs.map(m => m.daysTaken))
+  };
+};
+
+/**
+ * Close-to-close returns keyed by the later date. A return spans any gap in the
+ * series, so it stays comparable with another asset's return on the same date.
+ */
+const dailyReturns = (data: PricePoint[]): Map<string, number> => {
+  const returns = new Map<string, number>();
+  for (let i = 1; i < data.length; i++) {
+    returns.set(data[i].date, (data[i].price - data[i - 1].price) / data[i - 1].price);
+  }
+  return returns;
+};
+
+const pearson = (xs: number[], ys: number[]): number | null => {
+  const meanX = average(xs);
+  const meanY = average(ys);
+  let cov = 0, varX = 0, varY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    cov += (xs[i] - meanX) * (ys[i] - meanY);
+    varX += (xs[i] - meanX) ** 2;
+    varY += (ys[i] - meanY) ** 2;
+  }
+  return varX > 0 && varY > 0 ? cov / Math.sqrt(varX * varY) : null;
+};
+
+/**
+ * Pairwise Pearson correlation of daily returns, computed only over dates both
+ * assets have a return for.
+ */
+export const correlateReturns = (assets: AnalysisResult[]): CorrelationCell[] => {
+  const returns = assets.map(a => dailyReturns(a.data));
+  const cells: CorrelationCell[] = [];
+
+  for (let i = 0; i < assets.length; i++) {
+    for (let j = i + 1; j < assets.length; j++) {
+      const xs: number[] = [];
+      const ys: number[] = [];
+      returns[i].forEach((value, date) => {
+        const other = returns[j].get(date);
+        if (other !== undefined) {
+          xs.push(value);
+          ys.push(other);
+        }
+      });
+
+      cells.push({
+        a: assets[i].ticker,
+        b: assets[j].ticker,
+        value: xs.length >= MIN_CORRELATION_OVERLAP ? pearson(xs, ys) : null,
+        overlap: xs.length
+      });
+    }
+  }
+  return cells;
+};
@@ -0,0 +1,87 @@
+
+import { PricePoint, PriceProvider, QuoteCurrency } from "../types";
+
+interface QuoteCurrencyInfo {
+  label: string;
+  symbol: string;
+  rateTicker: string | null; // Asset whose USD price converts into this currency; null for USD itself
+}
+
+export const QUOTE_CURRENCIES: Record<QuoteCurrency, QuoteCurrencyInfo> = {
+  [QuoteCurrency.USD]: { label: 'US Dollar', symbol: '$', rateTicker: null },
+  [QuoteCurrency.EUR]: { label: 'Euro', symbol: '€', rateTicker: 'EURUSD' },
+  [QuoteCurrency.BTC]: { label: 'Bitcoin', symbol: '₿', rateTicker: 'BTC' }
+};
+
+const SUFFIXES: [number, string][] = [[1e12, 'T'], [1e9, 'B'], [1e6, 'M'], [1e3, 'k']];
+
+/**
+ * Formats a price with as many decimals as its size needs: cents above one unit,
+ * four significant digits below it, so sub-cent tokens and BTC-quoted prices stay
+ * readable. `compact` abbreviates thousands and up (k, M, B, T) for axis labels.
+ */
+export const formatPrice = (value: number, currency: QuoteCurrency = QuoteCurrency.USD, compact = false): string => {
+  if (!Number.isFinite(value)) return '-';
+  const { symbol } = QUOTE_CURRENCIES[currency];
+  const sign = value < 0 ? '-' : '';
+  const abs = Math.abs(value);
+
+  if (compact) {
+    const suffix = SUFFIXES.find(([size]) => abs >= size);
+    if (suffix) {
+      return `${sign}${symbol}${(abs / suffix[0]).toLocaleString('en-US', { maximumFractionDigits: 2 })}${suffix[1]}`;
+    }
+  }
+
+  const digits = abs === 0 || abs >= 1
+    ? { minimumFractionDigits: compact ? 0 : 2, maximumFractionDigits: 2 }
+    : { maximumSignificantDigits: 4 };
+  return `${sign}${symbol}${abs.toLocaleString('en-US', digits)}`;
+};
+
+/**
+ * Divides a USD series by a conversion series (USD per unit of the quote currency).
+ * Rates are carried forward over days without one, e.g. forex weekends; prices
+ * before the first rate are dropped. Volume is left in its original units.
+ */
+export const convertSeries = (data: PricePoint[], rates: PricePoint[]): PricePoint[] => {
+  const sorted = rates.filter(r => Number.isFinite(r.price) && r.price > 0).sort((a, b) => a.date.localeCompare(b.date));
+  const converted: PricePoint[] = [];
+  let next = 0;
+  let rate: number | undefined;
+
+  data.forEach(point => {
+    while (next < sorted.length && sorted[next].date <= point.date) rate = sorted[next++].price;
+    if (rate === undefined) return;
+    const r = rate;
+    converted.push({
+      ...point,
+      price: point.price / r,
+      ...(point.open !== undefined && { open: point.open / r }),
+      ...(point.high !== undefined && { high: point.high / r }),
+      ...(point.low !== undefined && { low: point.low / r })
+    });
+  });
+  return converted;
+};
+
+/**
+ * Fetches the conversion series for a quote currency over the analysis range, or
+ * null for USD. Throws when no usable rates come back.
+ */
+export const fetchQuoteRates = async (
+  provider: PriceProvider,
+  currency: QuoteCurrency,
+  startDate: string,
+  endDate: string
+): Promise<PricePoint[] | null> => {
+  const { rateTicker, label } = QUOTE_CURRENCIES[currency];
+  if (!rateTicker) return null;
+
+  const rates = (await provider.fetchHistory(rateTicker, startDate, endDate))
+    .filter(r => Number.isFinite(r.price) && r.price > 0);
+  if (rates.length === 0) {
+    throw new Error(`No ${label} (${rateTicker}) conversion rates found between ${startDate} and ${endDate}.`);
+  }
+  return rates;
+};
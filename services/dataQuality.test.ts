@@ -0,0 +1,105 @@
+
+import { describe, expect, it } from 'vitest';
+import { checkDataQuality, validatePriceSeries, DEFAULT_DATA_QUALITY_OPTIONS } from './dataQuality';
+import { CoveragePolicy, PricePoint } from '../types';
+import { dailySeries } from './testFixtures';
+
+// Alternating 100 / 101 closes, so daily returns are about ±1%
+const chop = (days: number) => dailySeries(...Array.from({ length: days }, (_, i) => i % 2 === 0 ? 100 : 101));
+
+describe('validatePriceSeries', () => {
+  it('reports a gap and the coverage it costs', () => {
+    const data: PricePoint[] = [
+      { date: '2024-01-01', price: 100 },
+      { date: '2024-01-04', price: 103 }
+    ];
+    const report = validatePriceSeries(data, '2024-01-01', '2024-01-04');
+    expect(report.gaps).toEqual([{ from: '2024-01-01', to: '2024-01-04', missingDays: 2 }]);
+    expect(report.expectedDays).toBe(4);
+    expect(report.coveragePct).toBe(50);
+    expect(report.belowMinCoverage).toBe(true);
+  });
+
+  it('lists duplicate dates once and counts them as one covered day', () => {
+    const data: PricePoint[] = [
+      { date: '2024-01-01', price: 100 },
+      { date: '2024-01-02', price: 101 },
+      { date: '2024-01-02', price: 150 },
+      { date: '2024-01-02', price: 151 },
+      { date: '2024-01-03', price: 102 }
+    ];
+    const report = validatePriceSeries(data, '2024-01-01', '2024-01-03');
+    expect(report.duplicates).toEqual(['2024-01-02']);
+    expect(report.coveragePct).toBe(100);
+    expect(report.points).toBe(5);
+  });
+
+  it('flags a one-day spike that reverts', () => {
+    const data = chop(10);
+    data[5] = { ...data[5], price: 150 };
+    const { outliers } = validatePriceSeries(data, '2024-01-01', '2024-01-10');
+    // The spike and the fall back from it both stand out; only the spike reverts
+    expect(outliers.map(o => [o.date, o.reverts])).toEqual([['2024-01-06', true], ['2024-01-07', false]]);
+    expect(outliers[0].returnPct).toBeCloseTo(50);
+    // ln(1.5) against a median of ln(1.01) and a MAD of 2 * ln(1.01)
+    expect(outliers[0].zScore).toBeCloseTo(0.6745 * (Math.log(1.5) - Math.log(1.01)) / (2 * Math.log(1.01)));
+  });
+
+  it('does not flag a sustained rally', () => {
+    const data = chop(12);
+    let price = 101;
+    for (let i = 0; i < 4; i++) {
+      price *= 1.08;
+      data.push({ date: `2024-01-${13 + i}`, price });
+    }
+    expect(validatePriceSeries(data, '2024-01-01', '2024-01-16').outliers).toEqual([]);
+  });
+
+  it('counts malformed rows as invalid', () => {
+    const data = [...dailySeries(100, 101), { date: '2024-01-03', price: 0 }, { date: 'soon', price: 100 }];
+    expect(validatePriceSeries(data, '2024-01-01', '2024-01-03').invalid).toBe(2);
+  });
+});
+
+describe('checkDataQuality', () => {
+  it('forward-fills a gap with the previous close', () => {
+    const data: PricePoint[] = [
+      { date: '2024-01-01', price: 100, high: 101, low: 99, volume: 5 },
+      { date: '2024-01-04', price: 103, high: 104, low: 102, volume: 7 }
+    ];
+    const checked = checkDataQuality('BTC', data, '2024-01-01', '2024-01-04', { ...DEFAULT_DATA_QUALITY_OPTIONS, forwardFill: true });
+    expect(checked.data).toEqual([
+      data[0],
+      { date: '2024-01-02', price: 100, open: 100, high: 100, low: 100, volume: 0 },
+      { date: '2024-01-03', price: 100, open: 100, high: 100, low: 100, volume: 0 },
+      data[1]
+    ]);
+    expect(checked.quality.repairs).toEqual(['Forward-filled 2 missing days']);
+  });
+
+  it('drops a reverting spike before filling the hole it leaves', () => {
+    const data = chop(10);
+    data[5] = { ...data[5], price: 150 };
+    const checked = checkDataQuality('BTC', data, '2024-01-01', '2024-01-10', { ...DEFAULT_DATA_QUALITY_OPTIONS, dropOutliers: true, forwardFill: true });
+    expect(checked.data).toHaveLength(10);
+    expect(checked.data[5]).toMatchObject({ date: '2024-01-06', price: data[4].price });
+    expect(checked.quality.repairs).toEqual(['Dropped 1 price spike', 'Forward-filled 1 missing day']);
+  });
+
+  it('keeps the first row of a duplicated date', () => {
+    const data: PricePoint[] = [
+      { date: '2024-01-01', price: 100 },
+      { date: '2024-01-02', price: 101 },
+      { date: '2024-01-02', price: 150 }
+    ];
+    const checked = checkDataQuality('BTC', data, '2024-01-01', '2024-01-02');
+    expect(checked.data.map(p => p.price)).toEqual([100, 101]);
+    expect(checked.quality.repairs).toEqual(['Removed 1 duplicate row']);
+  });
+
+  it('refuses a series below the minimum coverage under REFUSE', () => {
+    const data = dailySeries(100, 101);
+    expect(() => checkDataQuality('BTC', data, '2024-01-01', '2024-01-10', { ...DEFAULT_DATA_QUALITY_OPTIONS, policy: CoveragePolicy.REFUSE }))
+      .toThrow('Only 20.0% of days have a valid BTC price');
+  });
+});
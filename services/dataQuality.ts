@@ -0,0 +1,172 @@
+
+import { CoveragePolicy, DataQualityOptions, DataQualityReport, PriceGap, PriceOutlier, PricePoint } from "../types";
+import { daysBetween } from "./analysisEngine";
+import { addDays, isIsoDate, todayIso } from "./dateRange";
+import { median } from "./statistics";
+
+export const DEFAULT_DATA_QUALITY_OPTIONS: DataQualityOptions = {
+  minCoveragePct: 80,
+  policy: CoveragePolicy.WARN,
+  dedupe: true,
+  forwardFill: false,
+  dropOutliers: false
+};
+
+// Crypto routinely moves 10%+ in a day, so this sits well above the textbook 3.5
+const OUTLIER_Z_SCORE = 6;
+
+// Scales the median absolute deviation to a standard deviation for normal data
+const MAD_SCALE = 0.6745;
+
+const isValidPoint = (point: PricePoint) =>
+  typeof point.date === 'string' && isIsoDate(point.date) && Number.isFinite(point.price) && point.price > 0;
+
+const firstPerDate = (data: PricePoint[]) => {
+  const seen = new Set<string>();
+  return data.filter(point => {
+    if (seen.has(point.date)) return false;
+    seen.add(point.date);
+    return true;
+  });
+};
+
+const findGaps = (series: PricePoint[]): PriceGap[] => {
+  const gaps: PriceGap[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const missingDays = daysBetween(series[i - 1].date, series[i].date) - 1;
+    if (missingDays > 0) gaps.push({ from: series[i - 1].date, to: series[i].date, missingDays });
+  }
+  return gaps;
+};
+
+/**
+ * Flags day-over-day log returns whose robust z-score (median and MAD rather than
+ * mean and standard deviation, so the outliers don't mask themselves) exceeds the cut-off.
+ */
+const findOutliers = (series: PricePoint[]): PriceOutlier[] => {
+  const returns = series.slice(1).map((point, i) => Math.log(point.price / series[i].price));
+  const center = median(returns);
+  const mad = median(returns.map(r => Math.abs(r - center)));
+  if (mad === 0) return [];
+
+  const zScores = returns.map(r => (MAD_SCALE * (r - center)) / mad);
+  const outliers: PriceOutlier[] = [];
+  zScores.forEach((z, i) => {
+    if (Math.abs(z) <= OUTLIER_Z_SCORE) return;
+    const next = zScores[i + 1];
+    const point = series[i + 1];
+    outliers.push({
+      date: point.date,
+      price: point.price,
+      returnPct: (Math.exp(returns[i]) - 1) * 100,
+      zScore: z,
+      reverts: next !== undefined && Math.abs(next) > OUTLIER_Z_SCORE && Math.sign(next) !== Math.sign(z)
+    });
+  });
+  return outliers;
+};
+
+/**
+ * Reports on a raw price series without changing it: duplicate dates, gaps, return
+ * outliers, malformed rows and how much of the requested range has a valid price.
+ * Days after today are not expected yet.
+ */
+export const validatePriceSeries = (
+  data: PricePoint[],
+  startDate: string,
+  endDate: string,
+  minCoveragePct: number = DEFAULT_DATA_QUALITY_OPTIONS.minCoveragePct
+): DataQualityReport => {
+  const valid = data.filter(isValidPoint).sort((a, b) => a.date.localeCompare(b.date));
+  const unique = firstPerDate(valid);
+  const duplicates = Array.from(new Set(valid.filter((point, i) => i > 0 && valid[i - 1].date === point.date).map(p => p.date)));
+
+  const rangeEnd = endDate < todayIso() ? endDate : todayIso();
+  const expectedDays = rangeEnd >= startDate ? daysBetween(startDate, rangeEnd) + 1 : 0;
+  const covered = unique.filter(point => point.date >= startDate && point.date <= rangeEnd).length;
+  const coveragePct = expectedDays > 0 ? Math.min(100, (covered / expectedDays) * 100) : 0;
+
+  return {
+    points: data.length,
+    expectedDays,
+    coveragePct,
+    duplicates,
+    gaps: findGaps(unique),
+    outliers: findOutliers(unique),
+    invalid: data.length - valid.length,
+    belowMinCoverage: coveragePct < minCoveragePct,
+    repairs: []
+  };
+};
+
+/**
+ * Applies the selected repairs to a validated series. Malformed rows are always
+ * dropped since detection can't use them. Spikes are removed before forward-filling
+ * so the hole they leave is filled with the previous close.
+ */
+export const repairPriceSeries = (
+  data: PricePoint[],
+  report: DataQualityReport,
+  options: DataQualityOptions
+): { data: PricePoint[]; repairs: string[] } => {
+  const repairs: string[] = [];
+  let series = data.filter(isValidPoint).sort((a, b) => a.date.localeCompare(b.date));
+  if (report.invalid > 0) repairs.push(`Dropped ${report.invalid} invalid ${report.invalid === 1 ? 'row' : 'rows'}`);
+
+  if (options.dedupe && report.duplicates.length > 0) {
+    const before = series.length;
+    series = firstPerDate(series);
+    repairs.push(`Removed ${before - series.length} duplicate ${before - series.length === 1 ? 'row' : 'rows'}`);
+  }
+
+  if (options.dropOutliers) {
+    const spikes = new Set(report.outliers.filter(o => o.reverts).map(o => o.date));
+    if (spikes.size > 0) {
+      series = series.filter(point => !spikes.has(point.date));
+      repairs.push(`Dropped ${spikes.size} price ${spikes.size === 1 ? 'spike' : 'spikes'}`);
+    }
+  }
+
+  if (options.forwardFill) {
+    const filled: PricePoint[] = [];
+    let added = 0;
+    series.forEach((point, i) => {
+      const previous = series[i - 1];
+      if (previous) {
+        // A flat candle with no volume, carrying only the fields the series already has
+        const close = previous.price;
+        const candle = previous.high !== undefined ? { open: close, high: close, low: close } : {};
+        const volume = previous.volume !== undefined ? { volume: 0 } : {};
+        for (let date = addDays(previous.date, 1); date < point.date; date = addDays(date, 1)) {
+          filled.push({ date, price: close, ...candle, ...volume });
+          added++;
+        }
+      }
+      filled.push(point);
+    });
+    if (added > 0) repairs.push(`Forward-filled ${added} missing ${added === 1 ? 'day' : 'days'}`);
+    series = filled;
+  }
+
+  return { data: series, repairs };
+};
+
+/**
+ * Validates and repairs a fetched series. Below the minimum coverage the analysis
+ * either fails (REFUSE) or continues with the shortfall flagged on the report (WARN).
+ */
+export const checkDataQuality = (
+  ticker: string,
+  data: PricePoint[],
+  startDate: string,
+  endDate: string,
+  options: DataQualityOptions = DEFAULT_DATA_QUALITY_OPTIONS
+): { data: PricePoint[]; quality: DataQualityReport } => {
+  const report = validatePriceSeries(data, startDate, endDate, options.minCoveragePct);
+  if (report.belowMinCoverage && options.policy === CoveragePolicy.REFUSE) {
+    throw new Error(`Only ${report.coveragePct.toFixed(1)}% of days have a valid ${ticker} price (minimum ${options.minCoveragePct}%). Try another source or lower the coverage requirement.`);
+  }
+
+  const repaired = repairPriceSeries(data, report, options);
+  return { data: repaired.data, quality: { ...report, repairs: repaired.repairs } };
+};
@@ -0,0 +1,20 @@
+
+import { describe, expect, it } from 'vitest';
+import { mergeSeries } from './dateRange';
+
+describe('mergeSeries', () => {
+  it('keeps the first chunk where chunks overlap on a date', () => {
+    const merged = mergeSeries([
+      [{ date: '2023-12-31', price: 1 }, { date: '2024-01-01', price: 2 }],
+      [{ date: '2024-01-01', price: 3 }, { date: '2024-01-02', price: 4 }]
+    ]);
+    expect(merged.map(p => p.price)).toEqual([1, 2, 4]);
+  });
+
+  it('keeps duplicates from within one chunk for the data-quality check', () => {
+    const merged = mergeSeries([
+      [{ date: '2024-01-01', price: 1 }, { date: '2024-01-01', price: 2 }]
+    ]);
+    expect(merged).toHaveLength(2);
+  });
+});
@@ -0,0 +1,81 @@
+
+import { PricePoint } from "../types";
+
+export interface YearChunk {
+  year: number;
+  startDate: string;
+  endDate: string;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const todayIso = () => new Date().toISOString().split('T')[0];
+
+export const isIsoDate = (value: string) => ISO_DATE.test(value) && !isNaN(Date.parse(value));
+
+export const isValidRange = (startDate: string, endDate: string) =>
+  ISO_DATE.test(startDate) && ISO_DATE.test(endDate) && startDate <= endDate;
+
+/**
+ * Shifts an ISO date by whole calendar days (UTC, so DST never skips a day).
+ */
+export const addDays = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+/**
+ * Splits an inclusive ISO date range into calendar-year chunks, clipping the
+ * first and last chunk to the range bounds.
+ */
+export const splitRangeByYear = (startDate: string, endDate: string): YearChunk[] => {
+  const chunks: YearChunk[] = [];
+  const firstYear = parseInt(startDate.slice(0, 4));
+  const lastYear = parseInt(endDate.slice(0, 4));
+
+  for (let year = firstYear; year <= lastYear; year++) {
+    chunks.push({
+      year,
+      startDate: year === firstYear ? startDate : `${year}-01-01`,
+      endDate: year === lastYear ? endDate : `${year}-12-31`
+    });
+  }
+  return chunks;
+};
+
+export const filterRange = (data: PricePoint[], startDate: string, endDate: string) =>
+  data.filter(point => point.date >= startDate && point.date <= endDate);
+
+/**
+ * Stitches chunked fetches into one date-sorted series. Where chunks overlap on a
+ * date, the first chunk's point is kept. Duplicates within a single chunk come
+ * from the source itself and are kept, so the data-quality check can report them.
+ */
+export const mergeSeries = (chunks: PricePoint[][]): PricePoint[] => {
+  const seen = new Set<string>();
+  const merged = chunks.flatMap(chunk => {
+    const fresh = chunk.filter(point => !seen.has(point.date));
+    fresh.forEach(point => seen.add(point.date));
+    return fresh;
+  });
+  return merged.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * True when the range covers exactly one calendar year (Jan 1 to Dec 31).
+ */
+export const isFullYear = (startDate: string, endDate: string) =>
+  startDate.slice(0, 4) === endDate.slice(0, 4) && startDate.endsWith('-01-01') && endDate.endsWith('-12-31');
+
+/**
+ * Human readable period, e.g. "2024" or "2021-11-01 → 2023-01-31".
+ */
+export const formatPeriod = (startDate: string, endDate: string) =>
+  isFullYear(startDate, endDate) ? startDate.slice(0, 4) : `${startDate} → ${endDate}`;
+
+/**
+ * Filename-safe variant of `formatPeriod`, e.g. "2024" or "2021-11-01_to_2023-01-31".
+ */
+export const periodSlug = (startDate: string, endDate: string) =>
+  isFullYear(startDate, endDate) ? startDate.slice(0, 4) : `${startDate}_to_${endDate}`;
@@ -0,0 +1,52 @@
+
+const DB_NAME = 'crypto-swing-tracker';
+const DB_VERSION = 2;
+
+export const STORES = {
+  cache: 'cache',     // v1: fetched prices and swing context
+  library: 'library'  // v2: saved analyses
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Opens the app database once, creating any missing stores. Resolves to null where
+ * IndexedDB is unavailable (private browsing, Node), in which case callers no-op.
+ */
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        Object.values(STORES).forEach(store => {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store, { keyPath: store === STORES.cache ? 'key' : 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("Local database unavailable:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const runRequest = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> => {
+  const db = await openDb();
+  if (!db) return undefined;
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
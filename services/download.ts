@@ -0,0 +1,14 @@
+
+/**
+ * Triggers a browser download of in-memory text content.
+ */
+export const downloadTextFile = (fileName: string, contents: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -1,32 +1,40 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { PricePoint, MovementEvent } from "../types";
+import {
+  PricePoint,
+  MovementEvent,
+  MovementResearch,
+  ResearchEvent,
+  EventCategory,
+  ConfidenceLevel,
+  QuoteTick,
+  QuoteCurrency,
+  LlmTask
+} from "../types";
+import { activeLlm } from "./llm";
+import { formatPrice } from "./currency";
 
 export const fetchTickerHistory = async (ticker: string, year: number): Promise<PricePoint[]> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   const isCurrentYear = year === new Date().getFullYear();
   const currentDate = new Date().toISOString().split('T')[0];
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `Provide actual historical daily closing prices for the asset "${ticker}" for the year ${year}. 
+  const response = await activeLlm().provider.generate({
+    task: LlmTask.HISTORY,
+    subject: `${ticker}|${year}`,
+    prompt: `Provide actual historical daily closing prices for the asset "${ticker}" for the year ${year}. 
     ${isCurrentYear ? `Since it is the current year, provide data from January 1st up to ${currentDate}.` : `Provide data for the full year.`}
     Prices must be at 00:00 ET (Daily Close). 
     Return the data as a JSON array of objects with "date" (YYYY-MM-DD) and "price" (number). 
     Use your search tool to ensure the prices are accurate historical records for this specific ticker.`,
-    config: {
-      tools: [{ googleSearch: {} }],
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            date: { type: Type.STRING, description: 'ISO date YYYY-MM-DD' },
-            price: { type: Type.NUMBER, description: 'Closing price at 00:00 ET' }
-          },
-          required: ["date", "price"]
-        }
+    search: true,
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', description: 'ISO date YYYY-MM-DD' },
+          price: { type: 'number', description: 'Closing price at 00:00 ET' }
+        },
+        required: ["date", "price"]
       }
     }
   });
@@ -36,49 +44,158 @@ export const fetchTickerHistory = async (ticker: string, year: number): Promise<
     const data = JSON.parse(text);
     if (!Array.isArray(data)) throw new Error("Invalid data format received");
     
+    // Rows from other years are dropped here; everything else, including bad prices and
+    // duplicate dates, is left for the data-quality check to report
     return data
-      .filter(item => item.date && item.price)
+      .filter(item => typeof item?.date === 'string' && item.date.startsWith(String(year)))
+      .map((item): PricePoint => ({ date: item.date.slice(0, 10), price: Number(item.price) }))
       .sort((a: PricePoint, b: PricePoint) => a.date.localeCompare(b.date));
   } catch (error) {
-    console.error("Error parsing Gemini response:", error);
+    console.error("Error parsing price history response:", error);
     throw new Error(`Failed to fetch accurate historical data for ${ticker}. Please try again.`);
   }
 };
 
 /**
- * Fetches context for a SINGLE movement event. 
- * Strictly limits the summary to 50 words or fewer.
+ * Asks the configured model (with search, where available) for the most recent
+ * price of a ticker, for watch mode.
  */
-export const fetchSingleMovementContext = async (ticker: string, move: MovementEvent): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+export const fetchLatestPrice = async (ticker: string): Promise<QuoteTick> => {
+  const response = await activeLlm().provider.generate({
+    task: LlmTask.QUOTE,
+    subject: ticker,
+    prompt: `What is the latest traded price of the asset "${ticker}" in USD right now? 
+    Use your search tool to find a live or most recent quote. 
+    Return JSON with "price" (number) and "date" (YYYY-MM-DD, the day of the quote).`,
+    search: true,
+    schema: {
+      type: 'object',
+      properties: {
+        price: { type: 'number' },
+        date: { type: 'string', description: 'ISO date YYYY-MM-DD' }
+      },
+      required: ["price", "date"]
+    }
+  });
+
+  let quote: any;
+  try {
+    quote = JSON.parse(response.text || '{}');
+  } catch (error) {
+    console.error("Error parsing latest price response:", error);
+  }
+  const price = Number(quote?.price);
+  if (!(price > 0) || typeof quote?.date !== 'string') {
+    throw new Error(`Failed to fetch a latest price for ${ticker}.`);
+  }
+  return { ticker, price, date: quote.date.slice(0, 10), time: Date.now() };
+};
+
+const truncateWords = (text: string, limit: number) => {
+  const words = text.split(/\s+/);
+  return words.length > limit ? words.slice(0, limit).join(' ') + '...' : text;
+};
+
+const toCategory = (value: unknown): EventCategory =>
+  Object.values(EventCategory).includes(value as EventCategory) ? value as EventCategory : EventCategory.OTHER;
+
+const toConfidence = (value: unknown): ConfidenceLevel =>
+  value === 'HIGH' || value === 'MEDIUM' ? value : 'LOW';
+
+// One line of technical backdrop for the research prompt; empty when no indicators were recorded
+const describeIndicators = (move: MovementEvent) => {
+  const start = move.indicators?.start;
+  if (!start) return '';
+  const parts = [
+    start.rsi !== undefined && `14-day RSI was ${start.rsi.toFixed(0)}${move.indicators?.end.rsi !== undefined ? ` at the start and ${move.indicators.end.rsi.toFixed(0)} at the end` : ' at the start'}`,
+    start.aboveSma200 !== undefined && `price started ${start.aboveSma200 ? 'above' : 'below'} its 200-day moving average`,
+    start.realizedVol !== undefined && `30-day annualized volatility was ${start.realizedVol.toFixed(0)}%`
+  ].filter(Boolean);
+  return parts.length > 0 ? `Technical backdrop: ${parts.join('; ')}.` : '';
+};
+
+/**
+ * Fetches structured, cited research for a SINGLE movement event.
+ * The summary is strictly limited to the configured word limit; events outside the swing window are dropped.
+ * Prices are quoted in `currency`. Aborting `signal` cancels the in-flight request.
+ */
+export const fetchSingleMovementContext = async (
+  ticker: string,
+  move: MovementEvent,
+  signal?: AbortSignal,
+  currency: QuoteCurrency = QuoteCurrency.USD
+): Promise<MovementResearch> => {
+  const { provider, settings } = activeLlm();
+  const wordLimit = settings.wordLimit;
+
   const prompt = `Research and explain why the price of ${ticker} moved ${move.type} by ${Math.abs(move.percentageChange).toFixed(2)}% between ${move.startDate} and ${move.endDate}.
-  The price went from $${move.startPrice.toLocaleString()} to $${move.endPrice.toLocaleString()}.
-  Identify specific macro or micro events (news, Fed decisions, hacks, ETF flows) that directly contributed to this ${move.type} movement.
+  The price went from ${formatPrice(move.startPrice, currency)} to ${formatPrice(move.endPrice, currency)}${currency === QuoteCurrency.USD ? '' : ` (quoted in ${currency})`}.
+  ${describeIndicators(move)}
+  Identify specific macro or micro events (news, Fed decisions, regulation, hacks, ETF flows, on-chain activity) that directly contributed to this ${move.type} movement.
   
-  STRICT INSTRUCTION: Provide a concise summary of NO MORE THAN 50 WORDS. Do not use filler phrases. Focus solely on causes for the ${move.type} direction.`;
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: prompt,
-    config: {
-      tools: [{ googleSearch: {} }],
-      systemInstruction: "You are a concise financial analyst. Your responses MUST NEVER exceed 50 words. Be direct and strictly focused on the requested price direction."
+  Return JSON with:
+  - "summary": a concise explanation of NO MORE THAN ${wordLimit} WORDS, focused solely on causes for the ${move.type} direction.
+  - "events": the specific events, each with "date" (YYYY-MM-DD, between ${move.startDate} and ${move.endDate}), a short "title", and a "category" of ${Object.values(EventCategory).join(', ')}.
+  - "confidence": HIGH, MEDIUM or LOW, reflecting how clearly the sources tie these events to the move.`;
+
+  const response = await provider.generate({
+    task: LlmTask.RESEARCH,
+    subject: `${ticker}|${move.type}|${move.startDate}|${move.endDate}|${currency}`,
+    prompt,
+    signal,
+    search: true,
+    system: `You are a concise financial analyst. Summaries MUST NEVER exceed ${wordLimit} words. Be direct and strictly focused on the requested price direction. Only cite events you found through search.`,
+    schema: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string' },
+        events: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              date: { type: 'string', description: 'ISO date YYYY-MM-DD' },
+              title: { type: 'string' },
+              category: { type: 'string', enum: Object.values(EventCategory) }
+            },
+            required: ["date", "title", "category"]
+          }
+        },
+        confidence: { type: 'string', enum: ['HIGH', 'MEDIUM', 'LOW'] }
+      },
+      required: ["summary", "events", "confidence"]
     }
   });
 
+  const { sources } = response;
+
   try {
-    let result = response.text?.trim() || "No specific event data identified for this movement.";
-    
-    // Safety check: force truncation if the model ignores instructions
-    const words = result.split(/\s+/);
-    if (words.length > 50) {
-        return words.slice(0, 50).join(' ') + '...';
-    }
-    
-    return result;
+    const text = response.text.trim() || '{}';
+    // Search-grounded responses occasionally wrap the JSON in a code fence
+    const parsed = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+
+    const events: ResearchEvent[] = (Array.isArray(parsed.events) ? parsed.events : [])
+      .filter((e: any) => typeof e?.date === 'string' && typeof e?.title === 'string')
+      .map((e: any) => ({ date: e.date.slice(0, 10), title: e.title, category: toCategory(e.category) }))
+      .filter((e: ResearchEvent) => e.date >= move.startDate && e.date <= move.endDate)
+      .sort((a: ResearchEvent, b: ResearchEvent) => a.date.localeCompare(b.date));
+
+    return {
+      summary: truncateWords(String(parsed.summary || "No specific event data identified for this movement.").trim(), wordLimit),
+      categories: Array.from(new Set(events.map(e => e.category))),
+      events,
+      // Uncited claims can't be checked, so they never rate above LOW
+      confidence: sources.length > 0 ? toConfidence(parsed.confidence) : 'LOW',
+      sources
+    };
   } catch (error) {
-    console.error("Error fetching individual context:", error);
-    return "Event research failed for this period.";
+    console.error("Error parsing movement research:", error);
+    return {
+      summary: truncateWords(response.text.trim() || "Event research failed for this period.", wordLimit),
+      categories: [],
+      events: [],
+      confidence: 'LOW',
+      sources
+    };
   }
 };
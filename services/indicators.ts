@@ -0,0 +1,190 @@
+
+import { IndicatorSnapshot, MovementEvent, PricePoint } from "../types";
+
+// Values are aligned with the input series; undefined until the lookback window has filled
+export type IndicatorLine = (number | undefined)[];
+
+export interface IndicatorSeries {
+  sma50: IndicatorLine;
+  sma200: IndicatorLine;
+  ema20: IndicatorLine;
+  rsi: IndicatorLine;
+  bollingerUpper: IndicatorLine;
+  bollingerMiddle: IndicatorLine;
+  bollingerLower: IndicatorLine;
+  atr: IndicatorLine;
+  atrPct: IndicatorLine;
+  realizedVol: IndicatorLine;
+}
+
+export const RSI_PERIOD = 14;
+export const ATR_PERIOD = 14;
+export const BOLLINGER_PERIOD = 20;
+export const BOLLINGER_WIDTH = 2;
+export const VOLATILITY_PERIOD = 30;
+
+// Crypto trades every day, so daily volatility annualizes over 365 days rather than 252
+const DAYS_PER_YEAR = 365;
+
+export const sma = (values: number[], period: number): IndicatorLine => {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    return i >= period - 1 ? sum / period : undefined;
+  });
+};
+
+// Seeded with the simple average of the first window
+export const ema = (values: number[], period: number): IndicatorLine => {
+  const k = 2 / (period + 1);
+  let prev: number | undefined;
+  return values.map((value, i) => {
+    if (i < period - 1) return undefined;
+    prev = prev === undefined
+      ? values.slice(0, period).reduce((acc, v) => acc + v, 0) / period
+      : value * k + prev * (1 - k);
+    return prev;
+  });
+};
+
+// Wilder smoothing: a simple average for the first window, then (prev * (n - 1) + value) / n
+const wilder = (values: number[], period: number, offset: number): IndicatorLine => {
+  let prev: number | undefined;
+  return values.map((value, i) => {
+    if (i < offset + period - 1) return undefined;
+    prev = prev === undefined
+      ? values.slice(offset, offset + period).reduce((acc, v) => acc + v, 0) / period
+      : (prev * (period - 1) + value) / period;
+    return prev;
+  });
+};
+
+export const rsi = (closes: number[], period = RSI_PERIOD): IndicatorLine => {
+  const changes = closes.map((close, i) => i === 0 ? 0 : close - closes[i - 1]);
+  const gains = wilder(changes.map(c => Math.max(0, c)), period, 1);
+  const losses = wilder(changes.map(c => Math.max(0, -c)), period, 1);
+  return closes.map((_, i) => {
+    const gain = gains[i];
+    const loss = losses[i];
+    if (gain === undefined || loss === undefined) return undefined;
+    return loss === 0 ? (gain === 0 ? 50 : 100) : 100 - 100 / (1 + gain / loss);
+  });
+};
+
+export const bollinger = (closes: number[], period = BOLLINGER_PERIOD, width = BOLLINGER_WIDTH) => {
+  const middle = sma(closes, period);
+  const deviation = closes.map((_, i) => {
+    const mid = middle[i];
+    if (mid === undefined) return undefined;
+    const window = closes.slice(i - period + 1, i + 1);
+    return Math.sqrt(window.reduce((acc, v) => acc + (v - mid) ** 2, 0) / period);
+  });
+  return {
+    middle,
+    upper: middle.map((mid, i) => mid === undefined ? undefined : mid + width * deviation[i]!),
+    lower: middle.map((mid, i) => mid === undefined ? undefined : mid - width * deviation[i]!)
+  };
+};
+
+/**
+ * Average true range. Without highs and lows the true range falls back to the
+ * absolute close-to-close change, which understates it but keeps the scale.
+ */
+export const atr = (data: PricePoint[], period = ATR_PERIOD): IndicatorLine => {
+  const ranges = data.map((point, i) => {
+    const prevClose = i > 0 ? data[i - 1].price : point.price;
+    const high = point.high ?? Math.max(point.price, prevClose);
+    const low = point.low ?? Math.min(point.price, prevClose);
+    return i === 0 ? high - low : Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
+  });
+  return wilder(ranges, period, 1);
+};
+
+// Sample standard deviation of the last `period` daily log returns, as a fraction
+export const returnVolatility = (closes: number[], period: number): IndicatorLine => {
+  const returns = closes.map((close, i) => i === 0 ? 0 : Math.log(close / closes[i - 1]));
+  return closes.map((_, i) => {
+    if (i < period || period < 2) return undefined;
+    const window = returns.slice(i - period + 1, i + 1);
+    const avg = window.reduce((acc, v) => acc + v, 0) / period;
+    return Math.sqrt(window.reduce((acc, v) => acc + (v - avg) ** 2, 0) / (period - 1));
+  });
+};
+
+// Annualized volatility of daily log returns, in percent
+export const realizedVolatility = (closes: number[], period = VOLATILITY_PERIOD): IndicatorLine =>
+  returnVolatility(closes, period).map(value => value === undefined ? undefined : value * Math.sqrt(DAYS_PER_YEAR) * 100);
+
+export const computeIndicators = (data: PricePoint[]): IndicatorSeries => {
+  const closes = data.map(d => d.price);
+  const bands = bollinger(closes);
+  const trueRange = atr(data);
+  return {
+    sma50: sma(closes, 50),
+    sma200: sma(closes, 200),
+    ema20: ema(closes, 20),
+    rsi: rsi(closes),
+    bollingerUpper: bands.upper,
+    bollingerMiddle: bands.middle,
+    bollingerLower: bands.lower,
+    atr: trueRange,
+    atrPct: trueRange.map((value, i) => value === undefined ? undefined : (value / closes[i]) * 100),
+    realizedVol: realizedVolatility(closes)
+  };
+};
+
+const round = (value: number | undefined, digits = 2) =>
+  value === undefined ? undefined : Number(value.toFixed(digits));
+
+export const snapshotAt = (data: PricePoint[], series: IndicatorSeries, index: number): IndicatorSnapshot => {
+  const close = data[index].price;
+  const sma200 = series.sma200[index];
+  const upper = series.bollingerUpper[index];
+  const lower = series.bollingerLower[index];
+  const snapshot: IndicatorSnapshot = {
+    rsi: round(series.rsi[index], 1),
+    sma50: series.sma50[index],
+    sma200,
+    aboveSma200: sma200 === undefined ? undefined : close > sma200,
+    bollingerPctB: upper !== undefined && lower !== undefined && upper > lower ? round((close - lower) / (upper - lower)) : undefined,
+    atrPct: round(series.atrPct[index]),
+    realizedVol: round(series.realizedVol[index], 1)
+  };
+  // Dropped rather than stored as undefined so saved analyses stay compact
+  return Object.fromEntries(Object.entries(snapshot).filter(([, value]) => value !== undefined)) as IndicatorSnapshot;
+};
+
+/**
+ * Records indicator readings at each swing's start and end date. Swings whose
+ * dates are not in the series are returned unchanged.
+ */
+export const annotateMovements = (movements: MovementEvent[], data: PricePoint[], series = computeIndicators(data)): MovementEvent[] => {
+  const indexByDate = new Map(data.map((point, i) => [point.date, i]));
+  return movements.map(move => {
+    const start = indexByDate.get(move.startDate);
+    const end = indexByDate.get(move.endDate);
+    if (start === undefined || end === undefined) return move;
+    return { ...move, indicators: { start: snapshotAt(data, series, start), end: snapshotAt(data, series, end) } };
+  });
+};
+
+export type SwingRegime = 'ALL' | 'ABOVE_SMA200' | 'BELOW_SMA200' | 'RSI_OVERSOLD' | 'RSI_OVERBOUGHT' | 'HIGH_VOL' | 'LOW_VOL';
+
+export const RSI_OVERSOLD = 30;
+export const RSI_OVERBOUGHT = 70;
+export const HIGH_VOLATILITY = 60; // Annualized percent
+
+// Regimes are read at the swing's start, i.e. the conditions it began in
+export const SWING_REGIMES: Record<SwingRegime, { label: string; matches: (start: IndicatorSnapshot) => boolean }> = {
+  ALL: { label: 'All regimes', matches: () => true },
+  ABOVE_SMA200: { label: 'Above 200-day SMA', matches: s => s.aboveSma200 === true },
+  BELOW_SMA200: { label: 'Below 200-day SMA', matches: s => s.aboveSma200 === false },
+  RSI_OVERSOLD: { label: `RSI below ${RSI_OVERSOLD}`, matches: s => s.rsi !== undefined && s.rsi < RSI_OVERSOLD },
+  RSI_OVERBOUGHT: { label: `RSI above ${RSI_OVERBOUGHT}`, matches: s => s.rsi !== undefined && s.rsi > RSI_OVERBOUGHT },
+  HIGH_VOL: { label: `Volatility above ${HIGH_VOLATILITY}%`, matches: s => s.realizedVol !== undefined && s.realizedVol > HIGH_VOLATILITY },
+  LOW_VOL: { label: `Volatility below ${HIGH_VOLATILITY}%`, matches: s => s.realizedVol !== undefined && s.realizedVol <= HIGH_VOLATILITY }
+};
+
+export const matchesRegime = (move: MovementEvent, regime: SwingRegime) =>
+  regime === 'ALL' || (move.indicators !== undefined && SWING_REGIMES[regime].matches(move.indicators.start));
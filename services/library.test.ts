@@ -0,0 +1,39 @@
+
+import { describe, expect, it } from 'vitest';
+import { importLibrary, parseLibrary } from './library';
+import { buildAnalysis } from './testFixtures';
+
+const result = buildAnalysis({ ticker: 'ETH' });
+
+const libraryFile = (analyses: unknown[]) =>
+  '\uFEFF' + JSON.stringify({ format: 'crypto-swing-tracker/library', version: 1, analyses });
+
+describe('importLibrary', () => {
+  it('imports valid entries and counts the invalid ones', async () => {
+    const summary = await importLibrary(libraryFile([
+      { id: 'a', name: 'Valid', savedAt: 1, result },
+      { id: 'b', name: 'No prices', savedAt: 1, result: { ...result, data: [] } },
+      { id: 'c', name: 'No ticker', savedAt: 1, result: { ...result, ticker: 42 } },
+      { name: 'No id', savedAt: 1, result },
+      null
+    ]));
+    expect(summary).toEqual({ imported: 1, skipped: 4 });
+  });
+
+  it('rejects files that are not library exports', async () => {
+    await expect(importLibrary('{"format":"crypto-swing-tracker/analysis"}')).rejects.toThrow('not a Crypto Swing Tracker library');
+  });
+});
+
+describe('parseLibrary', () => {
+  it('cleans entries whose quality report or research is malformed', () => {
+    const research = { summary: 'Hack', categories: ['HACK'], events: [{ date: '2024-01-02', title: 7 }], confidence: 'LOW', sources: [] };
+    const { entries, skipped } = parseLibrary(libraryFile([
+      { id: 'a', name: 'Bad quality', savedAt: 1, result: { ...result, quality: {} } },
+      { id: 'b', name: 'Bad research', savedAt: 1, result: { ...result, movements: [{ ...result.movements[0], research }] } }
+    ]));
+    expect(skipped).toBe(0);
+    expect(entries[0].result.quality).toBeUndefined();
+    expect(entries[1].result.movements).toEqual([]);
+  });
+});
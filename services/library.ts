@@ -0,0 +1,117 @@
+
+import { AnalysisResult, MovementEvent, SavedAnalysis } from "../types";
+import { runRequest, STORES } from "./db";
+import { movementKey } from "./analysisEngine";
+import { parseAnalysis } from "./analysisExport";
+
+const LIBRARY_FORMAT = 'crypto-swing-tracker/library';
+const LIBRARY_VERSION = 1;
+
+interface LibraryFile {
+  format: typeof LIBRARY_FORMAT;
+  version: number;
+  exportedAt: string;
+  analyses: SavedAnalysis[];
+}
+
+export interface LibraryImport {
+  imported: number;
+  skipped: number; // Entries without an id or name, or whose analysis failed validation
+}
+
+export interface MovementDiff {
+  added: MovementEvent[];   // Present only in the second analysis
+  removed: MovementEvent[]; // Present only in the first analysis
+  shared: number;
+}
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const listSavedAnalyses = async (): Promise<SavedAnalysis[]> => {
+  const items = await runRequest<SavedAnalysis[]>(STORES.library, 'readonly', store => store.getAll());
+  return (items ?? []).sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const saveAnalysis = async (name: string, result: AnalysisResult): Promise<SavedAnalysis> => {
+  const saved: SavedAnalysis = { id: createId(), name: name.trim() || result.ticker, savedAt: Date.now(), result };
+  await runRequest(STORES.library, 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+export const renameAnalysis = async (saved: SavedAnalysis, name: string) => {
+  await runRequest(STORES.library, 'readwrite', store => store.put({ ...saved, name: name.trim() || saved.name }));
+};
+
+export const deleteAnalysis = async (id: string) => {
+  await runRequest(STORES.library, 'readwrite', store => store.delete(id));
+};
+
+export const exportLibrary = async (): Promise<string> => {
+  const file: LibraryFile = {
+    format: LIBRARY_FORMAT,
+    version: LIBRARY_VERSION,
+    exportedAt: new Date().toISOString(),
+    analyses: await listSavedAnalyses()
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Reads an exported library. Each analysis is validated like a single analysis
+ * import, so what is returned is safe to open; invalid entries are skipped and counted.
+ */
+export const parseLibrary = (text: string): { entries: SavedAnalysis[]; skipped: number } => {
+  let file: Partial<LibraryFile>;
+  try {
+    file = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error("The library file could not be parsed.");
+  }
+
+  if (file.format !== LIBRARY_FORMAT || !Array.isArray(file.analyses)) {
+    throw new Error("This is not a Crypto Swing Tracker library export.");
+  }
+  if ((file.version ?? 0) > LIBRARY_VERSION) {
+    throw new Error(`Library version ${file.version} is newer than this app supports.`);
+  }
+
+  const valid: SavedAnalysis[] = [];
+  file.analyses.forEach((item: any) => {
+    if (!item || typeof item.id !== 'string' || typeof item.name !== 'string') return;
+    try {
+      valid.push({ id: item.id, name: item.name, savedAt: Number(item.savedAt) || Date.now(), result: parseAnalysis(item.result) });
+    } catch {
+      // Counted as skipped below
+    }
+  });
+  return { entries: valid, skipped: file.analyses.length - valid.length };
+};
+
+/**
+ * Merges an exported library into the local one. Entries whose id already exists
+ * locally are overwritten, so re-importing a teammate's file updates it in place.
+ */
+export const importLibrary = async (text: string): Promise<LibraryImport> => {
+  const { entries, skipped } = parseLibrary(text);
+  for (const item of entries) {
+    await runRequest(STORES.library, 'readwrite', store => store.put(item));
+  }
+  return { imported: entries.length, skipped };
+};
+
+/**
+ * Compares the swings of two analyses by start date, end date and direction.
+ */
+export const diffMovements = (first: AnalysisResult, second: AnalysisResult): MovementDiff => {
+  const firstKeys = new Set(first.movements.map(movementKey));
+  const secondKeys = new Set(second.movements.map(movementKey));
+
+  return {
+    added: second.movements.filter(m => !firstKeys.has(movementKey(m))),
+    removed: first.movements.filter(m => !secondKeys.has(movementKey(m))),
+    shared: first.movements.filter(m => secondKeys.has(movementKey(m))).length
+  };
+};
@@ -0,0 +1,65 @@
+
+import { describe, expect, it } from 'vitest';
+import { createMockLlm, exportLlmFixtures, importLlmFixtures, historyCacheVariant, researchCacheVariant, withRecording, DEFAULT_LLM_SETTINGS, LlmFixture, LlmProvider, LlmRequest } from './llm';
+import { LlmProviderKind, LlmTask } from '../types';
+
+const live: LlmProvider = {
+  kind: LlmProviderKind.OPENAI,
+  label: 'Test',
+  generate: async request => ({ text: `answer for ${request.subject}`, sources: [] })
+};
+
+const request = (subject: string, prompt = 'Today is 2024-06-01. Explain the move.'): LlmRequest =>
+  ({ task: LlmTask.RESEARCH, subject, prompt, schema: { type: 'object' } });
+
+describe('the offline mock', () => {
+  it('replays a recording when the prompt wording has changed', async () => {
+    const recorded: LlmFixture[] = [];
+    await withRecording(live, fixture => recorded.push(fixture)).generate(request('BTC|UP|2024-01-01|2024-01-09|USD'));
+
+    const mock = createMockLlm(importLlmFixtures(exportLlmFixtures(recorded)));
+    const replayed = await mock.generate(request('BTC|UP|2024-01-01|2024-01-09|USD', 'Today is 2024-07-15. Explain the move briefly.'));
+    expect(replayed.text).toBe('answer for BTC|UP|2024-01-01|2024-01-09|USD');
+  });
+
+  it('fails a request it has no recording for', async () => {
+    await expect(createMockLlm([]).generate(request('ETH|DOWN|2024-02-01|2024-02-05|USD')))
+      .rejects.toThrow('no recorded swing research response for ETH|DOWN|2024-02-01|2024-02-05|USD');
+  });
+
+  it('rejects fixture files recorded against prompt hashes', () => {
+    const legacy = JSON.stringify({ format: 'crypto-swing-tracker/llm-fixtures', version: 1, fixtures: [] });
+    expect(() => importLlmFixtures(legacy)).toThrow('Record the responses again');
+  });
+});
+
+describe('researchCacheVariant', () => {
+  it('keeps the default settings on the original cache key', () => {
+    expect(researchCacheVariant(DEFAULT_LLM_SETTINGS)).toBe('');
+  });
+
+  it('separates research by word limit and provider', () => {
+    const shorter = researchCacheVariant({ ...DEFAULT_LLM_SETTINGS, wordLimit: 20 });
+    const local = researchCacheVariant({ ...DEFAULT_LLM_SETTINGS, provider: LlmProviderKind.OPENAI });
+    expect(shorter).not.toBe('');
+    expect(local).not.toBe('');
+    expect(shorter).not.toBe(local);
+  });
+});
+
+describe('historyCacheVariant', () => {
+  it('keeps Gemini prices on the original cache key', () => {
+    expect(historyCacheVariant(DEFAULT_LLM_SETTINGS)).toBe('');
+    expect(historyCacheVariant({ ...DEFAULT_LLM_SETTINGS, wordLimit: 20 })).toBe('');
+  });
+
+  it('separates prices by provider and history model', () => {
+    const local = historyCacheVariant({ ...DEFAULT_LLM_SETTINGS, provider: LlmProviderKind.OPENAI });
+    const otherModel = historyCacheVariant({
+      ...DEFAULT_LLM_SETTINGS,
+      models: { ...DEFAULT_LLM_SETTINGS.models, [LlmTask.HISTORY]: 'gemini-3-pro-preview' }
+    });
+    expect(local).toContain(LlmProviderKind.OPENAI);
+    expect(otherModel).toContain('gemini-3-pro-preview');
+  });
+});
@@ -0,0 +1,265 @@
+
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { LlmProviderKind, LlmSettings, LlmTask, ResearchSource } from "../types";
+
+// The subset of JSON Schema the prompts use; every adapter accepts it as is
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  subject: string; // What is asked, independent of prompt wording and today's date, e.g. "BTC|2024"
+  prompt: string;
+  system?: string;
+  schema: JsonSchema;
+  search?: boolean; // Ground the answer in web search where the provider can
+  signal?: AbortSignal;
+}
+
+export interface LlmResponse {
+  text: string;
+  sources: ResearchSource[]; // Pages the provider actually searched; empty without grounding
+}
+
+export interface LlmProvider {
+  kind: LlmProviderKind;
+  label: string;
+  generate: (request: LlmRequest) => Promise<LlmResponse>;
+}
+
+// A recorded request and its response, replayed by the mock provider
+export interface LlmFixture {
+  key: string;
+  task: LlmTask;
+  subject: string;
+  prompt: string; // For reading the recording; matching uses the key
+  text: string;
+  sources: ResearchSource[];
+}
+
+export const LLM_PROVIDER_LABELS: Record<LlmProviderKind, string> = {
+  [LlmProviderKind.GEMINI]: 'Gemini',
+  [LlmProviderKind.OPENAI]: 'OpenAI-compatible',
+  [LlmProviderKind.MOCK]: 'Offline mock'
+};
+
+export const LLM_TASK_LABELS: Record<LlmTask, string> = {
+  [LlmTask.HISTORY]: 'Price history',
+  [LlmTask.QUOTE]: 'Latest quote',
+  [LlmTask.RESEARCH]: 'Swing research'
+};
+
+export const DEFAULT_LLM_MODELS: Record<LlmProviderKind, Record<LlmTask, string>> = {
+  [LlmProviderKind.GEMINI]: {
+    [LlmTask.HISTORY]: 'gemini-3-flash-preview',
+    [LlmTask.QUOTE]: 'gemini-3-flash-preview',
+    [LlmTask.RESEARCH]: 'gemini-3-pro-preview'
+  },
+  [LlmProviderKind.OPENAI]: {
+    [LlmTask.HISTORY]: 'gpt-4o-mini',
+    [LlmTask.QUOTE]: 'gpt-4o-mini',
+    [LlmTask.RESEARCH]: 'gpt-4o'
+  },
+  [LlmProviderKind.MOCK]: {
+    [LlmTask.HISTORY]: 'fixtures',
+    [LlmTask.QUOTE]: 'fixtures',
+    [LlmTask.RESEARCH]: 'fixtures'
+  }
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: LlmProviderKind.GEMINI,
+  models: DEFAULT_LLM_MODELS[LlmProviderKind.GEMINI],
+  temperature: 1,
+  wordLimit: 50,
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: ''
+};
+
+const usesDefaultModel = ({ provider, models }: LlmSettings, task: LlmTask) =>
+  provider === DEFAULT_LLM_SETTINGS.provider && models[task] === DEFAULT_LLM_SETTINGS.models[task];
+
+// Separates cached research by the settings that shape it; empty for the defaults research was cached under before
+export const researchCacheVariant = (settings: LlmSettings) =>
+  usesDefaultModel(settings, LlmTask.RESEARCH) && settings.wordLimit === DEFAULT_LLM_SETTINGS.wordLimit
+    ? ''
+    : `${settings.provider}:${settings.models[LlmTask.RESEARCH]}:${settings.wordLimit}`;
+
+// The same for model-sourced price history, which only depends on the provider and model
+export const historyCacheVariant = (settings: LlmSettings) =>
+  usesDefaultModel(settings, LlmTask.HISTORY) ? '' : `${settings.provider}:${settings.models[LlmTask.HISTORY]}`;
+
+const LLM_FIXTURE_FORMAT = 'crypto-swing-tracker/llm-fixtures';
+const LLM_FIXTURE_VERSION = 2; // Version 1 matched on a hash of the prompt
+
+/**
+ * Collects the web sources Gemini actually searched, de-duplicated by URL.
+ * These come from grounding metadata, so they can be checked independently of the model's text.
+ */
+const groundingSources = (response: GenerateContentResponse): ResearchSource[] => {
+  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  const byUrl = new Map<string, ResearchSource>();
+  chunks.forEach(chunk => {
+    const uri = chunk.web?.uri;
+    if (uri && !byUrl.has(uri)) byUrl.set(uri, { url: uri, title: chunk.web?.title || uri });
+  });
+  return Array.from(byUrl.values());
+};
+
+export const createGeminiLlm = (settings: LlmSettings): LlmProvider => ({
+  kind: LlmProviderKind.GEMINI,
+  label: LLM_PROVIDER_LABELS[LlmProviderKind.GEMINI],
+  generate: async ({ task, prompt, system, schema, search, signal }) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: settings.models[task],
+      contents: prompt,
+      config: {
+        abortSignal: signal,
+        temperature: settings.temperature,
+        ...(search && { tools: [{ googleSearch: {} }] }),
+        ...(system && { systemInstruction: system }),
+        responseMimeType: "application/json",
+        responseJsonSchema: schema
+      }
+    });
+    return { text: response.text ?? '', sources: groundingSources(response) };
+  }
+});
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API (OpenAI
+ * itself, Ollama, LM Studio, llama.cpp, vLLM). These have no search tool, so
+ * answers come from the model alone and carry no sources.
+ */
+export const createOpenAiLlm = (settings: LlmSettings): LlmProvider => ({
+  kind: LlmProviderKind.OPENAI,
+  label: settings.baseUrl,
+  generate: async ({ task, prompt, system, schema, signal }) => {
+    const response = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey && { Authorization: `Bearer ${settings.apiKey}` })
+      },
+      body: JSON.stringify({
+        model: settings.models[task],
+        temperature: settings.temperature,
+        messages: [
+          ...(system ? [{ role: 'system', content: system }] : []),
+          { role: 'user', content: prompt }
+        ],
+        response_format: { type: 'json_schema', json_schema: { name: task.toLowerCase(), schema } }
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`LLM endpoint responded with ${response.status} ${response.statusText}.`);
+    }
+    const body = await response.json();
+    return { text: String(body?.choices?.[0]?.message?.content ?? ''), sources: [] };
+  }
+});
+
+// Prompts change wording and carry today's date, so recordings are matched on what was asked instead
+export const fixtureKey = ({ task, subject }: Pick<LlmRequest, 'task' | 'subject'>) => `${task}:${subject}`;
+
+/**
+ * Replays recorded responses, matched on task and subject. Deterministic and
+ * offline, for demos and tests. A request without a recording fails rather than
+ * inventing an answer.
+ */
+export const createMockLlm = (fixtures: LlmFixture[]): LlmProvider => {
+  const byKey = new Map(fixtures.map(fixture => [fixture.key, fixture]));
+  return {
+    kind: LlmProviderKind.MOCK,
+    label: LLM_PROVIDER_LABELS[LlmProviderKind.MOCK],
+    generate: async request => {
+      const fixture = byKey.get(fixtureKey(request));
+      if (!fixture) {
+        throw new Error(`The offline mock has no recorded ${LLM_TASK_LABELS[request.task].toLowerCase()} response for ${request.subject}.`);
+      }
+      return { text: fixture.text, sources: fixture.sources };
+    }
+  };
+};
+
+// Passes requests through and hands every response to `onRecord` as a fixture
+export const withRecording = (provider: LlmProvider, onRecord: (fixture: LlmFixture) => void): LlmProvider => ({
+  ...provider,
+  generate: async request => {
+    const response = await provider.generate(request);
+    onRecord({
+      key: fixtureKey(request),
+      task: request.task,
+      subject: request.subject,
+      prompt: request.prompt,
+      text: response.text,
+      sources: response.sources
+    });
+    return response;
+  }
+});
+
+export const createLlmProvider = (settings: LlmSettings, fixtures: LlmFixture[] = []): LlmProvider => {
+  switch (settings.provider) {
+    case LlmProviderKind.OPENAI:
+      return createOpenAiLlm(settings);
+    case LlmProviderKind.MOCK:
+      return createMockLlm(fixtures);
+    default:
+      return createGeminiLlm(settings);
+  }
+};
+
+export const exportLlmFixtures = (fixtures: LlmFixture[]): string => JSON.stringify({
+  format: LLM_FIXTURE_FORMAT,
+  version: LLM_FIXTURE_VERSION,
+  fixtures
+}, null, 2);
+
+const isFixture = (fixture: any): fixture is LlmFixture =>
+  fixture && typeof fixture.subject === 'string' && typeof fixture.text === 'string' &&
+  Object.values(LlmTask).includes(fixture.task);
+
+export const importLlmFixtures = (text: string): LlmFixture[] => {
+  let file: any;
+  try {
+    file = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error("The fixture file could not be parsed.");
+  }
+  if (file?.format !== LLM_FIXTURE_FORMAT || !Array.isArray(file.fixtures)) {
+    throw new Error("This is not a Crypto Swing Tracker LLM fixture file.");
+  }
+  if ((file.version ?? 0) > LLM_FIXTURE_VERSION) {
+    throw new Error(`Fixture format version ${file.version} is newer than this app supports.`);
+  }
+  if ((file.version ?? 0) < LLM_FIXTURE_VERSION) {
+    throw new Error(`Fixture format version ${file.version ?? 0} can't be replayed any more. Record the responses again.`);
+  }
+  return file.fixtures.filter(isFixture).map((fixture: LlmFixture) => ({
+    ...fixture,
+    key: fixtureKey(fixture),
+    prompt: String(fixture.prompt ?? ''),
+    sources: Array.isArray(fixture.sources) ? fixture.sources : []
+  }));
+};
+
+// The app and the CLI configure one provider at startup and whenever settings change
+let active: { provider: LlmProvider; settings: LlmSettings } = {
+  provider: createGeminiLlm(DEFAULT_LLM_SETTINGS),
+  settings: DEFAULT_LLM_SETTINGS
+};
+
+export const configureLlm = (provider: LlmProvider, settings: LlmSettings) => {
+  active = { provider, settings };
+};
+
+export const activeLlm = () => active;
@@ -0,0 +1,77 @@
+
+import { AnalysisResult, MovementType, QuoteCurrency } from "../types";
+import { daysBetween, describeMode, describeThreshold } from "./analysisEngine";
+import { formatPeriod } from "./dateRange";
+import { formatPrice, QUOTE_CURRENCIES } from "./currency";
+
+const signedPct = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+// Pipes would split a table cell and line breaks would end the row
+const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\s*\r?\n\s*/g, ' ');
+
+const table = (header: string[], rows: string[][], align: ('left' | 'right')[]) => [
+  `| ${header.join(' | ')} |`,
+  `| ${align.map(a => a === 'right' ? '---:' : '---').join(' | ')} |`,
+  ...rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+].join('\n');
+
+/**
+ * Plain-text swing report with the same summary and timeline as the PDF, for
+ * terminals, pull requests and wikis.
+ */
+export const analysisToMarkdown = (result: AnalysisResult): string => {
+  const period = formatPeriod(result.startDate, result.endDate);
+  const prices = result.data.map(d => d.price);
+  const first = prices[0];
+  const last = prices[prices.length - 1];
+  const upCount = result.movements.filter(m => m.type === MovementType.UP).length;
+  const currency = result.currency ?? QuoteCurrency.USD;
+  const money = (value: number) => formatPrice(value, currency);
+
+  const summary: [string, string][] = [
+    ['Period', `${period} (${daysBetween(result.startDate, result.endDate) + 1} days)`],
+    ['Threshold', describeThreshold(result.targetPercentage, result.adaptive)],
+    ['Detection', describeMode(result.mode, result.trigger)],
+    ['Source', result.source],
+    ['Quote currency', `${currency} (${QUOTE_CURRENCIES[currency].label})`],
+    ['Period high / low', `${money(Math.max(...prices))} / ${money(Math.min(...prices))}`],
+    ['First / last close', `${money(first)} / ${money(last)}`],
+    ['Total change', signedPct(((last - first) / first) * 100)],
+    ['Swings', `${result.movements.length} (${upCount} up, ${result.movements.length - upCount} down)`],
+    ...(result.quality ? [
+      ['Data coverage', `${result.quality.coveragePct.toFixed(1)}% of ${result.quality.expectedDays} days${result.quality.belowMinCoverage ? ' (below minimum)' : ''}`] as [string, string],
+      ['Repairs', result.quality.repairs.length > 0 ? result.quality.repairs.join('; ') : 'None'] as [string, string]
+    ] : [])
+  ];
+
+  const timeline = result.movements.length === 0
+    ? '_No swings reached the threshold in this period._'
+    : table(
+      ['#', 'Type', 'Start', 'End', 'Change', 'Days', 'Context'],
+      result.movements.map((move, idx) => [
+        String(idx + 1),
+        move.type,
+        `${move.startDate} @ ${money(move.startPrice)}`,
+        `${move.endDate} @ ${money(move.endPrice)}`,
+        result.adaptive && move.thresholdPercent !== undefined
+          ? `${signedPct(move.percentageChange)} of ${move.thresholdPercent.toFixed(2)}%`
+          : signedPct(move.percentageChange),
+        String(move.daysTaken),
+        move.research
+          ? `${move.research.summary} (${move.research.confidence} confidence${move.research.sources.length > 0 ? `, ${move.research.sources.length} sources` : ''})`
+          : move.context || '-'
+      ]),
+      ['right', 'left', 'left', 'left', 'right', 'right', 'left']
+    );
+
+  return [
+    `# ${result.ticker} Swing Report`,
+    '',
+    table(['Metric', 'Value'], summary.map(([key, value]) => [`**${key}**`, value]), ['left', 'left']),
+    '',
+    '## Swing Timeline',
+    '',
+    timeline,
+    ''
+  ].join('\n');
+};
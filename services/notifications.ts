@@ -0,0 +1,24 @@
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const notificationsGranted = () => notificationsSupported() && Notification.permission === 'granted';
+
+// Resolves to whether notifications may be shown; only prompts while the user has not decided
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'default') await Notification.requestPermission();
+  return Notification.permission === 'granted';
+};
+
+/**
+ * Shows a browser notification when permitted; otherwise does nothing. Alerts
+ * sharing a `tag` replace each other instead of stacking.
+ */
+export const showNotification = (title: string, body: string, tag?: string) => {
+  if (!notificationsGranted()) return;
+  try {
+    new Notification(title, { body, tag });
+  } catch (error) {
+    console.error("Notification failed:", error);
+  }
+};
@@ -0,0 +1,259 @@
+
+import { AnalysisResult, MovementEvent, MovementType, PricePoint } from "../types";
+import { daysBetween } from "./analysisEngine";
+import { mean, median, percentile } from "./statistics";
+
+export type MagnitudeBand = 'SMALL' | 'MEDIUM' | 'LARGE';
+export type DurationBand = 'SHORT' | 'MEDIUM' | 'LONG';
+export type Season = 'Q1' | 'Q2' | 'Q3' | 'Q4';
+
+export const SEASONS: Season[] = ['Q1', 'Q2', 'Q3', 'Q4'];
+
+export const MAGNITUDE_BAND_LABELS: Record<MagnitudeBand, string> = { SMALL: 'Small', MEDIUM: 'Medium', LARGE: 'Large' };
+export const DURATION_BAND_LABELS: Record<DurationBand, string> = { SHORT: 'Short', MEDIUM: 'Medium', LONG: 'Long' };
+
+// Cut points between the lower, middle and upper third of a sample
+export interface BandEdges {
+  lower: number;
+  upper: number;
+}
+
+export interface SwingCluster {
+  key: string;
+  type: MovementType;
+  magnitude: MagnitudeBand;
+  duration: DurationBand;
+  season: Season;
+  movements: MovementEvent[];
+  years: number[]; // Distinct start years
+  medianChange: number;
+  medianDays: number;
+}
+
+export interface RecurringPattern {
+  type: MovementType;
+  season: Season;
+  movements: MovementEvent[];
+  years: number[];      // Covered years with at least one such swing
+  yearsCovered: number; // Years whose data spans the season
+  hitRate: number;      // years / yearsCovered
+  lift: number;         // Swings per covered year against the average quarter for this direction
+  medianChange: number;
+  medianDays: number;
+}
+
+export interface SeasonalReturn {
+  season: Season;
+  returns: { year: number; change: number }[]; // First to last close of the season, in percent
+  meanChange: number;
+  upYears: number;
+  consistency: number; // Share of years moving in the majority direction
+}
+
+export interface PatternOptions {
+  minYears: number;   // A pattern must show up in at least this many years
+  minHitRate: number; // ...and in at least this share of the years covering its season
+}
+
+export const DEFAULT_PATTERN_OPTIONS: PatternOptions = {
+  minYears: 3,
+  minHitRate: 0.6
+};
+
+export interface PatternReport {
+  years: number[];
+  magnitudeEdges: BandEdges; // Absolute percentage change
+  durationEdges: BandEdges;  // Days
+  clusters: SwingCluster[];
+  recurring: RecurringPattern[];
+  seasons: SeasonalReturn[];
+}
+
+// A season counts for a year when the data spans most of it
+const MIN_SEASON_COVERAGE = 0.8;
+
+const yearOf = (date: string) => parseInt(date.slice(0, 4));
+
+export const seasonOf = (date: string): Season => SEASONS[Math.floor((parseInt(date.slice(5, 7)) - 1) / 3)];
+
+const seasonBounds = (year: number, season: Season) => {
+  const first = SEASONS.indexOf(season) * 3;
+  return {
+    startDate: `${year}-${String(first + 1).padStart(2, '0')}-01`,
+    endDate: new Date(Date.UTC(year, first + 3, 0)).toISOString().slice(0, 10)
+  };
+};
+
+const seasonPoints = (data: PricePoint[], year: number, season: Season) => {
+  const { startDate, endDate } = seasonBounds(year, season);
+  return data.filter(p => p.date >= startDate && p.date <= endDate);
+};
+
+const coversSeason = (data: PricePoint[], year: number, season: Season) => {
+  const points = seasonPoints(data, year, season);
+  if (points.length < 2) return false;
+  const { startDate, endDate } = seasonBounds(year, season);
+  return (daysBetween(points[0].date, points[points.length - 1].date) + 1) / (daysBetween(startDate, endDate) + 1) >= MIN_SEASON_COVERAGE;
+};
+
+const terciles = (values: number[]): BandEdges => ({ lower: percentile(values, 100 / 3), upper: percentile(values, 200 / 3) });
+
+const band = <T extends string>(value: number, edges: BandEdges, bands: [T, T, T]): T =>
+  value <= edges.lower ? bands[0] : value <= edges.upper ? bands[1] : bands[2];
+
+const distinctYears = (movements: MovementEvent[]) =>
+  Array.from(new Set(movements.map(m => yearOf(m.startDate)))).sort((a, b) => a - b);
+
+/**
+ * Groups the swings of a multi-year analysis by direction, magnitude, duration
+ * and the quarter they started in, and looks for behaviour that repeats across
+ * years. Magnitude and duration bands are the terciles of this analysis, so
+ * "Large" means large for this ticker and threshold. Works on the loaded data
+ * only; nothing is fetched.
+ */
+export const analyzePatterns = (result: AnalysisResult, options: PatternOptions = DEFAULT_PATTERN_OPTIONS): PatternReport => {
+  const { data, movements } = result;
+  const years = Array.from(new Set(data.map(p => yearOf(p.date)))).sort((a, b) => a - b);
+  const magnitudeEdges = terciles(movements.map(m => Math.abs(m.percentageChange)));
+  const durationEdges = terciles(movements.map(m => m.daysTaken));
+
+  const clusterMap = new Map<string, SwingCluster>();
+  movements.forEach(move => {
+    const magnitude = band<MagnitudeBand>(Math.abs(move.percentageChange), magnitudeEdges, ['SMALL', 'MEDIUM', 'LARGE']);
+    const duration = band<DurationBand>(move.daysTaken, durationEdges, ['SHORT', 'MEDIUM', 'LONG']);
+    const season = seasonOf(move.startDate);
+    const key = `${move.type}|${magnitude}|${duration}|${season}`;
+    const cluster = clusterMap.get(key) ?? { key, type: move.type, magnitude, duration, season, movements: [], years: [], medianChange: 0, medianDays: 0 };
+    cluster.movements.push(move);
+    clusterMap.set(key, cluster);
+  });
+  const clusters = Array.from(clusterMap.values())
+    .map(cluster => ({
+      ...cluster,
+      years: distinctYears(cluster.movements),
+      medianChange: median(cluster.movements.map(m => m.percentageChange)),
+      medianDays: median(cluster.movements.map(m => m.daysTaken))
+    }))
+    .sort((a, b) => b.years.length - a.years.length || b.movements.length - a.movements.length);
+
+  const covered = (season: Season) => years.filter(year => coversSeason(data, year, season));
+
+  // Frequent swings show up in every quarter, so each quarter is also measured against the average one
+  const recurring: RecurringPattern[] = [];
+  [MovementType.UP, MovementType.DOWN].forEach(type => {
+    const candidates = SEASONS.map(season => {
+      const seasonYears = covered(season);
+      const matching = movements.filter(m => m.type === type && seasonOf(m.startDate) === season && seasonYears.includes(yearOf(m.startDate)));
+      return { season, seasonYears, matching, rate: seasonYears.length > 0 ? matching.length / seasonYears.length : 0 };
+    });
+    const baseline = mean(candidates.filter(c => c.seasonYears.length > 0).map(c => c.rate));
+
+    candidates.forEach(({ season, seasonYears, matching, rate }) => {
+      const hitYears = distinctYears(matching);
+      const hitRate = seasonYears.length > 0 ? hitYears.length / seasonYears.length : 0;
+      if (hitYears.length < options.minYears || hitRate < options.minHitRate) return;
+      recurring.push({
+        type,
+        season,
+        movements: matching,
+        years: hitYears,
+        yearsCovered: seasonYears.length,
+        hitRate,
+        lift: baseline > 0 ? rate / baseline : 0,
+        medianChange: median(matching.map(m => m.percentageChange)),
+        medianDays: median(matching.map(m => m.daysTaken))
+      });
+    });
+  });
+  recurring.sort((a, b) => b.lift - a.lift || b.hitRate - a.hitRate);
+
+  const seasons: SeasonalReturn[] = SEASONS.map(season => {
+    const returns = covered(season).map(year => {
+      const points = seasonPoints(data, year, season);
+      return { year, change: ((points[points.length - 1].price - points[0].price) / points[0].price) * 100 };
+    });
+    const upYears = returns.filter(r => r.change > 0).length;
+    return {
+      season,
+      returns,
+      meanChange: mean(returns.map(r => r.change)),
+      upYears,
+      consistency: returns.length > 0 ? Math.max(upYears, returns.length - upYears) / returns.length : 0
+    };
+  });
+
+  return { years, magnitudeEdges, durationEdges, clusters, recurring, seasons };
+};
+
+// Inclusive range of calendar months (0 = January); an end before the start wraps into the next year
+export interface CalendarWindow {
+  startMonth: number;
+  endMonth: number;
+}
+
+export const CALENDAR_WINDOW_PRESETS: Record<string, { label: string; window: CalendarWindow }> = {
+  Q1: { label: 'Q1', window: { startMonth: 0, endMonth: 2 } },
+  Q2: { label: 'Q2', window: { startMonth: 3, endMonth: 5 } },
+  Q3: { label: 'Q3', window: { startMonth: 6, endMonth: 8 } },
+  Q4: { label: 'Q4', window: { startMonth: 9, endMonth: 11 } },
+  WINTER: { label: 'Nov–Feb', window: { startMonth: 10, endMonth: 1 } },
+  YEAR: { label: 'Full year', window: { startMonth: 0, endMonth: 11 } }
+};
+
+export interface OverlaySeries {
+  year: number;     // Year the window starts in
+  label: string;    // "2022", or "2022/23" for windows that wrap
+  partial: boolean; // The data ends before the window does
+  endChange: number;
+}
+
+// One row per day into the window; each year's column is its change since the window opened, in percent
+export type OverlayRow = { offset: number; mean?: number } & Record<string, number | undefined>;
+
+// A window only counts when the data starts this close to its first day
+const MAX_START_GAP_DAYS = 7;
+
+/**
+ * Cuts the same calendar window out of every year and rebases each cut to its
+ * first close, so years line up on one chart regardless of price level. The
+ * mean is taken over complete windows only.
+ */
+export const overlayWindows = (data: PricePoint[], window: CalendarWindow): { series: OverlaySeries[]; rows: OverlayRow[] } => {
+  const wraps = window.endMonth < window.startMonth;
+  const years = Array.from(new Set(data.map(p => yearOf(p.date)))).sort((a, b) => a - b);
+  const series: OverlaySeries[] = [];
+  const rowsByOffset = new Map<number, OverlayRow>();
+  const sums = new Map<number, { total: number; count: number }>();
+
+  years.forEach(year => {
+    const startDate = `${year}-${String(window.startMonth + 1).padStart(2, '0')}-01`;
+    const endDate = new Date(Date.UTC(wraps ? year + 1 : year, window.endMonth + 1, 0)).toISOString().slice(0, 10);
+    const points = data.filter(p => p.date >= startDate && p.date <= endDate);
+    if (points.length < 2 || daysBetween(startDate, points[0].date) > MAX_START_GAP_DAYS) return;
+
+    const partial = daysBetween(points[points.length - 1].date, endDate) > MAX_START_GAP_DAYS;
+    const label = wraps ? `${year}/${String(year + 1).slice(2)}` : String(year);
+    const base = points[0].price;
+    points.forEach(point => {
+      const offset = daysBetween(startDate, point.date);
+      const change = ((point.price - base) / base) * 100;
+      const row = rowsByOffset.get(offset) ?? { offset };
+      row[label] = change;
+      rowsByOffset.set(offset, row);
+      if (!partial) {
+        const sum = sums.get(offset) ?? { total: 0, count: 0 };
+        sums.set(offset, { total: sum.total + change, count: sum.count + 1 });
+      }
+    });
+    series.push({ year, label, partial, endChange: ((points[points.length - 1].price - base) / base) * 100 });
+  });
+
+  const complete = series.filter(s => !s.partial).length;
+  const rows = Array.from(rowsByOffset.values()).sort((a, b) => a.offset - b.offset);
+  // Averaging needs every complete year present, otherwise the mean jumps where a year has a gap
+  rows.forEach(row => {
+    const sum = sums.get(row.offset);
+    if (complete >= 2 && sum && sum.count === complete) row.mean = sum.total / sum.count;
+  });
+  return { series, rows };
+};
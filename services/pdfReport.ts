@@ -0,0 +1,449 @@
+
+import jsPDF from 'jspdf';
+import html2canvas from 'html2canvas';
+import { AnalysisResult, BacktestOptions, BacktestResult, ComparisonResult, MovementType, QuoteCurrency } from "../types";
+import { daysBetween, describeMode, describeThreshold } from "./analysisEngine";
+import { formatPeriod } from "./dateRange";
+import { computeSwingStatistics } from "./swingStatistics";
+import { correlateReturns, summarizeAsset } from "./comparison";
+import { formatPrice, QUOTE_CURRENCIES } from "./currency";
+
+export type PdfPaper = 'a4' | 'letter';
+export type PdfOrientation = 'portrait' | 'landscape';
+
+export interface PdfOptions {
+  paper: PdfPaper;
+  orientation: PdfOrientation;
+}
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = { paper: 'a4', orientation: 'portrait' };
+
+export const PDF_PAPER_LABELS: Record<PdfPaper, string> = { a4: 'A4', letter: 'Letter' };
+
+type Rgb = [number, number, number];
+
+interface TableColumn {
+  header: string;
+  weight: number; // Share of the content width
+  align?: 'left' | 'right';
+}
+
+type TableCell = string | { text: string; color: Rgb };
+
+const MARGIN = 14;
+const FOOTER = 10;
+const PT_TO_MM = 0.3528;
+const LINE_SPACING = 1.25;
+const CELL_PADDING = 1.6;
+
+const TEXT: Rgb = [15, 23, 42];
+const MUTED: Rgb = [100, 116, 139];
+const RULE: Rgb = [226, 232, 240];
+const ZEBRA: Rgb = [248, 250, 252];
+const ACCENT: Rgb = [79, 70, 229];
+const UP: Rgb = [5, 150, 105];
+const DOWN: Rgb = [225, 29, 72];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// The built-in PDF fonts only cover Latin-1, so typographic characters are mapped to ASCII
+const pdfText = (text: string) => text
+  .replace(/[“”]/g, '"')
+  .replace(/[‘’]/g, "'")
+  .replace(/[–—]/g, '-')
+  .replace(/→/g, '->')
+  .replace(/…/g, '...')
+  .replace(/•/g, '-')
+  .replace(/€/g, 'EUR ')
+  .replace(/₿/g, 'BTC ')
+  .replace(/[^\x00-\xFF]/g, '');
+
+const signedPct = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+const directionColor = (type: MovementType): Rgb => type === MovementType.UP ? UP : DOWN;
+
+/**
+ * Small layout helper over jsPDF that tracks the cursor and breaks pages as
+ * content is added. Page numbers are stamped once the document is complete.
+ */
+const createPdfWriter = (options: PdfOptions) => {
+  const pdf = new jsPDF({ orientation: options.orientation, unit: 'mm', format: options.paper, compress: true });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const bottom = pageHeight - MARGIN - FOOTER;
+  let y = MARGIN;
+
+  const lineHeight = (fontSize: number) => fontSize * PT_TO_MM * LINE_SPACING;
+
+  const setFont = (size: number, style: 'normal' | 'bold' = 'normal', color: Rgb = TEXT) => {
+    pdf.setFont('helvetica', style);
+    pdf.setFontSize(size);
+    pdf.setTextColor(...color);
+  };
+
+  const newPage = () => {
+    pdf.addPage();
+    y = MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) newPage();
+  };
+
+  const text = (value: string, size: number, style: 'normal' | 'bold' = 'normal', color: Rgb = TEXT) => {
+    setFont(size, style, color);
+    const lines: string[] = pdf.splitTextToSize(pdfText(value), contentWidth);
+    lines.forEach(line => {
+      ensureSpace(lineHeight(size));
+      pdf.text(line, MARGIN, y + size * PT_TO_MM);
+      y += lineHeight(size);
+    });
+  };
+
+  const heading = (value: string) => {
+    ensureSpace(18);
+    y += 4;
+    text(value, 14, 'bold');
+    pdf.setDrawColor(...ACCENT);
+    pdf.setLineWidth(0.6);
+    pdf.line(MARGIN, y + 0.5, MARGIN + 20, y + 0.5);
+    y += 4;
+  };
+
+  const gap = (height: number) => {
+    y += height;
+  };
+
+  const table = (columns: TableColumn[], rows: TableCell[][], fontSize = 8) => {
+    const totalWeight = columns.reduce((acc, c) => acc + c.weight, 0);
+    const widths = columns.map(c => (c.weight / totalWeight) * contentWidth);
+    const lh = lineHeight(fontSize);
+
+    const drawRow = (cells: TableCell[], header: boolean, shade: boolean) => {
+      setFont(fontSize, header ? 'bold' : 'normal');
+      const wrapped = cells.map((cell, i) =>
+        pdf.splitTextToSize(pdfText(typeof cell === 'string' ? cell : cell.text), widths[i] - CELL_PADDING * 2) as string[]);
+      const height = Math.max(...wrapped.map(lines => lines.length)) * lh + CELL_PADDING * 2;
+
+      if (y + height > bottom) {
+        newPage();
+        if (!header) drawRow(columns.map(c => c.header), true, false);
+      }
+
+      if (header || shade) {
+        pdf.setFillColor(...(header ? RULE : ZEBRA));
+        pdf.rect(MARGIN, y, contentWidth, height, 'F');
+      }
+
+      let x = MARGIN;
+      wrapped.forEach((lines, i) => {
+        const cell = cells[i];
+        const color = header ? MUTED : typeof cell === 'string' ? TEXT : cell.color;
+        const align = columns[i].align ?? 'left';
+        setFont(fontSize, header ? 'bold' : 'normal', color);
+        lines.forEach((line, li) => {
+          const baseline = y + CELL_PADDING + li * lh + fontSize * PT_TO_MM;
+          if (align === 'right') pdf.text(line, x + widths[i] - CELL_PADDING, baseline, { align: 'right' });
+          else pdf.text(line, x + CELL_PADDING, baseline);
+        });
+        x += widths[i];
+      });
+      y += height;
+    };
+
+    drawRow(columns.map(c => c.header), true, false);
+    rows.forEach((row, i) => drawRow(row, false, i % 2 === 1));
+    y += 4;
+  };
+
+  const keyValues = (rows: [string, string][]) =>
+    table([{ header: 'Metric', weight: 1 }, { header: 'Value', weight: 2 }], rows);
+
+  // Scales an image to the content width, capped so it fits on one page
+  const image = (dataUrl: string, aspectRatio: number) => {
+    let width = contentWidth;
+    let height = width / aspectRatio;
+    const maxHeight = bottom - MARGIN;
+    if (height > maxHeight) {
+      height = maxHeight;
+      width = height * aspectRatio;
+    }
+    ensureSpace(height);
+    pdf.addImage(dataUrl, 'PNG', MARGIN, y, width, height, undefined, 'FAST');
+    y += height + 4;
+  };
+
+  const cover = (title: string, subtitle: string, details: [string, string][], generatedAt: string) => {
+    pdf.setFillColor(...ACCENT);
+    pdf.rect(0, 0, pageWidth, 4, 'F');
+    y = pageHeight * 0.28;
+    text('Crypto Swing Tracker', 10, 'bold', ACCENT);
+    gap(2);
+    text(title, 26, 'bold');
+    text(subtitle, 12, 'normal', MUTED);
+    gap(8);
+    details.forEach(([label, value]) => {
+      setFont(9, 'bold', MUTED);
+      pdf.text(pdfText(label.toUpperCase()), MARGIN, y + 9 * PT_TO_MM);
+      setFont(11, 'normal');
+      const lines: string[] = pdf.splitTextToSize(pdfText(value), contentWidth - 45);
+      pdf.text(lines, MARGIN + 45, y + 11 * PT_TO_MM);
+      y += Math.max(1, lines.length) * lineHeight(11) + 1.5;
+    });
+    gap(6);
+    text(`Generated ${generatedAt}`, 9, 'normal', MUTED);
+    newPage();
+  };
+
+  const finish = (footerTitle: string, generatedAt: string) => {
+    const pages = pdf.getNumberOfPages();
+    for (let page = 1; page <= pages; page++) {
+      pdf.setPage(page);
+      setFont(7, 'normal', MUTED);
+      const baseline = pageHeight - MARGIN / 2 - 1;
+      pdf.text(pdfText(`${footerTitle} - generated ${generatedAt}`), MARGIN, baseline);
+      pdf.text(`Page ${page} of ${pages}`, pageWidth - MARGIN, baseline, { align: 'right' });
+    }
+    return pdf;
+  };
+
+  return { heading, text, gap, table, keyValues, image, cover, finish };
+};
+
+export interface ChartImage {
+  dataUrl: string;
+  aspectRatio: number; // Width / height
+}
+
+/**
+ * Rasterizes a chart element for embedding. Only the chart is an image; all
+ * text in the report stays vector and searchable.
+ */
+export const captureChartImage = async (element: HTMLElement): Promise<ChartImage> => {
+  const canvas = await html2canvas(element, { scale: 2, backgroundColor: '#0f172a', useCORS: true, logging: false });
+  return { dataUrl: canvas.toDataURL('image/png'), aspectRatio: canvas.width / canvas.height };
+};
+
+// The backtest as shown in the panel, with the settings it ran under
+export interface BacktestReport {
+  result: BacktestResult;
+  options: BacktestOptions;
+}
+
+/**
+ * Builds the single-asset report: cover, summary, chart, swing statistics,
+ * the backtest (when given) and the full swing timeline with research summaries.
+ */
+export const buildSwingReportPdf = (
+  result: AnalysisResult,
+  chart: ChartImage | null,
+  options: PdfOptions = DEFAULT_PDF_OPTIONS,
+  backtest?: BacktestReport
+): jsPDF => {
+  const writer = createPdfWriter(options);
+  const generatedAt = new Date().toLocaleString();
+  const period = formatPeriod(result.startDate, result.endDate);
+  const prices = result.data.map(d => d.price);
+  const first = prices[0];
+  const last = prices[prices.length - 1];
+  const upCount = result.movements.filter(m => m.type === MovementType.UP).length;
+  const stats = computeSwingStatistics(result.movements, result.targetPercentage, result.startDate, result.endDate);
+  const currency = result.currency ?? QuoteCurrency.USD;
+  const money = (value: number) => formatPrice(value, currency);
+
+  writer.cover(`${result.ticker} Swing Report`, period, [
+    ['Threshold', describeThreshold(result.targetPercentage, result.adaptive)],
+    ['Detection', describeMode(result.mode, result.trigger)],
+    ['Source', result.source],
+    ['Quote currency', `${currency} (${QUOTE_CURRENCIES[currency].label})`],
+    ['Swings', `${result.movements.length} (${upCount} up, ${result.movements.length - upCount} down)`]
+  ], generatedAt);
+
+  writer.heading('Summary');
+  writer.keyValues([
+    ['Period', `${period} (${daysBetween(result.startDate, result.endDate) + 1} days)`],
+    ['Period high', money(Math.max(...prices))],
+    ['Period low', money(Math.min(...prices))],
+    ['First / last close', `${money(first)} / ${money(last)}`],
+    ['Total change', signedPct(((last - first) / first) * 100)],
+    ['Up swings', String(upCount)],
+    ['Down swings', String(result.movements.length - upCount)],
+    ...(result.quality ? [
+      ['Data coverage', `${result.quality.coveragePct.toFixed(1)}% of ${result.quality.expectedDays} days${result.quality.belowMinCoverage ? ' (below minimum)' : ''}`] as [string, string],
+      ['Repairs', result.quality.repairs.length > 0 ? result.quality.repairs.join('; ') : 'None'] as [string, string]
+    ] : [])
+  ]);
+
+  if (chart) {
+    writer.heading('Price Chart');
+    writer.image(chart.dataUrl, chart.aspectRatio);
+  }
+
+  if (result.movements.length > 0) {
+    writer.heading('Swing Statistics');
+    writer.table(
+      [
+        { header: 'Direction', weight: 1.2 },
+        { header: 'Count', weight: 0.8, align: 'right' },
+        { header: 'Median days', weight: 1, align: 'right' },
+        { header: 'P90 days', weight: 1, align: 'right' },
+        { header: 'Mean days', weight: 1, align: 'right' },
+        { header: 'Median overshoot', weight: 1.2, align: 'right' },
+        { header: 'P90 overshoot', weight: 1.2, align: 'right' },
+        { header: 'Longest streak', weight: 1.2, align: 'right' }
+      ],
+      [MovementType.UP, MovementType.DOWN].map(type => [
+        { text: type, color: directionColor(type) },
+        String(stats.duration[type].count),
+        stats.duration[type].median.toFixed(1),
+        stats.duration[type].p90.toFixed(1),
+        stats.duration[type].mean.toFixed(1),
+        `${stats.overshoot[type].median.toFixed(2)}%`,
+        `${stats.overshoot[type].p90.toFixed(2)}%`,
+        String(stats.longestStreaks[type]?.length ?? 0)
+      ])
+    );
+
+    writer.text('Swings by month of end date (up / down)', 9, 'bold', MUTED);
+    writer.gap(1);
+    const years = Array.from(new Set(stats.months.map(cell => cell.year)));
+    writer.table(
+      [{ header: 'Year', weight: 1.2 }, ...MONTHS.map(month => ({ header: month, weight: 1, align: 'right' as const }))],
+      years.map(year => [
+        String(year),
+        ...stats.months.filter(cell => cell.year === year).map(cell => cell.up + cell.down > 0 ? `${cell.up}/${cell.down}` : '-')
+      ]),
+      7
+    );
+  }
+
+  if (backtest) {
+    const { result: run, options: settings } = backtest;
+    writer.heading('Swing Backtest');
+    writer.text(
+      `Trades each swing confirmation at the daily close, ${settings.allowShort ? 'long and short' : 'long-only'}, with ${settings.feeBps} bps fees and ${settings.slippageBps} bps slippage.`,
+      9, 'normal', MUTED
+    );
+    writer.gap(2);
+    writer.keyValues([
+      ['Strategy return', signedPct(run.totalReturnPct)],
+      ['Buy & hold', signedPct(run.buyHoldReturnPct)],
+      ['Max drawdown', `${run.maxDrawdownPct.toFixed(2)}%`],
+      ['Win rate', `${run.winRatePct.toFixed(1)}%`],
+      ['Sharpe (ann.)', run.sharpeRatio.toFixed(2)],
+      ['Starting / final equity', `${money(settings.startingCapital)} / ${money(run.finalEquity)}`],
+      ['Trades', String(run.trades.length)]
+    ]);
+    if (run.trades.length > 0) {
+      writer.table(
+        [
+          { header: 'Side', weight: 1 },
+          { header: 'Entry', weight: 2 },
+          { header: 'Exit', weight: 2 },
+          { header: 'Return', weight: 1, align: 'right' },
+          { header: 'P&L', weight: 1.3, align: 'right' },
+          { header: 'Fees', weight: 1, align: 'right' }
+        ],
+        run.trades.map(trade => [
+          { text: trade.open ? `${trade.side} (open)` : trade.side, color: trade.side === 'LONG' ? UP : DOWN },
+          `${trade.entryDate}\n${money(trade.entryPrice)}`,
+          `${trade.exitDate}\n${money(trade.exitPrice)}`,
+          { text: signedPct(trade.returnPct), color: trade.returnPct >= 0 ? UP : DOWN },
+          { text: money(trade.pnl), color: trade.pnl >= 0 ? UP : DOWN },
+          money(trade.fees)
+        ])
+      );
+    }
+  }
+
+  writer.heading('Swing Timeline');
+  if (result.movements.length === 0) {
+    writer.text('No swings reached the threshold in this period.', 9, 'normal', MUTED);
+  } else {
+    writer.table(
+      [
+        { header: '#', weight: 0.5, align: 'right' },
+        { header: 'Type', weight: 0.9 },
+        { header: 'Start', weight: 1.9 },
+        { header: 'End', weight: 1.9 },
+        { header: 'Change', weight: 1, align: 'right' },
+        { header: 'Days', weight: 0.7, align: 'right' },
+        { header: 'Context', weight: options.orientation === 'landscape' ? 7 : 4.5 }
+      ],
+      result.movements.map((move, idx) => [
+        String(idx + 1),
+        { text: move.type, color: directionColor(move.type) },
+        `${move.startDate}\n${money(move.startPrice)}`,
+        `${move.endDate}\n${money(move.endPrice)}`,
+        {
+          text: result.adaptive && move.thresholdPercent !== undefined
+            ? `${signedPct(move.percentageChange)}\nof ${move.thresholdPercent.toFixed(2)}%`
+            : signedPct(move.percentageChange),
+          color: directionColor(move.type)
+        },
+        String(move.daysTaken),
+        move.research
+          ? `${move.research.summary} [${move.research.confidence} confidence${move.research.sources.length > 0 ? `, ${move.research.sources.length} sources` : ''}]`
+          : move.context || '-'
+      ])
+    );
+  }
+
+  return writer.finish(`${result.ticker} Swing Report - ${period}`, generatedAt);
+};
+
+/**
+ * Builds the multi-asset report: cover, per-asset swing summary, normalized
+ * chart and return correlations.
+ */
+export const buildComparisonReportPdf = (comparison: ComparisonResult, chart: ChartImage | null, options: PdfOptions = DEFAULT_PDF_OPTIONS): jsPDF => {
+  const writer = createPdfWriter(options);
+  const generatedAt = new Date().toLocaleString();
+  const period = formatPeriod(comparison.startDate, comparison.endDate);
+  const tickers = comparison.assets.map(a => a.ticker);
+
+  writer.cover(`${tickers.join(' vs ')}`, `Comparative Analysis - ${period}`, [
+    ['Threshold', describeThreshold(comparison.targetPercentage, comparison.adaptive)],
+    ['Detection', describeMode(comparison.mode, comparison.trigger)],
+    ['Source', comparison.source]
+  ], generatedAt);
+
+  writer.heading('Swing Summary');
+  writer.table(
+    [
+      { header: 'Ticker', weight: 1 },
+      { header: 'Data', weight: 2.4 },
+      { header: 'Change', weight: 1, align: 'right' },
+      { header: 'Up', weight: 0.7, align: 'right' },
+      { header: 'Down', weight: 0.7, align: 'right' },
+      { header: 'Avg up days', weight: 1, align: 'right' },
+      { header: 'Avg down days', weight: 1.1, align: 'right' }
+    ],
+    comparison.assets.map(summarizeAsset).map(stats => [
+      stats.ticker,
+      `${stats.firstDate} -> ${stats.lastDate}`,
+      signedPct(stats.totalChange),
+      String(stats.upCount),
+      String(stats.downCount),
+      stats.avgUpDays.toFixed(1),
+      stats.avgDownDays.toFixed(1)
+    ])
+  );
+
+  if (chart) {
+    writer.heading('Normalized Performance');
+    writer.image(chart.dataUrl, chart.aspectRatio);
+  }
+
+  writer.heading('Return Correlation');
+  writer.table(
+    [{ header: 'Pair', weight: 2 }, { header: 'Correlation', weight: 1, align: 'right' }, { header: 'Shared days', weight: 1, align: 'right' }],
+    correlateReturns(comparison.assets).map(cell => [
+      `${cell.a} / ${cell.b}`,
+      cell.value === null ? 'n/a' : cell.value.toFixed(2),
+      String(cell.overlap)
+    ])
+  );
+
+  return writer.finish(`${tickers.join(' vs ')} - ${period}`, generatedAt);
+};
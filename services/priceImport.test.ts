@@ -0,0 +1,92 @@
+
+import { describe, expect, it } from 'vitest';
+import { parsePriceCsv, parsePriceFile, parsePriceJson } from './priceImport';
+
+// 2024-01-01T00:00:00Z and the next day
+const JAN_1_MS = Date.UTC(2024, 0, 1);
+const JAN_2_MS = Date.UTC(2024, 0, 2);
+
+describe('parsePriceCsv', () => {
+  it('detects comma, semicolon, tab and pipe delimiters', () => {
+    for (const d of [',', ';', '\t', '|']) {
+      const csv = [`date${d}close`, `2024-01-01${d}100`, `2024-01-02${d}101`].join('\n');
+      expect(parsePriceCsv(csv)).toEqual([{ date: '2024-01-01', price: 100 }, { date: '2024-01-02', price: 101 }]);
+    }
+  });
+
+  it('reads decimal commas in semicolon files and thousands separators elsewhere', () => {
+    expect(parsePriceCsv('date;close\n2024-01-01;42000,5').map(p => p.price)).toEqual([42000.5]);
+    expect(parsePriceCsv('date;close\n2024-01-01;42.000,5').map(p => p.price)).toEqual([42000.5]);
+    expect(parsePriceCsv('date,close\n2024-01-01,"42,000.5"').map(p => p.price)).toEqual([42000.5]);
+  });
+
+  it('resolves header aliases regardless of case and punctuation', () => {
+    const csv = 'Open Time,Open Price,High,Low,Adj Close,Base Volume\n2024-01-01,99,105,98,100,12';
+    expect(parsePriceCsv(csv)).toEqual([{ date: '2024-01-01', price: 100, open: 99, high: 105, low: 98, volume: 12 }]);
+  });
+
+  it('reads headerless exchange klines positionally', () => {
+    const csv = `${JAN_1_MS},99,105,98,100,12,${JAN_1_MS + 86399999}\n${JAN_2_MS},100,103,97,101,8,${JAN_2_MS + 86399999}`;
+    expect(parsePriceCsv(csv)).toEqual([
+      { date: '2024-01-01', price: 100, open: 99, high: 105, low: 98, volume: 12 },
+      { date: '2024-01-02', price: 101, open: 100, high: 103, low: 97, volume: 8 }
+    ]);
+  });
+
+  it('collapses intraday rows into daily candles in time order', () => {
+    const csv = [
+      'timestamp,open,high,low,close,volume',
+      '2024-01-01T12:00:00Z,101,104,100,103,2',
+      '2024-01-01T00:00:00Z,100,102,99,101,1'
+    ].join('\n');
+    expect(parsePriceCsv(csv)).toEqual([{ date: '2024-01-01', price: 103, open: 100, high: 104, low: 99, volume: 3 }]);
+  });
+
+  it('skips malformed rows and drops a high/low pair that does not bracket the close', () => {
+    const csv = [
+      'date,close,high,low',
+      '2024-01-01,100,101,99',
+      'not a date,100,101,99',
+      '2024-01-02,n/a,101,99',
+      '2024-01-03,-5,101,99',
+      '2024-01-04,110,101,99'
+    ].join('\n');
+    expect(parsePriceCsv(csv)).toEqual([{ date: '2024-01-01', price: 100, high: 101, low: 99 }, { date: '2024-01-04', price: 110 }]);
+  });
+
+  it('explains files it cannot read', () => {
+    expect(() => parsePriceCsv('\uFEFF\n\n')).toThrow('The CSV file is empty.');
+    expect(() => parsePriceCsv('when,amount\nyesterday,5')).toThrow('Could not find date and close/price columns in the CSV header.');
+  });
+});
+
+describe('parsePriceJson', () => {
+  it('tells epoch seconds from milliseconds', () => {
+    const seconds = JSON.stringify([{ time: JAN_1_MS / 1000, close: 100 }]);
+    const millis = JSON.stringify([{ time: JAN_2_MS, close: 101 }]);
+    expect(parsePriceJson(seconds)).toEqual([{ date: '2024-01-01', price: 100 }]);
+    expect(parsePriceJson(millis)).toEqual([{ date: '2024-01-02', price: 101 }]);
+  });
+
+  it('finds kline arrays inside a wrapper object', () => {
+    const json = JSON.stringify({ result: { klines: [[JAN_1_MS, '99', '105', '98', '100', '12']] } });
+    expect(parsePriceJson(json)).toEqual([{ date: '2024-01-01', price: 100, open: 99, high: 105, low: 98, volume: 12 }]);
+  });
+
+  it('reads [time, price] pairs', () => {
+    expect(parsePriceJson(JSON.stringify({ prices: [[JAN_1_MS, 100], [JAN_2_MS, 101]] })).map(p => p.price)).toEqual([100, 101]);
+  });
+
+  it('explains files it cannot read', () => {
+    expect(() => parsePriceJson('{')).toThrow('The JSON file could not be parsed.');
+    expect(() => parsePriceJson('{"data": []}')).toThrow('No price array found in the JSON file.');
+    expect(() => parsePriceJson('[{"when": "2024-01-01", "amount": 5}]')).toThrow('Could not find date and close/price fields in the JSON records.');
+    expect(() => parsePriceJson('[1, 2]')).toThrow('Unsupported JSON price format.');
+  });
+});
+
+describe('parsePriceFile', () => {
+  it('sniffs JSON contents behind a CSV extension', () => {
+    expect(parsePriceFile('prices.csv', '  [{"date": "2024-01-01", "price": 100}]')).toEqual([{ date: '2024-01-01', price: 100 }]);
+  });
+});
@@ -0,0 +1,278 @@
+
+import { PricePoint } from "../types";
+
+// Header aliases are compared after lowercasing and stripping non-alphanumerics,
+// so "Open Time", "open_time" and "openTime" all resolve to "opentime".
+const DATE_KEYS = ['date', 'day', 'time', 'timestamp', 'datetime', 'opentime', 'snappedat', 'unix'];
+const PRICE_KEYS = ['close', 'adjclose', 'closeprice', 'closingprice', 'price', 'last', 'value', 'rate'];
+const OPEN_KEYS = ['open', 'openprice'];
+const HIGH_KEYS = ['high', 'highprice', 'max'];
+const LOW_KEYS = ['low', 'lowprice', 'min'];
+const VOLUME_KEYS = ['volume', 'vol', 'basevolume', 'volumefrom', 'totalvolume', 'totalvolumes'];
+
+// Wrapper properties commonly used by exchange / aggregator JSON exports
+const ARRAY_KEYS = ['data', 'prices', 'candles', 'klines', 'result', 'results', 'items', 'history', 'values'];
+
+interface RawRow {
+  time: number;
+  date: string;
+  price: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  volume?: number;
+}
+
+// Column indices into a row; optional OHLCV columns are -1 when absent
+interface ColumnMap {
+  date: number;
+  price: number;
+  open: number;
+  high: number;
+  low: number;
+  volume: number;
+}
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toIsoDate = (d: Date, utc: boolean) => utc
+  ? `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`
+  : `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+/**
+ * Accepts ISO strings, locale date strings, and unix timestamps in seconds or milliseconds.
+ * Returns null when the value can't be interpreted as a date.
+ */
+const parseTime = (raw: unknown): { time: number; date: string } | null => {
+  if (raw === null || raw === undefined || raw === '') return null;
+
+  const numeric = typeof raw === 'number' ? raw : (/^\d{9,13}(\.\d+)?$/.test(String(raw).trim()) ? parseFloat(String(raw)) : NaN);
+  if (!isNaN(numeric)) {
+    // Anything below ~1973 in ms is assumed to be a unix timestamp in seconds
+    const ms = numeric < 1e11 ? numeric * 1000 : numeric;
+    const d = new Date(ms);
+    return isNaN(d.getTime()) ? null : { time: ms, date: toIsoDate(d, true) };
+  }
+
+  const text = String(raw).trim();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    const time = Date.UTC(+iso[1], +iso[2] - 1, +iso[3]);
+    return { time: Date.parse(text) || time, date: `${iso[1]}-${iso[2]}-${iso[3]}` };
+  }
+
+  const d = new Date(text);
+  return isNaN(d.getTime()) ? null : { time: d.getTime(), date: toIsoDate(d, false) };
+};
+
+const parsePrice = (raw: unknown, decimalComma: boolean): number => {
+  if (typeof raw === 'number') return raw;
+  if (typeof raw !== 'string') return NaN;
+  let text = raw.trim().replace(/[$€£\s]/g, '');
+  if (!text.includes(',')) return parseFloat(text);
+  // With both separators present the last one is the decimal mark ("1.234,5" vs "1,234.5")
+  const commaIsDecimal = text.includes('.') && text.includes(',')
+    ? text.lastIndexOf(',') > text.lastIndexOf('.')
+    : decimalComma;
+  text = commaIsDecimal ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+  return parseFloat(text);
+};
+
+const findColumn = (keys: string[], candidates: string[]): number => {
+  const normalized = keys.map(normalizeKey);
+  for (const candidate of candidates) {
+    const idx = normalized.indexOf(candidate);
+    if (idx !== -1) return idx;
+  }
+  return -1;
+};
+
+/**
+ * Collapses intraday rows into one candle per calendar day: first open, highest
+ * high, lowest low, last close and summed volume. Rows are ordered by timestamp
+ * first so reverse-chronological exports keep the true daily open and close.
+ */
+const toDailyCandles = (rows: RawRow[]): PricePoint[] => {
+  const byDate = new Map<string, PricePoint>();
+  [...rows]
+    .sort((a, b) => a.time - b.time)
+    .forEach(row => {
+      const prev = byDate.get(row.date);
+      const candle: PricePoint = { date: row.date, price: row.price };
+
+      const open = prev ? prev.open : row.open;
+      if (open !== undefined) candle.open = open;
+      if (row.high !== undefined || prev?.high !== undefined) {
+        candle.high = Math.max(row.high ?? row.price, prev?.high ?? -Infinity);
+        candle.low = Math.min(row.low ?? row.price, prev?.low ?? Infinity);
+      }
+      if (row.volume !== undefined || prev?.volume !== undefined) {
+        candle.volume = (prev?.volume ?? 0) + (row.volume ?? 0);
+      }
+      byDate.set(row.date, candle);
+    });
+
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells.map(c => c.trim());
+};
+
+const detectDelimiter = (line: string): string => {
+  const counts = [',', ';', '\t', '|'].map(d => ({ d, n: line.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+};
+
+/**
+ * Rows without a header are read positionally: [time, price] pairs, or
+ * exchange kline layout [time, open, high, low, close, volume, ...].
+ */
+const positionalColumns = (width: number): ColumnMap => width >= 5
+  ? { date: 0, open: 1, high: 2, low: 3, price: 4, volume: width >= 6 ? 5 : -1 }
+  : { date: 0, price: 1, open: -1, high: -1, low: -1, volume: -1 };
+
+const namedColumns = (keys: string[]): ColumnMap => ({
+  date: findColumn(keys, DATE_KEYS),
+  price: findColumn(keys, PRICE_KEYS),
+  open: findColumn(keys, OPEN_KEYS),
+  high: findColumn(keys, HIGH_KEYS),
+  low: findColumn(keys, LOW_KEYS),
+  volume: findColumn(keys, VOLUME_KEYS)
+});
+
+const parseRows = (rows: unknown[][], columns: ColumnMap, decimalComma: boolean): RawRow[] => {
+  const optional = (cells: unknown[], col: number) => {
+    if (col === -1) return undefined;
+    const value = parsePrice(cells[col], decimalComma);
+    return isFinite(value) ? value : undefined;
+  };
+
+  const parsed: RawRow[] = [];
+  rows.forEach(cells => {
+    const when = parseTime(cells[columns.date]);
+    const price = parsePrice(cells[columns.price], decimalComma);
+    if (!when || !isFinite(price) || price <= 0) return;
+
+    const row: RawRow = { ...when, price };
+    const open = optional(cells, columns.open);
+    const high = optional(cells, columns.high);
+    const low = optional(cells, columns.low);
+    const volume = optional(cells, columns.volume);
+    if (open !== undefined && open > 0) row.open = open;
+    // A high/low pair is only kept when it actually brackets the close
+    if (high !== undefined && low !== undefined && low > 0 && high >= price && low <= price) {
+      row.high = high;
+      row.low = low;
+    }
+    if (volume !== undefined && volume >= 0) row.volume = volume;
+    parsed.push(row);
+  });
+  return parsed;
+};
+
+export const parsePriceCsv = (text: string): PricePoint[] => {
+  // Spreadsheet exports often start with a UTF-8 byte order mark
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim() !== '');
+  if (lines.length === 0) throw new Error("The CSV file is empty.");
+
+  const delimiter = detectDelimiter(lines[0]);
+  const decimalComma = delimiter === ';';
+  const rows = lines.map(l => splitCsvLine(l, delimiter));
+  const header = rows[0];
+
+  let columns = namedColumns(header);
+  let body = rows.slice(1);
+
+  if (columns.date === -1 && columns.price === -1 && parseTime(header[0])) {
+    columns = positionalColumns(header.length);
+    body = rows;
+  }
+
+  if (columns.date === -1 || columns.price === -1) {
+    throw new Error("Could not find date and close/price columns in the CSV header.");
+  }
+
+  return toDailyCandles(parseRows(body, columns, decimalComma));
+};
+
+const findArray = (value: unknown, depth = 0): unknown[] | null => {
+  if (Array.isArray(value)) return value;
+  if (!value || typeof value !== 'object' || depth > 2) return null;
+
+  const record = value as Record<string, unknown>;
+  const keys = Object.keys(record);
+  const preferred = keys.filter(k => ARRAY_KEYS.includes(normalizeKey(k)));
+  for (const key of [...preferred, ...keys]) {
+    const found = findArray(record[key], depth + 1);
+    if (found) return found;
+  }
+  return null;
+};
+
+export const parsePriceJson = (text: string): PricePoint[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The JSON file could not be parsed.");
+  }
+
+  const items = findArray(parsed);
+  if (!items || items.length === 0) throw new Error("No price array found in the JSON file.");
+
+  const first = items[0];
+  if (Array.isArray(first)) {
+    return toDailyCandles(parseRows(items as unknown[][], positionalColumns(first.length), false));
+  }
+
+  if (first && typeof first === 'object') {
+    const keys = Object.keys(first);
+    const columns = namedColumns(keys);
+    if (columns.date === -1 || columns.price === -1) {
+      throw new Error("Could not find date and close/price fields in the JSON records.");
+    }
+    const rows = (items as Record<string, unknown>[]).map(item => keys.map(key => item[key]));
+    return toDailyCandles(parseRows(rows, columns, false));
+  }
+
+  throw new Error("Unsupported JSON price format.");
+};
+
+/**
+ * Parses an uploaded price file (CSV, JSON, or an exchange OHLCV dump) into daily candles.
+ * Open/high/low/volume are filled in whenever the source provides them.
+ * The format is picked from the file extension, falling back to sniffing the contents.
+ */
+export const parsePriceFile = (fileName: string, contents: string): PricePoint[] => {
+  const trimmed = contents.trim();
+  const isJson = /\.json$/i.test(fileName) || trimmed.startsWith('[') || trimmed.startsWith('{');
+  return isJson ? parsePriceJson(trimmed) : parsePriceCsv(trimmed);
+};
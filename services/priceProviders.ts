@@ -0,0 +1,129 @@
+
+import { LlmProviderKind, PricePoint, PriceProvider, PriceSource, PriceSourceConfig } from "../types";
+import { fetchTickerHistory } from "./geminiService";
+import { parsePriceFile, parsePriceJson } from "./priceImport";
+import { filterRange, mergeSeries, splitRangeByYear } from "./dateRange";
+import { expiryForYear, getCached, priceCacheKey, setCached } from "./cache";
+import { activeLlm, historyCacheVariant } from "./llm";
+
+export const PRICE_SOURCE_LABELS: Record<PriceSource, string> = {
+  [PriceSource.GEMINI]: 'Gemini Search',
+  [PriceSource.FILE]: 'Local File',
+  [PriceSource.REST]: 'REST Endpoint'
+};
+
+/**
+ * Fetches a range one calendar year at a time (sequentially, to stay gentle on
+ * rate limits) and stitches the chunks into a single date-sorted series.
+ */
+const fetchByYear = async (
+  startDate: string,
+  endDate: string,
+  fetchChunk: (year: number, chunkStart: string, chunkEnd: string) => Promise<PricePoint[]>
+): Promise<PricePoint[]> => {
+  const chunks: PricePoint[][] = [];
+  for (const chunk of splitRangeByYear(startDate, endDate)) {
+    chunks.push(await fetchChunk(chunk.year, chunk.startDate, chunk.endDate));
+  }
+  return filterRange(mergeSeries(chunks), startDate, endDate);
+};
+
+/**
+ * Serves a year chunk from the persistent cache, loading and storing it on a miss.
+ * Empty results are not stored so a failed year is retried next time.
+ */
+const cachedChunk = async (key: string, label: string, year: number, load: () => Promise<PricePoint[]>) => {
+  const cached = await getCached<PricePoint[]>(key);
+  if (cached) return cached;
+
+  const data = await load();
+  if (data.length > 0) await setCached(key, 'prices', label, data, expiryForYear(year));
+  return data;
+};
+
+/**
+ * Asks the configured model backend for prices, which is Gemini unless the LLM
+ * settings say otherwise. Chunks are cached per provider and history model;
+ * replayed mock fixtures are never cached.
+ */
+export const geminiPriceProvider: PriceProvider = {
+  source: PriceSource.GEMINI,
+  get label() {
+    const { provider } = activeLlm();
+    return provider.kind === LlmProviderKind.GEMINI ? PRICE_SOURCE_LABELS[PriceSource.GEMINI] : provider.label;
+  },
+  fetchHistory: (ticker, startDate, endDate) => {
+    const { settings } = activeLlm();
+    if (settings.provider === LlmProviderKind.MOCK) {
+      return fetchByYear(startDate, endDate, year => fetchTickerHistory(ticker, year));
+    }
+    const variant = historyCacheVariant(settings);
+    const label = geminiPriceProvider.label;
+    return fetchByYear(startDate, endDate, year =>
+      cachedChunk(
+        priceCacheKey(variant ? `${PriceSource.GEMINI}:${variant}` : PriceSource.GEMINI, ticker, String(year)),
+        `${ticker} ${year} · ${label}`,
+        year,
+        () => fetchTickerHistory(ticker, year)
+      )
+    );
+  }
+};
+
+/**
+ * Serves prices from a user-uploaded file. The ticker is ignored since an
+ * export only ever contains one asset; rows outside the requested range are dropped.
+ */
+export const createFilePriceProvider = (fileName: string, contents: string): PriceProvider => ({
+  source: PriceSource.FILE,
+  label: fileName,
+  fetchHistory: async (_ticker, startDate, endDate) => filterRange(parsePriceFile(fileName, contents), startDate, endDate)
+});
+
+/**
+ * Fetches candles from a generic REST endpoint, one request per calendar year of
+ * the range. The URL template may contain {ticker}, {year}, {start} and {end}
+ * placeholders; without any, they are appended as query parameters. Each
+ * response is read like an uploaded JSON file.
+ */
+export const createRestPriceProvider = (urlTemplate: string): PriceProvider => ({
+  source: PriceSource.REST,
+  label: urlTemplate,
+  fetchHistory: (ticker, startDate, endDate) => fetchByYear(startDate, endDate, (year, chunkStart, chunkEnd) => cachedChunk(
+    priceCacheKey(`${PriceSource.REST}:${urlTemplate}`, ticker, `${chunkStart}_${chunkEnd}`),
+    `${ticker} ${chunkStart} → ${chunkEnd} · REST`,
+    year,
+    async () => {
+      const params: Record<string, string> = {
+        ticker,
+        year: String(year),
+        start: chunkStart,
+        end: chunkEnd
+      };
+
+      let url = urlTemplate.replace(/\{(\w+)\}/g, (match, key) =>
+        key in params ? encodeURIComponent(params[key]) : match
+      );
+      if (url === urlTemplate) {
+        url += (url.includes('?') ? '&' : '?') + new URLSearchParams(params).toString();
+      }
+
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Price endpoint responded with ${response.status} ${response.statusText}.`);
+      }
+      return parsePriceJson(await response.text());
+    }
+  ))
+});
+
+export const createPriceProvider = (config: PriceSourceConfig): PriceProvider => {
+  switch (config.source) {
+    case PriceSource.FILE:
+      return createFilePriceProvider(config.fileName, config.contents);
+    case PriceSource.REST:
+      return createRestPriceProvider(config.urlTemplate);
+    default:
+      return geminiPriceProvider;
+  }
+};
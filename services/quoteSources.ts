@@ -0,0 +1,125 @@
+
+import { PricePoint, QuoteSource } from "../types";
+import { fetchLatestPrice } from "./geminiService";
+import { createRestPriceProvider, geminiPriceProvider } from "./priceProviders";
+import { parsePriceJson } from "./priceImport";
+import { addDays, todayIso } from "./dateRange";
+
+export type QuoteSourceKind = 'GEMINI' | 'REST' | 'MOCK';
+
+export const QUOTE_SOURCE_LABELS: Record<QuoteSourceKind, string> = {
+  GEMINI: 'Gemini Search',
+  REST: 'REST Endpoint',
+  MOCK: 'Mock Feed'
+};
+
+export const geminiQuoteSource: QuoteSource = {
+  label: QUOTE_SOURCE_LABELS.GEMINI,
+  fetchLatest: fetchLatestPrice,
+  fetchHistory: geminiPriceProvider.fetchHistory
+};
+
+/**
+ * Polls a REST endpoint for the latest quote. `{ticker}` in the template is
+ * substituted; without it the ticker is appended as a query parameter. The
+ * response may be an object with a `price` (or `last`/`close`) field, or any
+ * candle layout accepted for imports, in which case the last row is used.
+ * History comes from the candle endpoint configured for the REST price source,
+ * read when a ticker is added so editing that endpoint doesn't replace the source.
+ */
+export const createRestQuoteSource = (quoteUrlTemplate: string, historyUrlTemplate: () => string): QuoteSource => {
+  return {
+    label: quoteUrlTemplate,
+    fetchHistory: (ticker, startDate, endDate) =>
+      createRestPriceProvider(historyUrlTemplate()).fetchHistory(ticker, startDate, endDate),
+    fetchLatest: async ticker => {
+      const url = quoteUrlTemplate.includes('{ticker}')
+        ? quoteUrlTemplate.replace(/\{ticker\}/g, encodeURIComponent(ticker))
+        : `${quoteUrlTemplate}${quoteUrlTemplate.includes('?') ? '&' : '?'}ticker=${encodeURIComponent(ticker)}`;
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Quote endpoint responded with ${response.status} ${response.statusText}.`);
+      }
+      const text = await response.text();
+
+      let body: any;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        throw new Error("Quote endpoint did not return JSON.");
+      }
+      const direct = Number(body?.price ?? body?.last ?? body?.close);
+      if (!Array.isArray(body) && direct > 0) {
+        return { ticker, price: direct, date: typeof body.date === 'string' ? body.date.slice(0, 10) : todayIso(), time: Date.now() };
+      }
+      const rows = parsePriceJson(text);
+      const last = rows[rows.length - 1];
+      if (!last) throw new Error(`Quote endpoint returned no price for ${ticker}.`);
+      return { ticker, price: last.price, date: last.date, time: Date.now() };
+    }
+  };
+};
+
+export interface MockFeedOptions {
+  seed: number;
+  dailyVolatilityPct: number; // Standard deviation of daily returns
+  startPrice: number;
+}
+
+export const DEFAULT_MOCK_FEED_OPTIONS: MockFeedOptions = {
+  seed: 42,
+  dailyVolatilityPct: 3,
+  startPrice: 100
+};
+
+// Small seeded generator (mulberry32) so a feed replays identically for the same seed
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const hashTicker = (ticker: string) =>
+  Array.from(ticker).reduce((acc, char) => Math.imul(acc ^ char.charCodeAt(0), 16777619), 2166136261);
+
+// Box-Muller transform from two uniform draws
+const gaussian = (random: () => number) =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+/**
+ * Offline feed for trying watch mode without any API: a seeded random walk per
+ * ticker. History walks one step per day; each latest quote moves today's price
+ * by a fraction of a daily step, so polling produces gradual intraday drift.
+ */
+export const createMockQuoteSource = (options: MockFeedOptions = DEFAULT_MOCK_FEED_OPTIONS): QuoteSource => {
+  const walks = new Map<string, { random: () => number; price: number }>();
+  const walkFor = (ticker: string) => {
+    if (!walks.has(ticker)) {
+      walks.set(ticker, { random: seededRandom(options.seed ^ hashTicker(ticker)), price: options.startPrice });
+    }
+    return walks.get(ticker)!;
+  };
+  const step = (ticker: string, scale: number) => {
+    const walk = walkFor(ticker);
+    walk.price *= Math.exp(gaussian(walk.random) * (options.dailyVolatilityPct / 100) * scale);
+    return walk.price;
+  };
+
+  return {
+    label: QUOTE_SOURCE_LABELS.MOCK,
+    fetchHistory: async (ticker, startDate, endDate) => {
+      walks.delete(ticker);
+      const points: PricePoint[] = [];
+      for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+        points.push({ date, price: date === startDate ? walkFor(ticker).price : step(ticker, 1) });
+      }
+      return points;
+    },
+    fetchLatest: async ticker => ({ ticker, price: step(ticker, 0.25), date: todayIso(), time: Date.now() })
+  };
+};
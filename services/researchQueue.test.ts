@@ -0,0 +1,35 @@
+
+import { describe, expect, it } from 'vitest';
+import { createResearchQueue } from './researchQueue';
+
+describe('createResearchQueue', () => {
+  it('rejects a waiting task as soon as it is aborted, without starting it', async () => {
+    const queue = createResearchQueue({ concurrency: 1 });
+    let release = () => {};
+    const running = queue.run(() => new Promise<string>(resolve => { release = () => resolve('first'); }), new AbortController().signal);
+
+    const controller = new AbortController();
+    let started = false;
+    const waiting = queue.run(async () => { started = true; return 'second'; }, controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+    release();
+    await expect(running).resolves.toBe('first');
+    expect(started).toBe(false);
+  });
+
+  it('starts the next task once a slot frees', async () => {
+    const queue = createResearchQueue({ concurrency: 1 });
+    const order: string[] = [];
+    const signal = new AbortController().signal;
+    await Promise.all(['a', 'b', 'c'].map(name => queue.run(async () => { order.push(name); }, signal)));
+    expect(order).toEqual(['a', 'b', 'c']);
+  });
+
+  it('rejects a task whose signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(createResearchQueue().run(async () => 'never', controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
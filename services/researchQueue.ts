@@ -0,0 +1,111 @@
+
+export interface ResearchQueueOptions {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+}
+
+export const DEFAULT_RESEARCH_QUEUE_OPTIONS: ResearchQueueOptions = {
+  concurrency: 2,
+  maxRetries: 4,
+  baseDelayMs: 1500
+};
+
+export type ResearchTask<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface ResearchQueue {
+  run: <T>(task: ResearchTask<T>, signal: AbortSignal) => Promise<T>;
+}
+
+const abortError = () => new DOMException("Research was cancelled.", 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === 'AbortError';
+
+/**
+ * Rate limits (429) and server-side failures (5xx) are worth retrying; anything
+ * else, such as a bad request or a parse failure, would fail the same way again.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+  const message = String((error as { message?: unknown } | null)?.message ?? '');
+  return /\b(429|5\d\d)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded/i.test(message);
+};
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal.aborted) return reject(abortError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs a task, retrying retryable failures with exponential backoff plus jitter
+ * (base, 2×base, 4×base...). Aborting the signal stops both the wait and further attempts.
+ */
+export const withRetry = async <T>(
+  task: ResearchTask<T>,
+  signal: AbortSignal,
+  options: Pick<ResearchQueueOptions, 'maxRetries' | 'baseDelayMs'> = DEFAULT_RESEARCH_QUEUE_OPTIONS
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal.aborted) throw abortError();
+    try {
+      return await task(signal);
+    } catch (error) {
+      if (signal.aborted) throw abortError();
+      if (attempt >= options.maxRetries || !isRetryableError(error)) throw error;
+      const delay = options.baseDelayMs * 2 ** attempt;
+      await sleep(delay + Math.random() * delay * 0.25, signal);
+    }
+  }
+};
+
+/**
+ * A FIFO queue that runs at most `concurrency` research tasks at once. A task whose
+ * signal is aborted while it waits leaves the queue and is rejected straight away,
+ * without ever being started.
+ */
+export const createResearchQueue = (options: Partial<ResearchQueueOptions> = {}): ResearchQueue => {
+  const settings = { ...DEFAULT_RESEARCH_QUEUE_OPTIONS, ...options };
+  const concurrency = Math.max(1, Math.floor(settings.concurrency));
+  const waiting: (() => void)[] = [];
+  let active = 0;
+
+  const next = () => {
+    while (active < concurrency && waiting.length > 0) {
+      active++;
+      waiting.shift()!();
+    }
+  };
+
+  const run = <T>(task: ResearchTask<T>, signal: AbortSignal) => new Promise<T>((resolve, reject) => {
+    if (signal.aborted) return reject(abortError());
+    const onAbort = () => {
+      const index = waiting.indexOf(start);
+      if (index !== -1) waiting.splice(index, 1);
+      reject(abortError());
+    };
+    const start = () => {
+      signal.removeEventListener('abort', onAbort);
+      withRetry(task, signal, settings)
+        .then(resolve, reject)
+        .finally(() => {
+          active--;
+          next();
+        });
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    waiting.push(start);
+    next();
+  });
+
+  return { run };
+};
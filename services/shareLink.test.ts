@@ -0,0 +1,34 @@
+
+import { describe, expect, it } from 'vitest';
+import { decodeShareState, encodeShareState, shareAnalysisOf, DEFAULT_SHARE_VIEW } from './shareLink';
+import { PriceSource, QuoteCurrency } from '../types';
+import { buildAnalysis } from './testFixtures';
+
+const result = (source: string, sourceKind?: PriceSource) => buildAnalysis({
+  ticker: 'ETH',
+  startDate: '2022-01-01',
+  endDate: '2022-12-31',
+  targetPercentage: 8,
+  source,
+  ...(sourceKind && { sourceKind }),
+  currency: QuoteCurrency.USD
+});
+
+describe('shareAnalysisOf', () => {
+  it('uses the recorded source kind, even for a REST URL without {ticker}', () => {
+    const analysis = shareAnalysisOf(result('https://prices.example/btc.json', PriceSource.REST));
+    expect(analysis).toMatchObject({ source: PriceSource.REST, restUrl: 'https://prices.example/btc.json' });
+  });
+
+  it('falls back to the label for analyses saved without a source kind', () => {
+    expect(shareAnalysisOf(result('prices.csv')).source).toBe(PriceSource.FILE);
+    expect(shareAnalysisOf(result('http://localhost/{ticker}')).source).toBe(PriceSource.REST);
+  });
+
+  it('round-trips through the query string', () => {
+    const analysis = shareAnalysisOf(result('https://prices.example/btc.json', PriceSource.REST));
+    const query = encodeShareState({ analysis, view: DEFAULT_SHARE_VIEW });
+    expect(query).toBe('ticker=ETH&year=2022&pct=8&source=rest&rest=https%3A%2F%2Fprices.example%2Fbtc.json');
+    expect(decodeShareState(query)?.analysis).toEqual(analysis);
+  });
+});
@@ -0,0 +1,201 @@
+
+import { AdaptiveThreshold, AnalysisResult, ChartRange, ChartView, ComparisonResult, IndicatorOverlay, IndicatorPanel, PriceScale, PriceSource, PriceTrigger, QuoteCurrency, SwingMode, VolatilityMeasure } from "../types";
+import { PRICE_SOURCE_LABELS } from "./priceProviders";
+import { isFullYear, isIsoDate, isValidRange } from "./dateRange";
+import { SWING_REGIMES, SwingRegime } from "./indicators";
+
+// The inputs that reproduce an analysis
+export interface ShareAnalysis {
+  tickers: string[];
+  startDate: string;
+  endDate: string;
+  thresholdPercent: number;
+  mode: SwingMode;
+  trigger: PriceTrigger;
+  adaptive?: AdaptiveThreshold;
+  currency: QuoteCurrency;
+  source: PriceSource;
+  restUrl?: string; // REST sources only
+}
+
+// How the analysis is displayed; none of it needs a refetch
+export interface ShareView {
+  chartView: ChartView;
+  scale: PriceScale;
+  overlays: IndicatorOverlay[];
+  panels: IndicatorPanel[];
+  regime: SwingRegime;
+  envelope: boolean;
+  swing: number | null; // Index into the swing timeline
+  zoom: ChartRange | null;
+}
+
+export interface ShareState {
+  analysis: ShareAnalysis;
+  view: ShareView;
+}
+
+export const DEFAULT_SHARE_VIEW: ShareView = {
+  chartView: 'AREA',
+  scale: 'LINEAR',
+  overlays: [],
+  panels: [],
+  regime: 'ALL',
+  envelope: false,
+  swing: null,
+  zoom: null
+};
+
+const CHART_VIEWS: ChartView[] = ['AREA', 'CANDLES'];
+const PRICE_SCALES: PriceScale[] = ['LINEAR', 'LOG'];
+const OVERLAYS: IndicatorOverlay[] = ['EMA20', 'SMA50', 'SMA200', 'BOLLINGER'];
+const PANELS: IndicatorPanel[] = ['RSI', 'ATR', 'VOLATILITY'];
+
+const DEFAULT_THRESHOLD = 5;
+const DEFAULT_WINDOW = 14;
+const DEFAULT_MULTIPLE = 3;
+
+// Case-insensitive lookup of an enum-like value, falling back when unknown
+const pick = <T extends string>(value: string | null, options: readonly T[], fallback: T): T =>
+  options.find(option => option === value?.toUpperCase().replace(/-/g, '_')) ?? fallback;
+
+const list = <T extends string>(value: string | null, options: readonly T[]): T[] =>
+  (value ?? '').split(',').map(item => pick<T | ''>(item, options, '')).filter((item): item is T => item !== '');
+
+// Analyses saved before the source kind was recorded only carry the provider's label
+const legacySourceOf = (label: string): PriceSource =>
+  label === PRICE_SOURCE_LABELS[PriceSource.GEMINI] ? PriceSource.GEMINI
+    : label.includes('{ticker}') ? PriceSource.REST
+    : PriceSource.FILE;
+
+export const shareAnalysisOf = (shown: AnalysisResult | ComparisonResult): ShareAnalysis => {
+  const assets = 'assets' in shown ? shown.assets : [shown];
+  const source = shown.sourceKind ?? legacySourceOf(shown.source);
+  return {
+    tickers: assets.map(asset => asset.ticker),
+    startDate: shown.startDate,
+    endDate: shown.endDate,
+    thresholdPercent: shown.targetPercentage,
+    mode: shown.mode,
+    trigger: shown.trigger,
+    currency: assets[0]?.currency ?? QuoteCurrency.USD,
+    source,
+    ...(shown.adaptive && { adaptive: shown.adaptive }),
+    // The REST provider's label is its URL template
+    ...(source === PriceSource.REST && { restUrl: shown.source })
+  };
+};
+
+// Commas are legal in a query and keep ticker and indicator lists readable
+const toQuery = (params: URLSearchParams) => params.toString().replace(/%2C/g, ',');
+
+const analysisParams = (analysis: ShareAnalysis, params: URLSearchParams) => {
+  params.set('ticker', analysis.tickers.join(','));
+  if (isFullYear(analysis.startDate, analysis.endDate)) {
+    params.set('year', analysis.startDate.slice(0, 4));
+  } else {
+    params.set('from', analysis.startDate);
+    params.set('to', analysis.endDate);
+  }
+  if (analysis.adaptive) {
+    params.set('measure', analysis.adaptive.measure.toLowerCase());
+    params.set('window', String(analysis.adaptive.window));
+    params.set('multiple', String(analysis.adaptive.multiple));
+  }
+  // An adaptive threshold still falls back to the percentage while its window fills
+  if (analysis.thresholdPercent !== DEFAULT_THRESHOLD) params.set('pct', String(analysis.thresholdPercent));
+  if (analysis.mode !== SwingMode.THRESHOLD) params.set('mode', analysis.mode.toLowerCase());
+  if (analysis.trigger !== PriceTrigger.CLOSE) params.set('trigger', analysis.trigger.toLowerCase().replace(/_/g, '-'));
+  if (analysis.currency !== QuoteCurrency.USD) params.set('currency', analysis.currency);
+  if (analysis.source !== PriceSource.GEMINI) params.set('source', analysis.source.toLowerCase());
+  if (analysis.restUrl) params.set('rest', analysis.restUrl);
+};
+
+/**
+ * Query string for a shared analysis, e.g. "ticker=ETH&year=2022&pct=8". Values
+ * at their defaults are left out so links stay short, and parameters are always
+ * written in the same order so equal states give equal strings.
+ */
+export const encodeShareState = ({ analysis, view }: ShareState): string => {
+  const params = new URLSearchParams();
+  analysisParams(analysis, params);
+  if (view.chartView !== DEFAULT_SHARE_VIEW.chartView) params.set('view', view.chartView.toLowerCase());
+  if (view.scale !== DEFAULT_SHARE_VIEW.scale) params.set('scale', view.scale.toLowerCase());
+  if (view.overlays.length > 0) params.set('overlays', view.overlays.join(','));
+  if (view.panels.length > 0) params.set('panels', view.panels.join(','));
+  if (view.regime !== DEFAULT_SHARE_VIEW.regime) params.set('regime', view.regime.toLowerCase().replace(/_/g, '-'));
+  if (view.envelope) params.set('envelope', '1');
+  // Swings are numbered from 1 on the cards
+  if (view.swing !== null) params.set('swing', String(view.swing + 1));
+  if (view.zoom) params.set('zoom', `${view.zoom.startDate}..${view.zoom.endDate}`);
+  return toQuery(params);
+};
+
+// Identifies the analysis in a link, ignoring how it is displayed
+export const shareAnalysisKey = (analysis: ShareAnalysis): string => {
+  const params = new URLSearchParams();
+  analysisParams(analysis, params);
+  return toQuery(params);
+};
+
+const positive = (value: string | null, fallback: number) => {
+  const parsed = Number(value);
+  return value !== null && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Reads a shared analysis from a query string. Returns null when the link has no
+ * ticker or an unusable date range; any other unknown or malformed value falls
+ * back to its default, so hand-edited links still open.
+ */
+export const decodeShareState = (search: string): ShareState | null => {
+  const params = new URLSearchParams(search);
+  const tickers = Array.from(new Set((params.get('ticker') ?? '').split(/[\s,;]+/).map(t => t.trim().toUpperCase()).filter(Boolean)));
+  if (tickers.length === 0) return null;
+
+  const year = params.get('year');
+  const startDate = year ? `${year}-01-01` : params.get('from') ?? '';
+  const endDate = year ? `${year}-12-31` : params.get('to') ?? '';
+  if (!isIsoDate(startDate) || !isIsoDate(endDate) || !isValidRange(startDate, endDate)) return null;
+
+  const measure = pick<VolatilityMeasure | ''>(params.get('measure'), Object.values(VolatilityMeasure), '');
+  const adaptive: AdaptiveThreshold | undefined = measure
+    ? {
+      measure,
+      window: Math.max(2, Math.round(positive(params.get('window'), DEFAULT_WINDOW))),
+      multiple: positive(params.get('multiple'), DEFAULT_MULTIPLE)
+    }
+    : undefined;
+  const source = pick(params.get('source'), Object.values(PriceSource), PriceSource.GEMINI);
+  const restUrl = params.get('rest');
+
+  const swing = Number(params.get('swing'));
+  const [zoomStart, zoomEnd] = (params.get('zoom') ?? '').split('..');
+  const zoom = zoomStart && zoomEnd && isValidRange(zoomStart, zoomEnd) ? { startDate: zoomStart, endDate: zoomEnd } : null;
+
+  return {
+    analysis: {
+      tickers,
+      startDate,
+      endDate,
+      thresholdPercent: Math.max(2, positive(params.get('pct'), DEFAULT_THRESHOLD)),
+      mode: pick(params.get('mode'), Object.values(SwingMode), SwingMode.THRESHOLD),
+      trigger: pick(params.get('trigger'), Object.values(PriceTrigger), PriceTrigger.CLOSE),
+      currency: pick(params.get('currency'), Object.values(QuoteCurrency), QuoteCurrency.USD),
+      // A REST link without its endpoint can't be rerun, so it falls back to Gemini
+      source: source === PriceSource.REST && !restUrl ? PriceSource.GEMINI : source,
+      ...(adaptive && { adaptive }),
+      ...(source === PriceSource.REST && restUrl && { restUrl })
+    },
+    view: {
+      chartView: pick(params.get('view'), CHART_VIEWS, DEFAULT_SHARE_VIEW.chartView),
+      scale: pick(params.get('scale'), PRICE_SCALES, DEFAULT_SHARE_VIEW.scale),
+      overlays: list(params.get('overlays'), OVERLAYS),
+      panels: list(params.get('panels'), PANELS),
+      regime: pick(params.get('regime'), Object.keys(SWING_REGIMES) as SwingRegime[], DEFAULT_SHARE_VIEW.regime),
+      envelope: params.get('envelope') === '1',
+      swing: Number.isInteger(swing) && swing >= 1 ? swing - 1 : null,
+      zoom
+    }
+  };
+};
@@ -0,0 +1,17 @@
+
+export const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : 0;
+
+/**
+ * Linear-interpolated percentile (p in 0..100) of an unsorted sample; 0 for an empty one.
+ */
+export const percentile = (values: number[], p: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+export const median = (values: number[]) => percentile(values, 50);
@@ -0,0 +1,149 @@
+
+import { MovementEvent, MovementType } from "../types";
+import { mean, percentile } from "./statistics";
+
+export interface DistributionSummary {
+  count: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  p90: number;
+  max: number;
+  mean: number;
+}
+
+export interface HistogramBin {
+  label: string;
+  from: number;
+  to: number;
+  up: number;
+  down: number;
+}
+
+export interface SwingStreak {
+  type: MovementType;
+  length: number;
+  startDate: string; // Start of the first swing in the streak
+  endDate: string;   // End of the last swing in the streak
+}
+
+export interface MonthCell {
+  year: number;
+  month: number; // 0 = January
+  up: number;
+  down: number;
+}
+
+export interface SwingStatistics {
+  duration: Record<MovementType, DistributionSummary>;
+  overshoot: Record<MovementType, DistributionSummary>;
+  durationHistogram: HistogramBin[];
+  overshootHistogram: HistogramBin[];
+  longestStreaks: Record<MovementType, SwingStreak | null>;
+  months: MonthCell[]; // One cell per year and month of the range, by swing end date
+}
+
+const MAX_BINS = 12;
+
+export const summarizeDistribution = (values: number[]): DistributionSummary => ({
+  count: values.length,
+  min: values.length > 0 ? Math.min(...values) : 0,
+  q1: percentile(values, 25),
+  median: percentile(values, 50),
+  q3: percentile(values, 75),
+  p90: percentile(values, 90),
+  max: values.length > 0 ? Math.max(...values) : 0,
+  mean: mean(values)
+});
+
+/**
+ * Equal-width bins shared by both directions, so up and down bars line up.
+ * Uses roughly √n bins, capped so the chart stays legible.
+ */
+export const histogram = (up: number[], down: number[], format: (value: number) => string): HistogramBin[] => {
+  const all = [...up, ...down];
+  if (all.length === 0) return [];
+  const lo = Math.min(...all);
+  const hi = Math.max(...all);
+  const binCount = Math.min(MAX_BINS, Math.max(1, Math.ceil(Math.sqrt(all.length))));
+  const width = hi > lo ? (hi - lo) / binCount : 1;
+
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    label: `${format(lo + i * width)}–${format(lo + (i + 1) * width)}`,
+    from: lo + i * width,
+    to: lo + (i + 1) * width,
+    up: 0,
+    down: 0
+  }));
+  const binOf = (value: number) => Math.min(binCount - 1, Math.floor((value - lo) / width));
+  up.forEach(v => bins[binOf(v)].up++);
+  down.forEach(v => bins[binOf(v)].down++);
+  return bins;
+};
+
+const longestStreak = (movements: MovementEvent[], type: MovementType): SwingStreak | null => {
+  let best: SwingStreak | null = null;
+  let current: SwingStreak | null = null;
+  movements.forEach(move => {
+    if (move.type !== type) {
+      current = null;
+      return;
+    }
+    current = current
+      ? { ...current, length: current.length + 1, endDate: move.endDate }
+      : { type, length: 1, startDate: move.startDate, endDate: move.endDate };
+    if (!best || current.length > best.length) best = current;
+  });
+  return best;
+};
+
+const monthCells = (movements: MovementEvent[], startDate: string, endDate: string): MonthCell[] => {
+  const cells: MonthCell[] = [];
+  const firstYear = parseInt(startDate.slice(0, 4));
+  const lastYear = parseInt(endDate.slice(0, 4));
+  for (let year = firstYear; year <= lastYear; year++) {
+    for (let month = 0; month < 12; month++) cells.push({ year, month, up: 0, down: 0 });
+  }
+  movements.forEach(move => {
+    const cell = cells[(parseInt(move.endDate.slice(0, 4)) - firstYear) * 12 + parseInt(move.endDate.slice(5, 7)) - 1];
+    if (!cell) return;
+    if (move.type === MovementType.UP) cell.up++;
+    else cell.down++;
+  });
+  return cells;
+};
+
+/**
+ * Duration and magnitude statistics for a set of swings. Overshoot is how far a
+ * swing ran past the threshold it confirmed against (its own, when recorded), in
+ * percentage points of its own move.
+ */
+export const computeSwingStatistics = (
+  movements: MovementEvent[],
+  thresholdPercent: number,
+  startDate: string,
+  endDate: string
+): SwingStatistics => {
+  const byType = (type: MovementType) => movements.filter(m => m.type === type);
+  const days = (type: MovementType) => byType(type).map(m => m.daysTaken);
+  const overshoot = (type: MovementType) => byType(type).map(m => Math.max(0, Math.abs(m.percentageChange) - (m.thresholdPercent ?? thresholdPercent)));
+
+  return {
+    duration: {
+      [MovementType.UP]: summarizeDistribution(days(MovementType.UP)),
+      [MovementType.DOWN]: summarizeDistribution(days(MovementType.DOWN))
+    },
+    overshoot: {
+      [MovementType.UP]: summarizeDistribution(overshoot(MovementType.UP)),
+      [MovementType.DOWN]: summarizeDistribution(overshoot(MovementType.DOWN))
+    },
+    durationHistogram: histogram(days(MovementType.UP), days(MovementType.DOWN), v => `${Math.round(v)}d`),
+    overshootHistogram: histogram(overshoot(MovementType.UP), overshoot(MovementType.DOWN), v => `${v.toFixed(1)}%`),
+    longestStreaks: {
+      [MovementType.UP]: longestStreak(movements, MovementType.UP),
+      [MovementType.DOWN]: longestStreak(movements, MovementType.DOWN)
+    },
+    months: monthCells(movements, startDate, endDate)
+  };
+};
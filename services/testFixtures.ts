@@ -0,0 +1,25 @@
+
+import { AnalysisResult, MovementType, PricePoint, PriceTrigger, SwingMode } from '../types';
+
+// Consecutive daily closes from 2024-01-01
+export const dailySeries = (...prices: number[]): PricePoint[] =>
+  prices.map((price, i) => ({ date: new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10), price }));
+
+/**
+ * A small valid analysis for tests: three daily closes with one confirmed up
+ * swing. Overrides replace whole fields.
+ */
+export const buildAnalysis = (overrides: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  ticker: 'BTC',
+  startDate: '2024-01-01',
+  endDate: '2024-01-03',
+  targetPercentage: 5,
+  mode: SwingMode.THRESHOLD,
+  trigger: PriceTrigger.CLOSE,
+  source: 'Imported file',
+  data: dailySeries(100, 106, 100),
+  movements: [
+    { startDate: '2024-01-01', endDate: '2024-01-02', startPrice: 100, endPrice: 106, type: MovementType.UP, percentageChange: 6, daysTaken: 1 }
+  ],
+  ...overrides
+});
@@ -0,0 +1,56 @@
+
+import { MovementType, PricePoint, SwingDetectionOptions } from "../types";
+import { detectSwings } from "./analysisEngine";
+import { mean, median } from "./statistics";
+
+export interface SweepRange {
+  from: number;
+  to: number;
+  step: number;
+}
+
+export interface SweepRow {
+  thresholdPercent: number;
+  upCount: number;
+  downCount: number;
+  avgDays: number;
+  medianDays: number;
+}
+
+// Guards the UI against ranges like 2%..30% in 0.001% steps
+export const MAX_SWEEP_STEPS = 500;
+
+export const sweepThresholds = (range: SweepRange): number[] => {
+  const { from, to, step } = range;
+  if (!(step > 0) || !(from > 0) || to < from) {
+    throw new Error("Sweep range needs a positive start, an end at or above it, and a positive step.");
+  }
+
+  const count = Math.floor((to - from) / step + 1e-9) + 1;
+  if (count > MAX_SWEEP_STEPS) {
+    throw new Error(`Sweep would run ${count} thresholds; the limit is ${MAX_SWEEP_STEPS}. Use a larger step.`);
+  }
+  // Rounded to avoid float drift such as 2.3000000000000003
+  return Array.from({ length: count }, (_, i) => Math.round((from + i * step) * 1e6) / 1e6);
+};
+
+/**
+ * Re-runs swing detection over already fetched data for every threshold in the
+ * range, keeping all other detection options fixed.
+ */
+export const runThresholdSweep = (
+  data: PricePoint[],
+  range: SweepRange,
+  options: Partial<SwingDetectionOptions> = {}
+): SweepRow[] =>
+  sweepThresholds(range).map(thresholdPercent => {
+    const movements = detectSwings(data, { ...options, thresholdPercent });
+    const days = movements.map(m => m.daysTaken);
+    return {
+      thresholdPercent,
+      upCount: movements.filter(m => m.type === MovementType.UP).length,
+      downCount: movements.filter(m => m.type === MovementType.DOWN).length,
+      avgDays: mean(days),
+      medianDays: median(days)
+    };
+  });
@@ -0,0 +1,70 @@
+
+import { describe, expect, it } from 'vitest';
+import { applyTick, createWatchEntry, WatchEntry } from './watch';
+import { MovementType, QuoteTick } from '../types';
+import { dailySeries } from './testFixtures';
+
+const tick = (date: string, price: number): QuoteTick => ({ ticker: 'BTC', date, price, time: Date.parse(date) });
+
+// Up 6% into 2024-01-02, then 104 on 2024-01-03
+const entry = (alertPercent: number | null = null) =>
+  createWatchEntry({ ticker: 'BTC', thresholdPercent: 5, alertPercent }, dailySeries(100, 106, 104));
+
+const applyAll = (start: WatchEntry, ticks: QuoteTick[]) =>
+  ticks.reduce<{ entry: WatchEntry; kinds: string[] }>((acc, t) => {
+    const next = applyTick(acc.entry, t);
+    return { entry: next.entry, kinds: [...acc.kinds, ...next.alerts.map(a => a.kind)] };
+  }, { entry: start, kinds: [] });
+
+describe('createWatchEntry', () => {
+  it('resumes the open swing from the last confirmed swing', () => {
+    const { movements, open } = entry();
+    expect(movements).toHaveLength(1);
+    expect(open).toMatchObject({ baseDate: '2024-01-02', basePrice: 106, price: 104 });
+    expect(open!.changePct).toBeCloseTo((104 / 106 - 1) * 100);
+    expect(open!.downProgress).toBeCloseTo(((1 - 104 / 106) * 100 / 5) * 100);
+    expect(open!.upProgress).toBe(0);
+  });
+});
+
+describe('applyTick', () => {
+  it('confirms a swing when a tick crosses the threshold and moves the base to it', () => {
+    const { entry: next, alerts } = applyTick(entry(), tick('2024-01-03', 100));
+    expect(alerts.map(a => a.kind)).toEqual(['CONFIRMED']);
+    expect(next.movements[1]).toMatchObject({ type: MovementType.DOWN, startDate: '2024-01-02', endDate: '2024-01-03', startPrice: 106, endPrice: 100 });
+    expect(next.open).toMatchObject({ baseDate: '2024-01-03', basePrice: 100, changePct: 0 });
+  });
+
+  it('keeps an intraday confirmation while the day moves back', () => {
+    const { entry: next, kinds } = applyAll(entry(), [tick('2024-01-03', 100), tick('2024-01-03', 103)]);
+    expect(kinds).toEqual(['CONFIRMED']);
+    expect(next.movements).toHaveLength(2);
+    expect(next.open).toMatchObject({ basePrice: 100, price: 103 });
+  });
+
+  it('resets the base to the closes once a new day starts', () => {
+    // The dip to 100 confirmed intraday, but 2024-01-03 closed at 103, under 5% from 106
+    const { entry: next } = applyAll(entry(), [tick('2024-01-03', 100), tick('2024-01-03', 103), tick('2024-01-04', 104)]);
+    expect(next.movements).toHaveLength(1);
+    expect(next.data.map(p => p.price)).toEqual([100, 106, 103, 104]);
+    expect(next.open).toMatchObject({ baseDate: '2024-01-02', basePrice: 106, price: 104 });
+  });
+
+  it('alerts once per base and re-arms on a new base', () => {
+    const { kinds } = applyAll(entry(3), [
+      tick('2024-01-03', 102.5), // -3.3% from 106
+      tick('2024-01-03', 102),
+      tick('2024-01-03', 100),   // Confirms, new base at 100
+      tick('2024-01-03', 103.5)  // +3.5% from the new base
+    ]);
+    expect(kinds).toEqual(['CROSSED', 'CONFIRMED', 'CROSSED']);
+  });
+
+  it('ignores a stale quote for a closed day', () => {
+    const start = entry();
+    const { entry: next, alerts } = applyTick(start, tick('2024-01-01', 50));
+    expect(alerts).toEqual([]);
+    expect(next.data).toBe(start.data);
+    expect(next.lastTick?.price).toBe(50);
+  });
+});
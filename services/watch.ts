@@ -0,0 +1,229 @@
+
+import { MovementEvent, MovementType, PricePoint, QuoteSource, QuoteTick, SwingMode } from "../types";
+import { daysBetween, detectSwings } from "./analysisEngine";
+import { todayIso } from "./dateRange";
+
+export interface WatchItem {
+  ticker: string;
+  thresholdPercent: number;
+  alertPercent: number | null; // Notify once the open swing moves this far either way; null = off
+}
+
+// The swing that has not confirmed yet, measured from the base of the next one
+export interface OpenSwing {
+  baseDate: string;
+  basePrice: number;
+  price: number;
+  changePct: number;
+  upProgress: number;   // Percent of the threshold covered upward, 0..100
+  downProgress: number; // Percent of the threshold covered downward, 0..100
+}
+
+export interface WatchEntry extends WatchItem {
+  data: PricePoint[]; // Daily closes; the last day's is the latest quote
+  movements: MovementEvent[];
+  open: OpenSwing | null;
+  lastTick?: QuoteTick;
+  alerted: boolean; // The alert percent already fired for the current base
+  error?: string;
+}
+
+export type WatchAlertKind = 'CONFIRMED' | 'CROSSED';
+
+export interface WatchAlert {
+  ticker: string;
+  kind: WatchAlertKind;
+  message: string;
+  time: number;
+}
+
+export const DEFAULT_WATCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Progress of the in-progress swing. With every crossing recorded (the watch
+ * mode defaults), the base is the end of the last confirmed swing, or the first
+ * price before any swing.
+ */
+export const openSwing = (data: PricePoint[], movements: MovementEvent[], thresholdPercent: number): OpenSwing | null => {
+  if (data.length === 0) return null;
+  const last = movements[movements.length - 1];
+  const baseDate = last ? last.endDate : data[0].date;
+  const basePrice = last ? last.endPrice : data[0].price;
+  const price = data[data.length - 1].price;
+  const changePct = ((price - basePrice) / basePrice) * 100;
+  return {
+    baseDate,
+    basePrice,
+    price,
+    changePct,
+    upProgress: Math.min(100, Math.max(0, (changePct / thresholdPercent) * 100)),
+    downProgress: Math.min(100, Math.max(0, (-changePct / thresholdPercent) * 100))
+  };
+};
+
+// A tick replaces the close of its own day, or appends a new day after the last one
+export const mergeTick = (data: PricePoint[], tick: QuoteTick): PricePoint[] => {
+  const last = data[data.length - 1];
+  if (!last || tick.date > last.date) return [...data, { date: tick.date, price: tick.price }];
+  if (tick.date === last.date) return [...data.slice(0, -1), { ...last, price: tick.price }];
+  return data; // Stale quote for a day already closed
+};
+
+const detect = (data: PricePoint[], thresholdPercent: number) =>
+  detectSwings(data, { mode: SwingMode.THRESHOLD, thresholdPercent });
+
+export const createWatchEntry = (item: WatchItem, history: PricePoint[]): WatchEntry => {
+  const movements = detect(history, item.thresholdPercent);
+  return { ...item, data: history, movements, open: openSwing(history, movements, item.thresholdPercent), alerted: false };
+};
+
+/**
+ * Folds a new quote into an entry and reports what it triggered: a swing that
+ * the quote confirmed, and the first crossing of the alert percent per base.
+ *
+ * Closed days are settled by regular detection on their closes. Within the
+ * current day a confirmation sticks: later quotes measure from the price that
+ * confirmed it, even if the day's price moves back.
+ */
+export const applyTick = (entry: WatchEntry, tick: QuoteTick): { entry: WatchEntry; alerts: WatchAlert[] } => {
+  const data = mergeTick(entry.data, tick);
+  if (data === entry.data) return { entry: { ...entry, lastTick: tick }, alerts: [] };
+
+  const startsNewDay = data.length > entry.data.length;
+  let movements = startsNewDay ? detect(entry.data, entry.thresholdPercent) : entry.movements;
+  let open = openSwing(data, movements, entry.thresholdPercent);
+  const alerts: WatchAlert[] = [];
+
+  if (open && Math.abs(open.changePct) >= entry.thresholdPercent) {
+    const move: MovementEvent = {
+      startDate: open.baseDate,
+      endDate: tick.date,
+      startPrice: open.basePrice,
+      endPrice: tick.price,
+      type: open.changePct > 0 ? MovementType.UP : MovementType.DOWN,
+      percentageChange: open.changePct,
+      daysTaken: daysBetween(open.baseDate, tick.date),
+      thresholdPercent: entry.thresholdPercent
+    };
+    movements = [...movements, move];
+    open = openSwing(data, movements, entry.thresholdPercent);
+    alerts.push({
+      ticker: entry.ticker,
+      kind: 'CONFIRMED',
+      message: `${entry.ticker} confirmed a ${move.type} swing of ${move.percentageChange >= 0 ? '+' : ''}${move.percentageChange.toFixed(2)}% since ${move.startDate}.`,
+      time: tick.time
+    });
+  }
+
+  // A new base re-arms the alert
+  let alerted = entry.alerted && open?.baseDate === entry.open?.baseDate;
+  if (entry.alertPercent !== null && open && !alerted && Math.abs(open.changePct) >= entry.alertPercent) {
+    alerted = true;
+    const direction = open.changePct >= 0 ? MovementType.UP : MovementType.DOWN;
+    alerts.push({
+      ticker: entry.ticker,
+      kind: 'CROSSED',
+      message: `${entry.ticker} is ${direction} ${Math.abs(open.changePct).toFixed(2)}% from its ${open.baseDate} base, past the ${entry.alertPercent}% alert.`,
+      time: tick.time
+    });
+  }
+
+  return { entry: { ...entry, data, movements, open, lastTick: tick, alerted, error: undefined }, alerts };
+};
+
+export interface WatcherOptions {
+  source: QuoteSource;
+  intervalMs: number;
+  onChange: (entries: WatchEntry[]) => void;
+  onAlert: (alert: WatchAlert) => void;
+}
+
+export interface Watcher {
+  add: (item: WatchItem) => Promise<void>;
+  remove: (ticker: string) => void;
+  refresh: () => Promise<void>;
+  start: () => void;
+  stop: () => void;
+  setIntervalMs: (intervalMs: number) => void;
+  isRunning: () => boolean;
+}
+
+/**
+ * Keeps a watchlist up to date from a quote source. Each ticker is seeded with
+ * its history since January 1st, then every refresh polls one latest quote per
+ * ticker. A refresh that is still running when the timer fires is not doubled
+ * up, and one ticker failing does not hold back the others.
+ */
+export const createWatcher = (options: WatcherOptions): Watcher => {
+  let entries: WatchEntry[] = [];
+  let intervalMs = options.intervalMs;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let refreshing: Promise<void> | null = null;
+
+  const update = (ticker: string, change: (entry: WatchEntry) => WatchEntry) => {
+    entries = entries.map(entry => entry.ticker === ticker ? change(entry) : entry);
+    options.onChange(entries);
+  };
+
+  const add = async (item: WatchItem) => {
+    if (entries.some(entry => entry.ticker === item.ticker)) {
+      throw new Error(`${item.ticker} is already on the watchlist.`);
+    }
+    const today = todayIso();
+    const history = await options.source.fetchHistory(item.ticker, `${today.slice(0, 4)}-01-01`, today);
+    if (history.length === 0) {
+      throw new Error(`No price history found for ${item.ticker} this year.`);
+    }
+    entries = [...entries, createWatchEntry(item, history)];
+    options.onChange(entries);
+  };
+
+  const remove = (ticker: string) => {
+    entries = entries.filter(entry => entry.ticker !== ticker);
+    options.onChange(entries);
+  };
+
+  const refresh = () => {
+    if (!refreshing) {
+      refreshing = Promise.all(entries.map(async ({ ticker }) => {
+        try {
+          const tick = await options.source.fetchLatest(ticker);
+          let alerts: WatchAlert[] = [];
+          update(ticker, entry => {
+            const next = applyTick(entry, tick);
+            alerts = next.alerts;
+            return next.entry;
+          });
+          alerts.forEach(options.onAlert);
+        } catch (error: any) {
+          update(ticker, entry => ({ ...entry, error: error.message || "Quote refresh failed." }));
+        }
+      })).then(() => undefined).finally(() => {
+        refreshing = null;
+      });
+    }
+    return refreshing;
+  };
+
+  const start = () => {
+    if (timer) return;
+    timer = setInterval(refresh, intervalMs);
+    refresh();
+  };
+
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  // Takes effect immediately when running, without an extra refresh
+  const setIntervalMs = (ms: number) => {
+    intervalMs = ms;
+    if (timer) {
+      clearInterval(timer);
+      timer = setInterval(refresh, intervalMs);
+    }
+  };
+
+  return { add, remove, refresh, start, stop, setIntervalMs, isRunning: () => timer !== null };
+};
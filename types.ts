@@ -1,7 +1,10 @@
-
 export interface PricePoint {
   date: string;
-  price: number;
+  price: number; // Daily close
+  open?: number;
+  high?: number;
+  low?: number;
+  volume?: number;
 }
 
 export enum MovementType {
@@ -17,13 +20,272 @@ export interface MovementEvent {
   type: MovementType;
   percentageChange: number;
   daysTaken: number;
-  context?: string; // New field for macro/micro events
+  confirmationDate?: string; // ZigZag only: close that confirmed the end pivot; absent while the last leg is still open
+  thresholdPercent?: number; // Threshold in effect when the swing confirmed; varies with an adaptive threshold
+  context?: string; // Plain-text summary of macro/micro events (mirrors research.summary)
+  research?: MovementResearch;
+  indicators?: { start: IndicatorSnapshot; end: IndicatorSnapshot };
+}
+
+// Indicator readings on one day; a field is absent until its lookback window has filled
+export interface IndicatorSnapshot {
+  rsi?: number;           // 14-day Wilder RSI, 0..100
+  sma50?: number;
+  sma200?: number;
+  aboveSma200?: boolean;
+  bollingerPctB?: number; // Position within the 20-day, 2σ bands: 0 = lower, 1 = upper
+  atrPct?: number;        // 14-day ATR as a percentage of the close
+  realizedVol?: number;   // 30-day annualized volatility of log returns, percent
+}
+
+export enum EventCategory {
+  MACRO = 'MACRO',
+  REGULATORY = 'REGULATORY',
+  HACK = 'HACK',
+  ETF_FLOWS = 'ETF_FLOWS',
+  ON_CHAIN = 'ON_CHAIN',
+  OTHER = 'OTHER'
+}
+
+export type ConfidenceLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export interface ResearchEvent {
+  date: string;
+  title: string;
+  category: EventCategory;
+}
+
+export interface ResearchSource {
+  title: string;
+  url: string;
+}
+
+export interface MovementResearch {
+  summary: string;
+  categories: EventCategory[];
+  events: ResearchEvent[]; // Only events dated inside the swing window
+  confidence: ConfidenceLevel;
+  sources: ResearchSource[]; // From search grounding metadata, not model text
 }
 
 export interface AnalysisResult {
   ticker: string;
-  year: number;
+  startDate: string;
+  endDate: string;
   targetPercentage: number;
+  mode: SwingMode;
+  trigger: PriceTrigger;
+  source: string; // Label of the price provider the data came from
+  sourceKind?: PriceSource; // Absent on analyses saved before it was recorded
   data: PricePoint[];
   movements: MovementEvent[];
+  quality?: DataQualityReport; // Absent on analyses saved before data checks existed
+  currency?: QuoteCurrency;     // Absent means USD
+  adaptive?: AdaptiveThreshold; // Absent means the fixed targetPercentage
+}
+
+export enum QuoteCurrency {
+  USD = 'USD',
+  EUR = 'EUR',
+  BTC = 'BTC'
+}
+
+export enum PriceSource {
+  GEMINI = 'GEMINI',
+  FILE = 'FILE',
+  REST = 'REST'
+}
+
+export type PriceSourceConfig =
+  | { source: PriceSource.GEMINI }
+  | { source: PriceSource.FILE; fileName: string; contents: string }
+  | { source: PriceSource.REST; urlTemplate: string };
+
+export interface PriceProvider {
+  source: PriceSource;
+  label: string;
+  fetchHistory: (ticker: string, startDate: string, endDate: string) => Promise<PricePoint[]>;
+}
+
+// Latest traded price for watch mode; `date` is the trading day it belongs to
+export interface QuoteTick {
+  ticker: string;
+  price: number;
+  date: string;
+  time: number; // Epoch ms the quote was taken
+}
+
+export interface QuoteSource {
+  label: string;
+  fetchLatest: (ticker: string) => Promise<QuoteTick>;
+  fetchHistory: (ticker: string, startDate: string, endDate: string) => Promise<PricePoint[]>;
+}
+
+export enum LlmProviderKind {
+  GEMINI = 'GEMINI', // Google Gemini with search grounding
+  OPENAI = 'OPENAI', // Any OpenAI-compatible chat completions endpoint, including local servers
+  MOCK = 'MOCK'      // Recorded responses only; never touches the network
+}
+
+// What a model is asked to do; each task can use its own model
+export enum LlmTask {
+  HISTORY = 'HISTORY',   // Daily closes for a year
+  QUOTE = 'QUOTE',       // Latest price for watch mode
+  RESEARCH = 'RESEARCH'  // Causes of a swing
+}
+
+export interface LlmSettings {
+  provider: LlmProviderKind;
+  models: Record<LlmTask, string>;
+  temperature: number;
+  wordLimit: number; // Maximum length of a research summary
+  baseUrl: string;   // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  apiKey: string;    // OpenAI-compatible key; local servers usually need none
+}
+
+export enum SwingMode {
+  THRESHOLD = 'THRESHOLD', // Base-to-first-crossing moves
+  ZIGZAG = 'ZIGZAG'        // Pivot-to-pivot moves between running extremes
+}
+
+export enum PriceTrigger {
+  CLOSE = 'CLOSE',       // Swings confirm on the daily close
+  HIGH_LOW = 'HIGH_LOW'  // Swings confirm on the intraday high (up) or low (down)
+}
+
+export enum VolatilityMeasure {
+  ATR = 'ATR',     // Average true range as a percentage of the close
+  STDEV = 'STDEV'  // Standard deviation of daily log returns
+}
+
+// Scales the swing threshold with trailing volatility instead of a fixed percentage
+export interface AdaptiveThreshold {
+  measure: VolatilityMeasure;
+  window: number;   // Lookback in trading days
+  multiple: number; // Threshold = multiple × volatility, in percent
+}
+
+export type DirectionFilter = MovementType | 'BOTH';
+
+export enum BaseResetPolicy {
+  EVERY_CROSSING = 'EVERY_CROSSING', // Base moves to every threshold crossing, recorded or not
+  RECORDED_ONLY = 'RECORDED_ONLY'    // Base only moves when a swing passes the filters
+}
+
+export interface SwingDetectionOptions {
+  mode: SwingMode;
+  trigger: PriceTrigger;
+  thresholdPercent: number;  // Fixed threshold, or the warm-up value while an adaptive window fills
+  adaptive?: AdaptiveThreshold;
+  minDays: number;
+  direction: DirectionFilter;
+  baseReset: BaseResetPolicy;
+}
+
+export interface ComparisonResult {
+  startDate: string;
+  endDate: string;
+  targetPercentage: number;
+  adaptive?: AdaptiveThreshold;
+  mode: SwingMode;
+  trigger: PriceTrigger;
+  source: string;
+  sourceKind?: PriceSource;
+  assets: AnalysisResult[];
+}
+
+export interface SavedAnalysis {
+  id: string;
+  name: string;
+  savedAt: number;
+  result: AnalysisResult;
+}
+
+export interface BacktestOptions {
+  allowShort: boolean;   // false = long-only, down swings only exit
+  feeBps: number;        // Charged on traded notional, per side
+  slippageBps: number;   // Adverse price adjustment on every fill
+  startingCapital: number;
+}
+
+export interface BacktestTrade {
+  side: 'LONG' | 'SHORT';
+  entryDate: string;
+  exitDate: string;
+  entryPrice: number;
+  exitPrice: number;
+  returnPct: number;
+  pnl: number;
+  fees: number;
+  open: boolean; // Still held at the end of the data; marked at the last close
+}
+
+export interface EquityPoint {
+  date: string;
+  equity: number;
+  buyHold: number;
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  finalEquity: number;
+  totalReturnPct: number;
+  buyHoldReturnPct: number;
+  maxDrawdownPct: number;
+  winRatePct: number;
+  sharpeRatio: number;
+}
+
+export enum CoveragePolicy {
+  WARN = 'WARN',     // Run anyway and flag the report
+  REFUSE = 'REFUSE'  // Fail the analysis
+}
+
+export interface DataQualityOptions {
+  minCoveragePct: number;
+  policy: CoveragePolicy;
+  dedupe: boolean;       // Keep the first point of each date
+  forwardFill: boolean;  // Fill missing days with the previous close
+  dropOutliers: boolean; // Drop one-day spikes that immediately revert
+}
+
+export interface PriceGap {
+  from: string; // Last date before the gap
+  to: string;   // First date after the gap
+  missingDays: number;
+}
+
+export interface PriceOutlier {
+  date: string;
+  price: number;
+  returnPct: number; // Return into this point
+  zScore: number;    // Robust z-score of that return (median/MAD)
+  reverts: boolean;  // The next return is an outlier in the opposite direction
+}
+
+export interface DataQualityReport {
+  points: number;       // Rows received, before repairs
+  expectedDays: number; // Calendar days in the range up to today
+  coveragePct: number;  // Share of expected days with a valid price
+  duplicates: string[]; // Dates that appear more than once
+  gaps: PriceGap[];
+  outliers: PriceOutlier[];
+  invalid: number;      // Rows with a malformed date or non-positive price
+  belowMinCoverage: boolean;
+  repairs: string[];    // Human readable repairs that were applied
+}
+
+export type ChartView = 'AREA' | 'CANDLES';
+
+export type PriceScale = 'LINEAR' | 'LOG';
+
+export type IndicatorOverlay = 'EMA20' | 'SMA50' | 'SMA200' | 'BOLLINGER';
+
+export type IndicatorPanel = 'RSI' | 'ATR' | 'VOLATILITY';
+
+// Visible date window of the chart; null shows the full series
+export interface ChartRange {
+  startDate: string;
+  endDate: string;
 }
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// Bundles the command line entry for Node; dependencies stay external and load from node_modules
+export default defineConfig({
+  build: {
+    ssr: 'cli.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'swing-tracker.js',
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  }
+});